@@ -0,0 +1,233 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { exportBackup, importBackup } from '../src/lib/backup';
+import type { EmojiGameState } from '../src/lib/emoji-game-schema';
+import { isGameError } from '../src/lib/errors';
+import { GameSecretStorage } from '../src/lib/game-secret';
+import { GameStorage } from '../src/lib/game-storage';
+import { HotSeatStorage } from '../src/lib/hotseat-storage';
+import { InMemoryIdentityKeyStore, PlayerIdentity } from '../src/lib/player-identity';
+import { InMemoryStorageAdapter } from '../src/lib/storage-adapter';
+import type { Board, TicTacToeGameState } from '../src/lib/tic-tac-toe-schema';
+import { TicTacToeStorage } from '../src/lib/tic-tac-toe-storage';
+import { createTestGameState } from './test-helpers';
+
+const PASSPHRASE = 'correct horse battery staple';
+
+function createEmojiState(overrides?: Partial<EmojiGameState>): EmojiGameState {
+  return {
+    gameId: crypto.randomUUID(),
+    emojiChain: '🎮',
+    currentTurn: 1,
+    currentPlayer: 2,
+    player1Name: 'Alice',
+    player2Name: 'Bob',
+    checksum: 'checksum-1',
+    ...overrides,
+  };
+}
+
+// Cells filled in this order never complete a line within five moves
+const PLAY_ORDER = [0, 1, 2, 4, 3];
+
+/**
+ * Creates a Tic-Tac-Toe state whose board matches its turn, as import requires.
+ */
+function createPlayedState(turn: number, overrides?: Partial<TicTacToeGameState>): TicTacToeGameState {
+  const board = Array(9).fill(null) as Board;
+  PLAY_ORDER.slice(0, turn).forEach((cell, i) => {
+    board[cell] = i % 2 === 0 ? 'X' : 'O';
+  });
+  return createTestGameState({ board, currentTurn: turn, currentPlayer: turn % 2 === 0 ? 1 : 2, ...overrides });
+}
+
+describe('backup', () => {
+  let source: InMemoryStorageAdapter;
+  let target: InMemoryStorageAdapter;
+
+  beforeEach(() => {
+    source = new InMemoryStorageAdapter();
+    target = new InMemoryStorageAdapter();
+  });
+
+  it('should restore identity, names, secrets and games on an empty device', async () => {
+    const identityStore = new InMemoryIdentityKeyStore();
+    const identity = await PlayerIdentity.load(identityStore, { exportable: true });
+    const hotSeat = new HotSeatStorage(source);
+    hotSeat.setMyPlayerId(identity.playerId);
+    hotSeat.setMyName('Alice & Co');
+    const ticTacToe = createPlayedState(3);
+    new TicTacToeStorage(source).saveGameState(ticTacToe);
+    const emoji = createEmojiState();
+    new GameStorage(source).saveGameState(emoji);
+    const hotSeatGame = createEmojiState();
+    hotSeat.saveHotSeatGame(hotSeatGame);
+    const secret = new GameSecretStorage(source).getOrCreateSecret(ticTacToe.gameId);
+
+    const { backup, identity: identityStatus } = await exportBackup(PASSPHRASE, { storage: source, identityStore });
+    expect(identityStatus).toBe('included');
+    expect(backup).toMatch(/^cg-backup\.1\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/);
+    expect(backup).not.toContain('Alice');
+
+    const restoredIdentityStore = new InMemoryIdentityKeyStore();
+    const report = await importBackup(backup, PASSPHRASE, { storage: target, identityStore: restoredIdentityStore });
+
+    expect(report).toEqual({
+      added: [ticTacToe.gameId, emoji.gameId, hotSeatGame.gameId],
+      updated: [],
+      kept: [],
+      invalid: [],
+      identityRestored: true,
+      conflicts: [],
+    });
+    expect((await PlayerIdentity.load(restoredIdentityStore)).playerId).toBe(identity.playerId);
+    expect(new HotSeatStorage(target).getMyPlayerId()).toBe(identity.playerId);
+    expect(new HotSeatStorage(target).getMyName()).toBe('Alice &amp; Co');
+    expect(new HotSeatStorage(target).loadHotSeatGame()).toEqual(hotSeatGame);
+    expect(new TicTacToeStorage(target).loadGameState(ticTacToe.gameId)).toEqual(ticTacToe);
+    expect(new GameStorage(target).getGameState(emoji.gameId)).toEqual(emoji);
+    expect(new GameSecretStorage(target).getSecret(ticTacToe.gameId)).toBe(secret);
+  });
+
+  it('should never replace a later turn and report diverging games', async () => {
+    const sourceGames = new TicTacToeStorage(source);
+    const targetGames = new TicTacToeStorage(target);
+    const newer = createPlayedState(2, { checksum: 'b'.repeat(64) });
+    const older = createPlayedState(4, { checksum: 'c'.repeat(64) });
+    const diverged = createPlayedState(1, { checksum: 'd'.repeat(64) });
+    sourceGames.saveGameState(createPlayedState(5, { gameId: newer.gameId, checksum: 'e'.repeat(64) }));
+    sourceGames.saveGameState(createPlayedState(3, { gameId: older.gameId, checksum: 'f'.repeat(64) }));
+    sourceGames.saveGameState(diverged);
+    targetGames.saveGameState(newer);
+    targetGames.saveGameState(older);
+    targetGames.saveGameState({ ...diverged, checksum: '0'.repeat(64) });
+
+    const { backup } = await exportBackup(PASSPHRASE, { storage: source, identityStore: null });
+    const report = await importBackup(backup, PASSPHRASE, { storage: target, identityStore: null });
+
+    expect(report.updated).toEqual([newer.gameId]);
+    expect(report.kept).toEqual([older.gameId]);
+    expect(report.conflicts).toEqual([{ kind: 'game', gameType: 'tic-tac-toe', gameId: diverged.gameId, turn: 1 }]);
+    expect(targetGames.loadGameState(newer.gameId)?.currentTurn).toBe(5);
+    expect(targetGames.loadGameState(older.gameId)).toEqual(older);
+    expect(targetGames.loadGameState(diverged.gameId)?.checksum).toBe('0'.repeat(64));
+    expect(targetGames.getCurrentGameId()).toBe(diverged.gameId);
+  });
+
+  it('should report games the rules could not have produced as invalid', async () => {
+    const impossible = createTestGameState({ currentTurn: 3 });
+    const replayed = createPlayedState(2, {
+      moves: [
+        { player: 1, cellIndex: 0, mark: 'X', turn: 1 },
+        { player: 2, cellIndex: 0, mark: 'O', turn: 2 },
+      ],
+    });
+    new TicTacToeStorage(source).saveGameState(impossible);
+    new TicTacToeStorage(source).saveGameState(replayed);
+    const { backup } = await exportBackup(PASSPHRASE, { storage: source, identityStore: null });
+
+    const report = await importBackup(backup, PASSPHRASE, { storage: target, identityStore: null });
+
+    expect(report.added).toEqual([]);
+    expect(report.invalid).toEqual([
+      { gameType: 'tic-tac-toe', gameId: impossible.gameId },
+      { gameType: 'tic-tac-toe', gameId: replayed.gameId },
+    ]);
+    expect(new TicTacToeStorage(target).listGames()).toEqual([]);
+  });
+
+  it('should treat a backup without a hot-seat game like one with none', async () => {
+    vi.spyOn(HotSeatStorage.prototype, 'loadHotSeatGame').mockReturnValueOnce(undefined as never);
+    const { backup } = await exportBackup(PASSPHRASE, { storage: source, identityStore: null });
+
+    const report = await importBackup(backup, PASSPHRASE, { storage: target, identityStore: null });
+
+    expect(report.invalid).toEqual([]);
+    expect(new HotSeatStorage(target).loadHotSeatGame()).toBeNull();
+  });
+
+  it('should keep differing names and secrets unless told to overwrite names', async () => {
+    const gameId = crypto.randomUUID();
+    new HotSeatStorage(source).setMyName('Alice');
+    new GameSecretStorage(source).getOrCreateSecret(gameId);
+    new HotSeatStorage(target).setMyName('Al');
+    new GameSecretStorage(target).getOrCreateSecret(gameId);
+    const { backup } = await exportBackup(PASSPHRASE, { storage: source, identityStore: null });
+
+    const report = await importBackup(backup, PASSPHRASE, { storage: target, identityStore: null });
+
+    expect(report.conflicts).toEqual([
+      { kind: 'profile', field: 'myName', local: 'Al', backup: 'Alice' },
+      { kind: 'secret', gameId },
+    ]);
+    expect(new HotSeatStorage(target).getMyName()).toBe('Al');
+
+    await importBackup(backup, PASSPHRASE, { storage: target, identityStore: null, overwriteProfile: true });
+    expect(new HotSeatStorage(target).getMyName()).toBe('Alice');
+  });
+
+  it('should report a different identity already on this device', async () => {
+    const identityStore = new InMemoryIdentityKeyStore();
+    await PlayerIdentity.load(identityStore, { exportable: true });
+    const localStore = new InMemoryIdentityKeyStore();
+    const local = await PlayerIdentity.load(localStore);
+    const { backup } = await exportBackup(PASSPHRASE, { storage: source, identityStore });
+
+    const report = await importBackup(backup, PASSPHRASE, { storage: target, identityStore: localStore });
+
+    expect(report.identityRestored).toBe(false);
+    expect(report.conflicts).toEqual([{ kind: 'identity' }]);
+    expect((await PlayerIdentity.load(localStore)).playerId).toBe(local.playerId);
+  });
+
+  it('should replace a different identity when told to, keeping the old player ID as mine', async () => {
+    const identityStore = new InMemoryIdentityKeyStore();
+    const identity = await PlayerIdentity.load(identityStore, { exportable: true });
+    const localStore = new InMemoryIdentityKeyStore();
+    const local = await PlayerIdentity.load(localStore, { storage: target });
+    const { backup } = await exportBackup(PASSPHRASE, { storage: source, identityStore });
+
+    const report = await importBackup(backup, PASSPHRASE, {
+      storage: target,
+      identityStore: localStore,
+      overwriteIdentity: true,
+    });
+
+    expect(report.identityRestored).toBe(true);
+    expect(report.conflicts).toEqual([]);
+    expect((await PlayerIdentity.load(localStore, { storage: target })).playerId).toBe(identity.playerId);
+    expect(new HotSeatStorage(target).getMyPlayerId()).toBe(identity.playerId);
+    expect(new HotSeatStorage(target).isMyPlayerId(local.playerId)).toBe(true);
+  });
+
+  it('should report an identity it cannot export', async () => {
+    const identityStore = new InMemoryIdentityKeyStore();
+    await PlayerIdentity.load(identityStore, { storage: source });
+
+    const exported = await exportBackup(PASSPHRASE, { storage: source, identityStore });
+    const withoutStore = await exportBackup(PASSPHRASE, { storage: source, identityStore: null });
+
+    expect(exported.identity).toBe('not-exportable');
+    expect(withoutStore.identity).toBe('none');
+    const report = await importBackup(exported.backup, PASSPHRASE, {
+      storage: target,
+      identityStore: new InMemoryIdentityKeyStore(),
+    });
+    expect(report.identityRestored).toBe(false);
+  });
+
+  it('should reject a wrong passphrase and text that is not a backup', async () => {
+    const { backup } = await exportBackup(PASSPHRASE, { storage: source, identityStore: null });
+
+    const error = await importBackup(backup, 'wrong passphrase', { storage: target, identityStore: null }).catch(
+      (e: unknown) => e
+    );
+    expect(isGameError(error, 'KEY_UNAVAILABLE')).toBe(true);
+    await expect(importBackup('#d=2.tic-tac-toe.abc', PASSPHRASE, { storage: target })).rejects.toThrow(
+      'Not a correspondence games backup'
+    );
+    await expect(exportBackup('', { storage: source, identityStore: null })).rejects.toThrow(
+      'Passphrase cannot be empty'
+    );
+    expect(target.keys()).toEqual([]);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { z } from 'zod';
+import { createBinaryCodec, createPayloadCodecs } from '../src/lib/binary-codec';
+import { InvalidInputError, PayloadDecodeError } from '../src/lib/errors';
+import { GameEngine } from '../src/lib/game-engine';
+import { ticTacToeDefinition } from '../src/lib/tic-tac-toe-definition';
+import { TicTacToeGameStateSchema, TicTacToeMoveSchema, type TicTacToeGameState } from '../src/lib/tic-tac-toe-schema';
+import { encodeEnvelope, readEnvelope } from '../src/lib/url-envelope';
+
+const sampleState: TicTacToeGameState = {
+  gameId: '0f8fad5b-d9cb-469f-a165-70867728950e',
+  board: ['X', 'O', null, null, 'X', null, null, null, 'O'],
+  currentTurn: 4,
+  currentPlayer: 1,
+  player1: { id: '7c9e6679-7425-40de-944b-e07fc1f90ae7', name: 'Alice' },
+  player2: { id: '', name: 'Bob 🎲', publicKey: 'BHv1lBqPzOq3yQcD_rZ-7l0' },
+  status: 'playing',
+  checksum: 'ab'.repeat(32),
+  moves: [
+    { player: 1, cellIndex: 0, mark: 'X', turn: 1 },
+    { player: 2, cellIndex: 1, mark: 'O', turn: 2 },
+    { player: 1, cellIndex: 4, mark: 'X', turn: 3 },
+    { player: 2, cellIndex: 8, mark: 'O', turn: 4 },
+  ],
+};
+
+describe('createBinaryCodec', () => {
+  const codec = createBinaryCodec(TicTacToeGameStateSchema, 'game state');
+
+  it('should round-trip a game state exactly', () => {
+    const encoded = codec.encode(sampleState);
+
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(codec.decode(encoded)).toEqual(sampleState);
+  });
+
+  it('should be much shorter than compressed JSON', () => {
+    const json = encodeEnvelope('full-state', 'tic-tac-toe', { state: sampleState, target: { seat: 2 } });
+
+    expect(codec.encode(sampleState).length).toBeLessThan(json.length / 2);
+  });
+
+  it('should round-trip every kind of string and number', () => {
+    const schema = z.object({
+      strings: z.array(z.string()),
+      small: z.number().int().min(-3).max(3),
+      counter: z.number().int().min(0),
+      signed: z.number().int(),
+      real: z.number(),
+      flag: z.boolean(),
+      maybe: z.string().nullable(),
+      pair: z.tuple([z.enum(['red', 'green']), z.literal(7)]),
+    });
+    const value: z.infer<typeof schema> = {
+      strings: ['', 'ABCDEF01-2345-6789-ABCD-EF0123456789', 'deadbeef', 'abc', 'AbC-_x', 'héllo', '😀'],
+      small: -3,
+      counter: 2 ** 40,
+      signed: -Number.MAX_SAFE_INTEGER,
+      real: -0.1,
+      flag: true,
+      maybe: null,
+      pair: ['green', 7],
+    };
+
+    const codec = createBinaryCodec(schema);
+
+    expect(codec.decode(codec.encode(value))).toEqual(value);
+  });
+
+  it('should refuse values it could not round-trip', () => {
+    expect(() => codec.encode({ ...sampleState, currentTurn: 12 })).toThrow(InvalidInputError);
+    expect(() => codec.encode({ ...sampleState, extra: 1 } as TicTacToeGameState)).toThrow(
+      "Cannot encode $.extra: the schema doesn't list it"
+    );
+    expect(() => createBinaryCodec(z.string()).encode('\uD800')).toThrow('not valid Unicode');
+  });
+
+  it('should refuse schemas with no binary layout', () => {
+    expect(() => createBinaryCodec(z.object({ scores: z.record(z.string(), z.number()) }))).toThrow(
+      'Cannot derive a binary layout for the record schema at $.scores'
+    );
+  });
+
+  it('should reject corrupt payloads', () => {
+    const encoded = codec.encode(sampleState);
+
+    expect(() => codec.decode(encoded.slice(0, 10))).toThrow('Binary payload is truncated');
+    expect(() => codec.decode(`${encoded}AAAA`)).toThrow('Binary payload has trailing data');
+    expect(() => codec.decode('!!!')).toThrow(PayloadDecodeError);
+    expect(() => codec.decode(encoded.slice(0, 10))).toThrow(expect.objectContaining({ reason: 'invalid-binary' }));
+  });
+
+  it('should check schema refinements after decoding', () => {
+    const loose = createBinaryCodec(z.object({ name: z.string() }));
+    const strict = createBinaryCodec(z.object({ name: z.string().min(3) }));
+
+    expect(() => strict.decode(loose.encode({ name: 'Al' }))).toThrow('Invalid payload in URL payload - name:');
+  });
+});
+
+describe('compact links', () => {
+  it('should carry payloads in the envelope for readers with the codecs', () => {
+    const codecs = createPayloadCodecs(TicTacToeGameStateSchema, TicTacToeMoveSchema);
+    const hash = encodeEnvelope('full-state', 'tic-tac-toe', { state: sampleState, target: { seat: 2 } }, codecs);
+
+    expect(hash).toMatch(/^#s=2\.tic-tac-toe\.b\.[A-Za-z0-9_-]+$/);
+    expect(readEnvelope(hash, 'full-state', 'tic-tac-toe', codecs)).toEqual({
+      state: sampleState,
+      target: { seat: 2 },
+    });
+    expect(() => readEnvelope(hash, 'full-state', 'tic-tac-toe')).toThrow('compact format');
+  });
+
+  it('should play a game over compact, encrypted links', async () => {
+    const engine = new GameEngine(ticTacToeDefinition, { compactLinks: true });
+    const plainEngine = new GameEngine(ticTacToeDefinition);
+    let state = await engine.createGame(crypto.randomUUID(), { id: crypto.randomUUID(), name: 'Alice' });
+    ({ state } = await engine.makeMove(state, { player: 1, cellIndex: 4, mark: 'X', turn: 1 }));
+
+    const compact = await engine.encodeFullState(state, { seat: 2 });
+    const plain = await plainEngine.encodeFullState(state, { seat: 2 });
+    expect(compact.length).toBeLessThan(plain.length / 2);
+
+    const next = await engine.makeMove(state, { player: 2, cellIndex: 0, mark: 'O', turn: 2 });
+    const link = await engine.encryptLink(engine.encodeDelta(next.delta, { seat: 1 }), state.gameId);
+    const { delta } = engine.decodeDelta(await engine.decryptLink(link));
+
+    expect(delta).toEqual(next.delta);
+    expect((await engine.decodeFullState(await engine.encodeFullState(next.state, { seat: 1 }))).state).toEqual(
+      next.state
+    );
+  });
+});
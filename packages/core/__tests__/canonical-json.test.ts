@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { canonicalJson } from '../src/lib/canonical-json';
+import { InvalidInputError } from '../src/lib/errors';
+
+describe('canonicalJson', () => {
+  it('should sort object keys at every level', () => {
+    expect(canonicalJson({ b: 1, a: { d: [true, null], c: 'x' } })).toBe('{"a":{"c":"x","d":[true,null]},"b":1}');
+  });
+
+  it('should produce the same output regardless of insertion order', () => {
+    expect(canonicalJson({ gameId: 'g', move: { turn: 1, player: 2 } })).toBe(
+      canonicalJson({ move: { player: 2, turn: 1 }, gameId: 'g' })
+    );
+  });
+
+  it('should sort keys by UTF-16 code units', () => {
+    expect(canonicalJson({ é: 1, z: 2, Z: 3, '10': 4, '2': 5 })).toBe('{"10":4,"2":5,"Z":3,"z":2,"é":1}');
+  });
+
+  it('should serialize numbers and strings like ECMAScript', () => {
+    expect(canonicalJson([1.0, -0, 1e21, 0.000001, 'line\nbreak', '😀'])).toBe(
+      '[1,0,1e+21,0.000001,"line\\nbreak","😀"]'
+    );
+  });
+
+  it('should leave out undefined properties', () => {
+    expect(canonicalJson({ a: 1, publicKey: undefined })).toBe('{"a":1}');
+  });
+
+  it('should refuse values JSON cannot represent exactly', () => {
+    expect(() => canonicalJson({ score: Number.NaN })).toThrow('Cannot serialize NaN at $.score');
+    expect(() => canonicalJson([1, undefined])).toThrow(InvalidInputError);
+    expect(() => canonicalJson({ when: new Date(0) })).toThrow('Cannot serialize Date at $.when');
+    expect(() => canonicalJson(() => 1)).toThrow(InvalidInputError);
+  });
+});
@@ -1,8 +1,17 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeEach } from 'vitest';
 import { createDelta, encodeDelta, decodeDelta, applyDelta, type EmojiDelta } from '../src/lib/delta';
 import { encodeFullState } from '../src/lib/url-encoder';
-import { calculateChecksum } from '../src/lib/checksum';
+import { calculateChecksum, chainChecksum } from '../src/lib/checksum';
 import type { EmojiGameState } from '../src/lib/emoji-game-schema';
+import { KeyUnavailableError, PayloadDecodeError } from '../src/lib/errors';
+import { GameSecretStorage } from '../src/lib/game-secret';
+
+// The deltas below are made by the browser that holds each game's secret
+beforeEach(() => {
+  const secrets = new GameSecretStorage();
+  secrets.getOrCreateSecret('game-123');
+  secrets.getOrCreateSecret('game-456');
+});
 
 describe('createDelta', () => {
   it('should create delta with move and checksums', async () => {
@@ -38,6 +47,13 @@ describe('createDelta', () => {
 
     expect(delta1.hmac).toBe(delta2.hmac);
   });
+
+  it('should refuse to sign for a game this browser holds no secret for', async () => {
+    await expect(createDelta('game-without-secret', '🎯', 2, 2, 'prev1', 'new1')).rejects.toThrow(
+      KeyUnavailableError
+    );
+    expect(new GameSecretStorage().getSecret('game-without-secret')).toBeNull();
+  });
 });
 
 describe('encodeDelta', () => {
@@ -64,6 +80,7 @@ describe('encodeDelta', () => {
       checksum: 'a'.repeat(64), // SHA-256 checksum
     };
 
+    new GameSecretStorage().getOrCreateSecret(simpleState.gameId);
     const simpleDelta = await createDelta(
       simpleState.gameId,
       '🎨',
@@ -73,7 +90,7 @@ describe('encodeDelta', () => {
       simpleState.checksum
     );
 
-    const simpleFullURL = encodeFullState(simpleState, 2);
+    const simpleFullURL = await encodeFullState(simpleState, 2);
     const simpleDeltaURL = encodeDelta(simpleDelta, 2);
 
     console.log(`📊 Delta Encoding Analysis:
@@ -173,24 +190,21 @@ describe('decodeDelta', () => {
 
 describe('applyDelta', () => {
   it('should apply valid delta to emoji chain', async () => {
-    const currentChain = '🎮';
-    const currentChecksum = await calculateChecksum(currentChain);
-    const newChain = '🎮🎯';
-    const newChecksum = await calculateChecksum(newChain);
+    const current = { emojiChain: '🎮', checksum: await calculateChecksum('🎮') };
+    const newChecksum = await chainChecksum(current.checksum, { player: 2, emoji: '🎯', turn: 2 });
 
-    const delta = await createDelta('game-123', '🎯', 2, 2, currentChecksum, newChecksum);
+    const delta = await createDelta('game-123', '🎯', 2, 2, current.checksum, newChecksum);
 
-    const result = await applyDelta(currentChain, delta);
+    const result = await applyDelta(current, delta);
 
-    expect(result).toBe('🎮🎯');
+    expect(result).toEqual({ emojiChain: '🎮🎯', checksum: newChecksum });
   });
 
   it('should reject delta with tampered HMAC', async () => {
-    const currentChain = '🎮';
-    const currentChecksum = await calculateChecksum(currentChain);
-    const newChecksum = await calculateChecksum('🎮🎯');
+    const current = { emojiChain: '🎮', checksum: await calculateChecksum('🎮') };
+    const newChecksum = await chainChecksum(current.checksum, { player: 2, emoji: '🎯', turn: 2 });
 
-    const delta = await createDelta('game-123', '🎯', 2, 2, currentChecksum, newChecksum);
+    const delta = await createDelta('game-123', '🎯', 2, 2, current.checksum, newChecksum);
 
     // Tamper with HMAC
     const tamperedDelta: EmojiDelta = {
@@ -198,27 +212,54 @@ describe('applyDelta', () => {
       hmac: 'tampered-hmac-value-123456789',
     };
 
-    await expect(applyDelta(currentChain, tamperedDelta)).rejects.toThrow('URL has been tampered with');
+    await expect(applyDelta(current, tamperedDelta)).rejects.toThrow('URL has been tampered with');
   });
 
   it('should reject delta with wrong prevChecksum', async () => {
-    const currentChain = '🎮🎲'; // Different than expected!
-    const wrongChecksum = await calculateChecksum(currentChain);
-    const newChecksum = await calculateChecksum('🎮🎯');
+    const current = { emojiChain: '🎮🎲', checksum: await calculateChecksum('🎮🎲') }; // Different than expected!
+    const newChecksum = await chainChecksum('wrong-prev-checksum', { player: 2, emoji: '🎯', turn: 2 });
 
     // Delta expects '🎮' but we have '🎮🎲'
     const delta = await createDelta('game-123', '🎯', 2, 2, 'wrong-prev-checksum', newChecksum);
 
-    await expect(applyDelta(currentChain, delta)).rejects.toThrow('Board state mismatch');
+    await expect(applyDelta(current, delta)).rejects.toThrow('Board state mismatch');
   });
 
   it('should reject delta when result checksum does not match', async () => {
-    const currentChain = '🎮';
-    const currentChecksum = await calculateChecksum(currentChain);
+    const current = { emojiChain: '🎮', checksum: await calculateChecksum('🎮') };
 
     // Delta claims result will be different than it actually is
-    const delta = await createDelta('game-123', '🎯', 2, 2, currentChecksum, 'wrong-new-checksum');
+    const delta = await createDelta('game-123', '🎯', 2, 2, current.checksum, 'wrong-new-checksum');
+
+    await expect(applyDelta(current, delta)).rejects.toThrow('Move application failed');
+  });
+
+  it('should chain checksums so each one commits to the moves before it', async () => {
+    const start = { emojiChain: '', checksum: await calculateChecksum('') };
+    const play = async (state: { emojiChain: string; checksum: string }, emoji: string, player: 1 | 2, turn: number) => {
+      const newChecksum = await chainChecksum(state.checksum, { player, emoji, turn });
+      return applyDelta(state, await createDelta('game-123', emoji, player, turn, state.checksum, newChecksum));
+    };
 
-    await expect(applyDelta(currentChain, delta)).rejects.toThrow('Move application failed');
+    const ab = await play(await play(start, '🅰️', 1, 1), '🅱️', 2, 2);
+    const ba = await play(await play(start, '🅱️', 1, 1), '🅰️', 2, 2);
+
+    expect(ab.emojiChain).not.toBe(ba.emojiChain);
+    expect(ab.checksum).not.toBe(ba.checksum);
+    expect(ab.checksum).not.toBe(await calculateChecksum(ab.emojiChain));
+  });
+});
+
+describe('decodeDelta validation', () => {
+  it('should reject deltas with unknown or malformed fields', async () => {
+    const delta = await createDelta('game-123', '🎯', 2, 2, 'prev1', 'new1');
+
+    expect(() => decodeDelta(encodeDelta({ ...delta, extra: true } as EmojiDelta, 1))).toThrow(
+      'Invalid delta in URL payload'
+    );
+    expect(() => decodeDelta(encodeDelta({ ...delta, hmac: 'not-hex' }, 1))).toThrow(PayloadDecodeError);
+    expect(() =>
+      decodeDelta(encodeDelta({ ...delta, move: { ...delta.move, emoji: '' } }, 1))
+    ).toThrow('move.emoji');
   });
 });
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CorrespondenceGameError,
+  DecodeError,
+  InvalidInputError,
+  PayloadDecodeError,
+  StateMismatchError,
+  isGameError,
+} from '../src/lib/errors';
+
+describe('errors', () => {
+  it('should name each error after its class and carry a stable code', () => {
+    const error = new StateMismatchError('mismatch', 'prevChecksum', 'aaa', 'bbb');
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error).toBeInstanceOf(CorrespondenceGameError);
+    expect(error.name).toBe('StateMismatchError');
+    expect(error.code).toBe('STATE_MISMATCH');
+    expect(error).toMatchObject({ field: 'prevChecksum', expected: 'aaa', actual: 'bbb' });
+  });
+
+  it('should treat payload decode errors as decode errors', () => {
+    const error = new PayloadDecodeError('too-deep', 'too deep');
+
+    expect(error).toBeInstanceOf(DecodeError);
+    expect(error.code).toBe('DECODE_FAILED');
+    expect(error.reason).toBe('too-deep');
+    expect(error.message).toBe('too deep');
+  });
+
+  it('should match errors by code with isGameError', () => {
+    const error = new InvalidInputError('Player name cannot be empty');
+
+    expect(isGameError(error)).toBe(true);
+    expect(isGameError(error, 'INVALID_INPUT')).toBe(true);
+    expect(isGameError(error, 'TAMPERED')).toBe(false);
+    expect(isGameError(new Error('plain'))).toBe(false);
+    expect(isGameError('INVALID_INPUT')).toBe(false);
+  });
+});
@@ -0,0 +1,193 @@
+import { describe, it, expect } from 'vitest';
+import LZString from 'lz-string';
+import {
+  createDelta,
+  encodeDelta,
+  decodeDelta,
+  applyDelta,
+  verifyDeltaHMAC,
+  verifyDeltaSignature,
+  type DeltaApplier,
+} from '../src/lib/game-delta';
+import { sha256Hex } from '../src/lib/checksum';
+import { StateMismatchError, TamperError } from '../src/lib/errors';
+import { TicTacToeMoveSchema } from '../src/lib/tic-tac-toe-schema';
+import { InMemoryIdentityKeyStore, PlayerIdentity } from '../src/lib/player-identity';
+
+const SECRET = 'test-secret';
+
+interface CounterMove {
+  player: 1 | 2;
+  amount: number;
+  turn: number;
+}
+
+// Minimal game: state is a number, moves add to it
+const counter: DeltaApplier<number, CounterMove> = {
+  checksum: (value) => sha256Hex(String(value)),
+  apply: (value, move) => {
+    if (move.amount <= 0) {
+      throw new Error('Amount must be positive');
+    }
+    return value + move.amount;
+  },
+};
+
+function encodeRaw(payload: unknown): string {
+  return `#d=${LZString.compressToEncodedURIComponent(JSON.stringify(payload))}`;
+}
+
+describe('createDelta', () => {
+  it('should sign deltas with the given secret', async () => {
+    const move: CounterMove = { player: 1, amount: 2, turn: 1 };
+    const delta = await createDelta('game-1', move, 'prev', 'new', SECRET);
+
+    expect(delta.hmac).toMatch(/^[a-f0-9]{64}$/);
+    expect(await verifyDeltaHMAC(delta, SECRET)).toBe(true);
+    expect(await verifyDeltaHMAC(delta, 'other-secret')).toBe(false);
+  });
+
+  it('should add the mover signature under the HMAC', async () => {
+    const identity = await PlayerIdentity.load(new InMemoryIdentityKeyStore());
+    const move: CounterMove = { player: 1, amount: 2, turn: 1 };
+    const delta = await createDelta('game-1', move, 'prev', 'new', SECRET, identity, identity.publicKey);
+
+    expect(delta.publicKey).toBe(identity.publicKey);
+    expect(await verifyDeltaSignature(delta, identity.publicKey)).toBe(true);
+    expect(await verifyDeltaHMAC(delta, SECRET)).toBe(true);
+    expect(await verifyDeltaHMAC({ ...delta, signature: 'forged' }, SECRET)).toBe(false);
+    expect(await verifyDeltaSignature({ ...delta, move: { ...move, amount: 3 } }, identity.publicKey)).toBe(false);
+  });
+
+  it('should verify deltas whose objects were rebuilt in a different key order', async () => {
+    const delta = await createDelta('game-1', { player: 1, amount: 2, turn: 1 }, 'prev', 'new', SECRET);
+    const rebuilt = {
+      hmac: delta.hmac,
+      newChecksum: delta.newChecksum,
+      prevChecksum: delta.prevChecksum,
+      move: { turn: 1, amount: 2, player: 1 as const },
+      gameId: delta.gameId,
+    };
+
+    expect(await verifyDeltaHMAC(rebuilt, SECRET)).toBe(true);
+  });
+});
+
+describe('encodeDelta / decodeDelta', () => {
+  it('should round-trip the delta and target player', async () => {
+    const delta = await createDelta('game-1', { player: 1, amount: 2, turn: 1 }, 'prev', 'new', SECRET);
+    const hash = encodeDelta(delta, { seat: 2, playerId: 'player2-id' }, 'counter');
+
+    expect(hash).toMatch(/^#d=2\.counter\./);
+    expect(decodeDelta(hash, 'counter')).toEqual({ delta, target: { seat: 2, playerId: 'player2-id' } });
+  });
+
+  it('should understand the legacy emoji targetPlayer format', async () => {
+    const delta = await createDelta('game-1', { player: 2, amount: 1, turn: 2 }, 'prev', 'new', SECRET);
+
+    expect(decodeDelta(encodeRaw({ delta, targetPlayer: 1 }), 'counter').target).toEqual({ seat: 1 });
+  });
+
+  it('should understand the legacy tic-tac-toe targetPlayerId format', async () => {
+    const delta = await createDelta('game-1', { player: 1, amount: 1, turn: 1 }, 'prev', 'new', SECRET);
+
+    expect(decodeDelta(encodeRaw({ delta, targetPlayerId: 'p2' }), 'counter').target).toEqual({ seat: 2, playerId: 'p2' });
+  });
+
+  it('should infer the target from the mover for bare deltas', async () => {
+    const delta = await createDelta('game-1', { player: 1, amount: 1, turn: 1 }, 'prev', 'new', SECRET);
+
+    expect(decodeDelta(encodeRaw(delta), 'counter')).toEqual({ delta, target: { seat: 2 } });
+  });
+
+  it('should reject links for a different game', async () => {
+    const delta = await createDelta('game-1', { player: 1, amount: 1, turn: 1 }, 'prev', 'new', SECRET);
+    const hash = encodeDelta(delta, { seat: 2 }, 'counter');
+
+    expect(() => decodeDelta(hash, 'tic-tac-toe')).toThrow('different game');
+  });
+
+  it('should reject invalid target players', async () => {
+    const delta = await createDelta('game-1', { player: 1, amount: 1, turn: 1 }, 'prev', 'new', SECRET);
+
+    expect(() => decodeDelta(encodeRaw({ delta, target: { seat: 3 } }), 'counter')).toThrow('Invalid target player');
+    expect(() => decodeDelta(encodeRaw({ delta, targetPlayer: 7 }), 'counter')).toThrow('Invalid target player');
+  });
+
+  it('should validate the delta when a move schema is given', async () => {
+    const delta = await createDelta('game-1', { player: 1, cellIndex: 12, mark: 'X', turn: 1 }, 'p', 'n', SECRET);
+    const hash = encodeDelta(delta, { seat: 2 }, 'tic-tac-toe');
+
+    expect(() => decodeDelta(hash, 'tic-tac-toe', TicTacToeMoveSchema)).toThrow();
+  });
+});
+
+describe('applyDelta', () => {
+  it('should apply a valid delta through the game applier', async () => {
+    const delta = await createDelta(
+      'game-1',
+      { player: 1, amount: 5, turn: 1 },
+      await sha256Hex('10'),
+      await sha256Hex('15'),
+      SECRET
+    );
+
+    expect(await applyDelta(10, delta, SECRET, counter)).toBe(15);
+  });
+
+  it('should check HMAC before anything else', async () => {
+    const delta = await createDelta('game-1', { player: 1, amount: 5, turn: 1 }, 'wrong', 'wrong', SECRET);
+
+    await expect(applyDelta(10, delta, 'other-secret', counter)).rejects.toThrow('HMAC mismatch');
+    await expect(applyDelta(10, delta, 'other-secret', counter)).rejects.toMatchObject({
+      code: 'TAMPERED',
+      check: 'delta-hmac',
+    });
+    await expect(applyDelta(10, delta, 'other-secret', counter)).rejects.toBeInstanceOf(TamperError);
+  });
+
+  it('should reject deltas that do not follow from the current state', async () => {
+    const delta = await createDelta(
+      'game-1',
+      { player: 1, amount: 5, turn: 1 },
+      await sha256Hex('11'),
+      await sha256Hex('16'),
+      SECRET
+    );
+
+    await expect(applyDelta(10, delta, SECRET, counter)).rejects.toThrow('Board state mismatch');
+    await expect(applyDelta(10, delta, SECRET, counter)).rejects.toEqual(
+      expect.objectContaining({
+        code: 'STATE_MISMATCH',
+        field: 'prevChecksum',
+        expected: await sha256Hex('11'),
+        actual: await sha256Hex('10'),
+      })
+    );
+    await expect(applyDelta(10, delta, SECRET, counter)).rejects.toBeInstanceOf(StateMismatchError);
+  });
+
+  it('should surface illegal moves from the applier', async () => {
+    const delta = await createDelta(
+      'game-1',
+      { player: 1, amount: -1, turn: 1 },
+      await sha256Hex('10'),
+      await sha256Hex('9'),
+      SECRET
+    );
+
+    await expect(applyDelta(10, delta, SECRET, counter)).rejects.toThrow('Amount must be positive');
+  });
+
+  it('should reject deltas whose claimed result differs', async () => {
+    const delta = await createDelta(
+      'game-1',
+      { player: 1, amount: 5, turn: 1 },
+      await sha256Hex('10'),
+      await sha256Hex('99'),
+      SECRET
+    );
+
+    await expect(applyDelta(10, delta, SECRET, counter)).rejects.toThrow('Move application failed');
+  });
+});
@@ -0,0 +1,623 @@
+import { describe, it, expect } from 'vitest';
+import { GameEngine } from '../src/lib/game-engine';
+import { ticTacToeDefinition } from '../src/lib/tic-tac-toe-definition';
+import { emojiGameDefinition } from '../src/lib/emoji-game-definition';
+import type { Board, TicTacToeGameState, TicTacToeMove } from '../src/lib/tic-tac-toe-schema';
+import { calculateChecksum, chainChecksum } from '../src/lib/checksum';
+import { GameSecretStorage, generateGameSecret } from '../src/lib/game-secret';
+import { encodeEnvelope, readEnvelope } from '../src/lib/url-envelope';
+import { createDelta } from '../src/lib/game-delta';
+import { InMemoryIdentityKeyStore, PlayerIdentity } from '../src/lib/player-identity';
+import { InMemoryStorageAdapter } from '../src/lib/storage-adapter';
+
+describe('GameEngine with tic-tac-toe', () => {
+  const engine = new GameEngine(ticTacToeDefinition);
+  const creator = { id: crypto.randomUUID(), name: 'Alice' };
+
+  it('should create a new game with a checksum', async () => {
+    const state = await engine.createGame(crypto.randomUUID(), creator);
+
+    expect(state.currentTurn).toBe(0);
+    expect(state.currentPlayer).toBe(1);
+    expect(state.player1).toEqual(creator);
+    expect(state.checksum).toMatch(/^[a-f0-9]{64}$/);
+  });
+
+  it('should apply a move and advance the turn', async () => {
+    const state = await engine.createGame(crypto.randomUUID(), creator);
+    const { state: next, delta } = await engine.makeMove(state, {
+      player: 1,
+      cellIndex: 4,
+      mark: 'X',
+      turn: 1,
+    });
+
+    expect(next.board[4]).toBe('X');
+    expect(next.currentTurn).toBe(1);
+    expect(next.currentPlayer).toBe(2);
+    expect(delta.prevChecksum).toBe(state.checksum);
+    expect(delta.newChecksum).toBe(next.checksum);
+    expect(delta.hmac).toMatch(/^[a-f0-9]{64}$/);
+  });
+
+  it('should reject moves out of turn or on occupied cells', async () => {
+    const state = await engine.createGame(crypto.randomUUID(), creator);
+
+    expect(engine.validateMove(state, { player: 2, cellIndex: 0, mark: 'O', turn: 1 })).toMatch(/not player 2/);
+    expect(engine.validateMove(state, { player: 1, cellIndex: 0, mark: 'X', turn: 3 })).toMatch(/turn 1/);
+    expect(engine.validateMove(state, { player: 1, cellIndex: 0, mark: 'O', turn: 1 })).toMatch(/must play X/);
+
+    const { state: next } = await engine.makeMove(state, { player: 1, cellIndex: 0, mark: 'X', turn: 1 });
+    await expect(
+      engine.makeMove(next, { player: 2, cellIndex: 0, mark: 'O', turn: 2 })
+    ).rejects.toThrow('already occupied');
+  });
+
+  it('should replay a delta on the opponent copy', async () => {
+    const state = await engine.createGame(crypto.randomUUID(), creator);
+    const { state: next, delta } = await engine.makeMove(state, { player: 1, cellIndex: 2, mark: 'X', turn: 1 });
+
+    const hash = engine.encodeDelta(delta, { seat: 2, playerId: 'player2-id' });
+    const { delta: decoded, target } = engine.decodeDelta(hash);
+
+    expect(hash).toMatch(/^#d=/);
+    expect(target).toEqual({ seat: 2, playerId: 'player2-id' });
+    expect(await engine.applyDelta(state, decoded)).toEqual(next);
+  });
+
+  it('should reject a tampered delta', async () => {
+    const state = await engine.createGame(crypto.randomUUID(), creator);
+    const { delta } = await engine.makeMove(state, { player: 1, cellIndex: 2, mark: 'X', turn: 1 });
+
+    const tampered = { ...delta, move: { ...delta.move, cellIndex: 5 } };
+
+    await expect(engine.applyDelta(state, tampered)).rejects.toThrow('HMAC mismatch');
+  });
+
+  it('should reject a delta signed with a different secret', async () => {
+    const state = await engine.createGame(crypto.randomUUID(), creator);
+    const { delta } = await engine.makeMove(state, { player: 1, cellIndex: 2, mark: 'X', turn: 1 });
+
+    new GameSecretStorage().saveSecret(state.gameId, generateGameSecret());
+
+    await expect(engine.applyDelta(state, delta)).rejects.toThrow('HMAC mismatch');
+  });
+
+  it('should refuse to sign or verify moves without the game secret', async () => {
+    const state = await engine.createGame(crypto.randomUUID(), creator);
+    const { delta } = await engine.makeMove(state, { player: 1, cellIndex: 2, mark: 'X', turn: 1 });
+
+    new GameSecretStorage().removeSecret(state.gameId);
+
+    await expect(engine.applyDelta(state, delta)).rejects.toThrow('No secret stored');
+    await expect(
+      engine.makeMove(state, { player: 1, cellIndex: 2, mark: 'X', turn: 1 })
+    ).rejects.toThrow('No secret stored');
+  });
+
+  it('should hand the secret to Player 2 in the invite link only', async () => {
+    const secrets = new GameSecretStorage();
+    const state = await engine.createGame(crypto.randomUUID(), creator);
+    const secret = secrets.getSecret(state.gameId);
+    const plain = await engine.encodeFullState(state, { seat: 2 });
+    const invite = await engine.encodeFullState(state, { seat: 2 }, { includeSecret: true });
+
+    expect(readEnvelope(plain, 'full-state', 'tic-tac-toe').secret).toBeUndefined();
+
+    secrets.removeSecret(state.gameId);
+    await engine.decodeFullState(invite);
+
+    expect(secrets.getSecret(state.gameId)).toBe(secret);
+  });
+
+  it('should reject an invite carrying a different secret', async () => {
+    const secrets = new GameSecretStorage();
+    const state = await engine.createGame(crypto.randomUUID(), creator);
+    const invite = await engine.encodeFullState(state, { seat: 2 }, { includeSecret: true });
+
+    secrets.saveSecret(state.gameId, generateGameSecret());
+
+    await expect(engine.decodeFullState(invite)).rejects.toThrow('different secret');
+  });
+
+  it('should encrypt links for the opponent device only', async () => {
+    const secrets = new GameSecretStorage();
+    const created = await engine.createGame(crypto.randomUUID(), creator);
+    const { state, delta } = await engine.makeMove(created, { player: 1, cellIndex: 2, mark: 'X', turn: 1 });
+
+    const fullState = await engine.encodeFullState(state, { seat: 2 }, { encrypt: true });
+    const deltaLink = await engine.encryptLink(engine.encodeDelta(delta, { seat: 2 }), state.gameId);
+
+    expect(fullState).toContain(`.e.${state.gameId}.`);
+    expect((await engine.decodeFullState(fullState)).state).toEqual(state);
+    expect(() => engine.decodeDelta(deltaLink)).toThrow('encrypted');
+    expect(engine.decodeDelta(await engine.decryptLink(deltaLink)).delta).toEqual(delta);
+
+    secrets.removeSecret(state.gameId);
+    await expect(engine.decodeFullState(fullState)).rejects.toThrow('no key for');
+    await expect(
+      engine.encodeFullState(state, { seat: 2 }, { includeSecret: true, encrypt: true })
+    ).rejects.toThrow('cannot be encrypted');
+  });
+
+  it('should reject a hand-edited full state', async () => {
+    const state = await engine.createGame(crypto.randomUUID(), creator);
+    const payload = readEnvelope(await engine.encodeFullState(state, { seat: 2 }), 'full-state', 'tic-tac-toe');
+    const edited = encodeEnvelope('full-state', 'tic-tac-toe', {
+      ...payload,
+      state: { ...state, status: 'player2_wins' },
+    });
+
+    await expect(engine.decodeFullState(edited)).rejects.toThrow('full state MAC mismatch');
+    await expect(engine.decodeFullState(edited)).rejects.toMatchObject({ code: 'TAMPERED', check: 'full-state-mac' });
+  });
+
+  it('should reject a delta that does not follow from the current state', async () => {
+    const state = await engine.createGame(crypto.randomUUID(), creator);
+    const { state: afterFirst, delta: first } = await engine.makeMove(state, {
+      player: 1,
+      cellIndex: 0,
+      mark: 'X',
+      turn: 1,
+    });
+    const { delta: second } = await engine.makeMove(afterFirst, { player: 2, cellIndex: 4, mark: 'O', turn: 2 });
+
+    await expect(engine.applyDelta(state, second)).rejects.toThrow('Board state mismatch');
+    await expect(engine.applyDelta(afterFirst, first)).rejects.toThrow('This is an older move (turn 1)');
+    await expect(engine.applyDelta(afterFirst, first)).rejects.toMatchObject({
+      code: 'STALE_MOVE',
+      verdict: { status: 'stale', turn: 1, latestTurn: 2 },
+    });
+  });
+
+  it('should refuse an older full-state link once the game has moved on', async () => {
+    let state = await engine.createGame(crypto.randomUUID(), creator);
+    ({ state } = await engine.makeMove(state, { player: 1, cellIndex: 0, mark: 'X', turn: 1 }));
+    const oldLink = await engine.encodeFullState(state, { seat: 2 });
+    ({ state } = await engine.makeMove(state, { player: 2, cellIndex: 4, mark: 'O', turn: 2 }));
+    const latestLink = await engine.encodeFullState(state, { seat: 1 });
+
+    await expect(engine.decodeFullState(oldLink)).rejects.toThrow(
+      'This is an older move (turn 1) - this game is already at turn 2'
+    );
+    expect((await engine.decodeFullState(latestLink)).state).toEqual(state);
+  });
+
+  it('should refuse a second move for the same turn without seat keys to prove a conflict', async () => {
+    const aliceEngine = new GameEngine(ticTacToeDefinition, { storage: new InMemoryStorageAdapter() });
+    const bobEngine = new GameEngine(ticTacToeDefinition, { storage: new InMemoryStorageAdapter() });
+    let state = await aliceEngine.createGame(crypto.randomUUID(), creator);
+    ({ state } = await aliceEngine.makeMove(state, { player: 1, cellIndex: 0, mark: 'X', turn: 1 }));
+    ({ state } = await bobEngine.decodeFullState(
+      await aliceEngine.encodeFullState(state, { seat: 2 }, { includeSecret: true })
+    ));
+    const { delta: first } = await bobEngine.makeMove(state, { player: 2, cellIndex: 4, mark: 'O', turn: 2 });
+    const { delta: second } = await bobEngine.makeMove(state, { player: 2, cellIndex: 8, mark: 'O', turn: 2 });
+
+    const afterFirst = await aliceEngine.applyDelta(state, first);
+
+    await expect(aliceEngine.receiveDelta(afterFirst, second)).rejects.toMatchObject({ code: 'STALE_MOVE' });
+    expect(aliceEngine.getMoveConflicts(state.gameId)).toEqual([]);
+  });
+
+  it('should recompute the checksum of a received move instead of trusting the delta', async () => {
+    const state = await engine.createGame(crypto.randomUUID(), creator);
+    const { state: afterFirst } = await engine.makeMove(state, { player: 1, cellIndex: 0, mark: 'X', turn: 1 });
+    const move = { player: 2 as const, cellIndex: 4, mark: 'O' as const, turn: 2 };
+    const secret = new GameSecretStorage().requireSecret(state.gameId);
+    const forged = await createDelta(state.gameId, move, afterFirst.checksum, 'f'.repeat(64), secret);
+
+    await expect(engine.receiveDelta(afterFirst, forged)).rejects.toMatchObject({
+      message: 'Move application failed - checksum mismatch',
+      expected: 'f'.repeat(64),
+      actual: await chainChecksum(afterFirst.checksum, move),
+    });
+  });
+
+  it('should detect a win and refuse further moves', async () => {
+    let state = await engine.createGame(crypto.randomUUID(), creator);
+    const cells = [0, 3, 1, 4, 2];
+    for (const [i, cellIndex] of cells.entries()) {
+      const player = i % 2 === 0 ? 1 : 2;
+      ({ state } = await engine.makeMove(state, {
+        player,
+        cellIndex,
+        mark: player === 1 ? 'X' : 'O',
+        turn: i + 1,
+      }));
+    }
+
+    expect(state.status).toBe('player1_wins');
+    expect(ticTacToeDefinition.getOutcome(state)).toEqual({ status: 'finished', winner: 1 });
+    expect(engine.validateMove(state, { player: 2, cellIndex: 8, mark: 'O', turn: 6 })).toBe('Game is already over');
+  });
+
+  it('should round-trip full state through URL encoding', async () => {
+    const state = await engine.createGame(crypto.randomUUID(), creator);
+    const hash = await engine.encodeFullState(state, { seat: 2 });
+    const decoded = await engine.decodeFullState(hash);
+
+    expect(hash).toMatch(/^#s=2\.tic-tac-toe\./);
+    expect(decoded).toEqual({ state, target: { seat: 2 } });
+  });
+
+  it('should reject links that are not valid full states for this game', async () => {
+    const state = await engine.createGame(crypto.randomUUID(), creator);
+    const { delta } = await engine.makeMove(state, { player: 1, cellIndex: 0, mark: 'X', turn: 1 });
+    const emojiEngine = new GameEngine(emojiGameDefinition);
+    const emojiState = await emojiEngine.createGame(crypto.randomUUID(), creator);
+
+    await expect(engine.decodeFullState('#s=invalid!!!')).rejects.toThrow('Failed to decompress');
+    await expect(engine.decodeFullState(engine.encodeDelta(delta, { seat: 2 }))).rejects.toThrow('Expected a full-state link');
+    await expect(
+      engine.decodeFullState(await emojiEngine.encodeFullState(emojiState, { seat: 2 }))
+    ).rejects.toThrow('different game');
+  });
+});
+
+describe('GameEngine with emoji chain', () => {
+  const engine = new GameEngine(emojiGameDefinition);
+
+  it('should chain checksums from the new game checksum', async () => {
+    const state = await engine.createGame(crypto.randomUUID(), { id: '', name: 'Alice' });
+    const move = { player: 1 as const, emoji: '🎮', turn: 1 };
+    const { state: next } = await engine.makeMove(state, move);
+
+    expect(state.checksum).toBe(await calculateChecksum(''));
+    expect(next.emojiChain).toBe('🎮');
+    expect(next.checksum).toBe(await chainChecksum(state.checksum, move));
+  });
+
+  it('should play a sequence of deltas between two copies', async () => {
+    const initial = await engine.createGame(crypto.randomUUID(), { id: '', name: 'Alice' });
+    let mine = initial;
+    let theirs = initial;
+
+    for (const [i, emoji] of ['🎮', '🎯', '🎲'].entries()) {
+      const player = i % 2 === 0 ? 1 : 2;
+      const { state, delta } = await engine.makeMove(mine, { player, emoji, turn: i + 1 });
+      mine = state;
+      theirs = await engine.applyDelta(theirs, engine.decodeDelta(engine.encodeDelta(delta, { seat: 1 })).delta);
+    }
+
+    expect(theirs).toEqual(mine);
+    expect(theirs.emojiChain).toBe('🎮🎯🎲');
+    expect(theirs.currentTurn).toBe(3);
+    expect(theirs.currentPlayer).toBe(2);
+  });
+
+  it('should reject empty emoji moves', async () => {
+    const state = await engine.createGame(crypto.randomUUID(), { id: '', name: 'Alice' });
+
+    expect(engine.validateMove(state, { player: 1, emoji: ' ', turn: 1 })).toBe('Emoji cannot be empty');
+  });
+});
+
+describe('GameEngine with passphrase-protected games', () => {
+  const PASSPHRASE = 'correct horse battery staple';
+  const secrets = new GameSecretStorage();
+  const creator = { id: crypto.randomUUID(), name: 'Alice' };
+
+  // Both "devices" share one localStorage in tests, so removing the secret
+  // simulates a link arriving on the other player's browser
+  async function createInvite(): Promise<{ state: TicTacToeGameState; invite: string }> {
+    const engine = new GameEngine(ticTacToeDefinition);
+    let state = await engine.createGame(crypto.randomUUID(), creator, { passphrase: PASSPHRASE });
+    ({ state } = await engine.makeMove(state, { player: 1, cellIndex: 4, mark: 'X', turn: 1 }));
+    const invite = await engine.encodeFullState(state, { seat: 2 });
+    secrets.removeSecret(state.gameId);
+    return { state, invite };
+  }
+
+  it('should never put the secret in a link', async () => {
+    const engine = new GameEngine(ticTacToeDefinition);
+    const state = await engine.createGame(crypto.randomUUID(), creator, { passphrase: PASSPHRASE });
+
+    expect(secrets.isPassphraseProtected(state.gameId)).toBe(true);
+    await expect(
+      engine.encodeFullState(state, { seat: 2 }, { includeSecret: true })
+    ).rejects.toThrow('never share their secret');
+  });
+
+  it('should ask for the passphrase when opening the invite', async () => {
+    const { state, invite } = await createInvite();
+    const engine = new GameEngine(ticTacToeDefinition, { passphrase: async () => PASSPHRASE });
+
+    expect((await engine.decodeFullState(invite)).state).toEqual(state);
+    expect(secrets.isPassphraseProtected(state.gameId)).toBe(true);
+  });
+
+  it('should reject a wrong passphrase without storing it', async () => {
+    const { state, invite } = await createInvite();
+    const engine = new GameEngine(ticTacToeDefinition, { passphrase: async () => 'wrong guess' });
+
+    await expect(engine.decodeFullState(invite)).rejects.toThrow('Passphrase does not match this game');
+    expect(secrets.getSecret(state.gameId)).toBeNull();
+  });
+
+  it('should refuse the invite when no passphrase is given', async () => {
+    const { invite } = await createInvite();
+
+    await expect(
+      new GameEngine(ticTacToeDefinition, { passphrase: async () => null }).decodeFullState(invite)
+    ).rejects.toThrow('A passphrase is required');
+    await expect(new GameEngine(ticTacToeDefinition).decodeFullState(invite)).rejects.toThrow('No secret stored');
+  });
+
+  it('should open an encrypted invite with the passphrase', async () => {
+    const engine = new GameEngine(ticTacToeDefinition, { passphrase: async () => PASSPHRASE });
+    const state = await engine.createGame(crypto.randomUUID(), creator, { passphrase: PASSPHRASE });
+    const invite = await engine.encodeFullState(state, { seat: 2 }, { encrypt: true });
+    secrets.removeSecret(state.gameId);
+
+    await expect(
+      new GameEngine(ticTacToeDefinition, { passphrase: async () => 'wrong guess' }).decodeFullState(invite)
+    ).rejects.toThrow('Passphrase does not match');
+    expect((await engine.decodeFullState(invite)).state).toEqual(state);
+  });
+
+  it('should ask for the passphrase when a delta arrives', async () => {
+    const engine = new GameEngine(ticTacToeDefinition, { passphrase: async () => PASSPHRASE });
+    const state = await engine.createGame(crypto.randomUUID(), creator, { passphrase: PASSPHRASE });
+    const { state: next, delta } = await engine.makeMove(state, { player: 1, cellIndex: 0, mark: 'X', turn: 1 });
+    secrets.removeSecret(state.gameId);
+
+    expect(await engine.applyDelta(state, delta)).toEqual(next);
+  });
+});
+
+describe('GameEngine with identity keys', () => {
+  async function loadIdentity(): Promise<PlayerIdentity> {
+    return PlayerIdentity.load(new InMemoryIdentityKeyStore());
+  }
+
+  const engineFor = (identity: PlayerIdentity, storage = new InMemoryStorageAdapter()) =>
+    new GameEngine(ticTacToeDefinition, { identity, recordHistory: true, storage });
+
+  // Alice opens on her device and invites Bob, who plays his first move twice
+  async function equivocate(alice: PlayerIdentity, bob: PlayerIdentity) {
+    const aliceEngine = engineFor(alice);
+    const bobStorage = new InMemoryStorageAdapter();
+    const bobEngine = engineFor(bob, bobStorage);
+
+    let state = await aliceEngine.createGame(crypto.randomUUID(), { id: alice.playerId, name: 'Alice' });
+    ({ state } = await aliceEngine.makeMove(state, { player: 1, cellIndex: 0, mark: 'X', turn: 1 }));
+    ({ state } = await bobEngine.decodeFullState(
+      await aliceEngine.encodeFullState(state, { seat: 2 }, { includeSecret: true })
+    ));
+    const { delta: first } = await bobEngine.makeMove(state, { player: 2, cellIndex: 4, mark: 'O', turn: 2 });
+    const { delta: second } = await bobEngine.makeMove(state, { player: 2, cellIndex: 8, mark: 'O', turn: 2 });
+    const afterFirst = await aliceEngine.applyDelta(state, first);
+    const secret = new GameSecretStorage(bobStorage).requireSecret(state.gameId);
+
+    return { aliceEngine, afterAlice: state, afterFirst, first, second, secret };
+  }
+
+  // Plays Alice's opening move and Bob's reply, locking both seats
+  async function startGame(alice: PlayerIdentity, bob: PlayerIdentity) {
+    const aliceEngine = new GameEngine(ticTacToeDefinition, { identity: alice });
+    const bobEngine = new GameEngine(ticTacToeDefinition, { identity: bob });
+
+    const initial = await aliceEngine.createGame(crypto.randomUUID(), { id: alice.playerId, name: 'Alice' });
+    const { state: afterAlice } = await aliceEngine.makeMove(initial, { player: 1, cellIndex: 0, mark: 'X', turn: 1 });
+    const { state: afterBob, delta } = await bobEngine.makeMove(afterAlice, { player: 2, cellIndex: 4, mark: 'O', turn: 2 });
+
+    return { aliceEngine, bobEngine, afterAlice, afterBob, delta };
+  }
+
+  it('should lock seat 1 to the creator', async () => {
+    const alice = await loadIdentity();
+    const engine = new GameEngine(ticTacToeDefinition, { identity: alice });
+    const state = await engine.createGame(crypto.randomUUID(), { id: 'ignored', name: 'Alice' });
+
+    expect(state.player1).toEqual({ id: alice.playerId, name: 'Alice', publicKey: alice.publicKey });
+  });
+
+  it('should lock seat 2 when Player 2 joins with a signed move', async () => {
+    const alice = await loadIdentity();
+    const bob = await loadIdentity();
+    const { aliceEngine, afterAlice, afterBob, delta } = await startGame(alice, bob);
+
+    expect(delta.publicKey).toBe(bob.publicKey);
+    expect(delta.signature).toBeDefined();
+    expect(await aliceEngine.applyDelta(afterAlice, delta)).toEqual(afterBob);
+    expect(afterBob.player2.id).toBe(bob.playerId);
+    expect(afterBob.player2.publicKey).toBe(bob.publicKey);
+  });
+
+  it('should not resend the public key once the seat is locked', async () => {
+    const alice = await loadIdentity();
+    const bob = await loadIdentity();
+    const { aliceEngine, afterBob } = await startGame(alice, bob);
+
+    const { delta } = await aliceEngine.makeMove(afterBob, { player: 1, cellIndex: 1, mark: 'X', turn: 3 });
+
+    expect(delta.publicKey).toBeUndefined();
+    expect(delta.signature).toBeDefined();
+  });
+
+  it('should only let a seat be taken unsigned while neither player has an identity', async () => {
+    const alice = await loadIdentity();
+    const aliceEngine = new GameEngine(ticTacToeDefinition, { identity: alice });
+    const bobEngine = new GameEngine(ticTacToeDefinition);
+    const initial = await aliceEngine.createGame(crypto.randomUUID(), { id: alice.playerId, name: 'Alice' });
+    const { state: afterAlice } = await aliceEngine.makeMove(initial, { player: 1, cellIndex: 0, mark: 'X', turn: 1 });
+    const move = { player: 2, cellIndex: 4, mark: 'O', turn: 2 } as const;
+    const secret = new GameSecretStorage().requireSecret(afterAlice.gameId);
+    const unsigned = await createDelta(
+      afterAlice.gameId,
+      move,
+      afterAlice.checksum,
+      await chainChecksum(afterAlice.checksum, move),
+      secret
+    );
+
+    await expect(bobEngine.makeMove(afterAlice, move)).rejects.toMatchObject({
+      code: 'KEY_UNAVAILABLE',
+      reason: 'no-identity-key',
+    });
+    await expect(aliceEngine.applyDelta(afterAlice, unsigned)).rejects.toMatchObject({
+      code: 'TAMPERED',
+      check: 'unsigned-move',
+    });
+
+    // Without identities on either side the game is played unsigned
+    const plain = await bobEngine.createGame(crypto.randomUUID(), { id: 'alice', name: 'Alice' });
+    const { state: afterPlain } = await bobEngine.makeMove(plain, { player: 1, cellIndex: 0, mark: 'X', turn: 1 });
+    const { state: afterReply, delta } = await bobEngine.makeMove(afterPlain, move);
+    expect(delta.signature).toBeUndefined();
+    expect(await bobEngine.applyDelta(afterPlain, delta)).toEqual(afterReply);
+  });
+
+  it('should hold full-state links to the seat locks this device accepted', async () => {
+    const alice = await loadIdentity();
+    const bob = await loadIdentity();
+    const aliceEngine = engineFor(alice);
+    const bobEngine = engineFor(bob);
+
+    let state = await aliceEngine.createGame(crypto.randomUUID(), { id: alice.playerId, name: 'Alice' });
+    ({ state } = await aliceEngine.makeMove(state, { player: 1, cellIndex: 0, mark: 'X', turn: 1 }));
+    const invite = await aliceEngine.encodeFullState(state, { seat: 2 }, { includeSecret: true });
+    ({ state } = await bobEngine.decodeFullState(invite));
+    const { delta } = await bobEngine.makeMove(state, { player: 2, cellIndex: 4, mark: 'O', turn: 2 });
+    state = await aliceEngine.applyDelta(state, delta);
+    ({ state } = await aliceEngine.makeMove(state, { player: 1, cellIndex: 1, mark: 'X', turn: 3 }));
+
+    // A checkpoint carries Alice's signature for the move Bob hasn't seen yet
+    const checkpoint = await aliceEngine.encodeFullState(state, { seat: 2 });
+    expect((await bobEngine.decodeFullState(checkpoint)).state).toEqual(state);
+
+    // Alice holds the game secret, so she can MAC a state with a move of Bob's she made up
+    const forge = async (player2Key: string | undefined) => {
+      const move = { player: 2, cellIndex: 2, mark: 'O', turn: 4 } as const;
+      const forged: TicTacToeGameState = {
+        ...state,
+        player2: { ...state.player2, publicKey: player2Key },
+        board: state.board.map((cell, i) => (i === 2 ? 'O' : cell)) as Board,
+        moves: [...(state.moves ?? []), move],
+        currentTurn: 4,
+        currentPlayer: 1,
+        checksum: await chainChecksum(state.checksum, move),
+      };
+      return aliceEngine.encodeFullState(forged, { seat: 2 });
+    };
+
+    await expect(bobEngine.decodeFullState(await forge(alice.publicKey))).rejects.toMatchObject({
+      code: 'TAMPERED',
+      check: 'seat-claimed',
+    });
+    await expect(bobEngine.decodeFullState(await forge(bob.publicKey))).rejects.toMatchObject({
+      code: 'TAMPERED',
+      check: 'move-signature',
+    });
+  });
+
+  it('should report two different moves signed for the same turn', async () => {
+    const alice = await loadIdentity();
+    const bob = await loadIdentity();
+    const { aliceEngine, afterAlice, afterFirst, first, second } = await equivocate(alice, bob);
+
+    const receipt = await aliceEngine.receiveDelta(afterFirst, second);
+
+    expect(receipt).toMatchObject({
+      status: 'conflict',
+      conflict: {
+        gameId: afterAlice.gameId,
+        turn: 2,
+        prevChecksum: afterAlice.checksum,
+        accepted: first,
+        conflicting: second,
+      },
+    });
+    await expect(aliceEngine.applyDelta(afterFirst, second)).rejects.toThrow('Conflicting moves for turn 2');
+    await expect(aliceEngine.applyDelta(afterFirst, second)).rejects.toMatchObject({
+      code: 'MOVE_CONFLICT',
+      conflict: { turn: 2, conflicting: second },
+    });
+    expect(aliceEngine.getMoveConflicts(afterAlice.gameId)).toHaveLength(1);
+  });
+
+  it('should not keep a forged conflicting move as evidence', async () => {
+    const alice = await loadIdentity();
+    const bob = await loadIdentity();
+    const mallory = await loadIdentity();
+    const { aliceEngine, afterAlice, afterFirst, first, secret } = await equivocate(alice, bob);
+    const { gameId, checksum } = afterAlice;
+    // Bob's second move for turn 2 made by hand, claiming seat 2 with the signer's key
+    const delta = async (move: TicTacToeMove, signer?: PlayerIdentity) => {
+      const newChecksum = await chainChecksum(checksum, move, signer?.publicKey);
+      return createDelta(gameId, move, checksum, newChecksum, secret, signer, signer?.publicKey);
+    };
+
+    const hmacForged = { ...first, move: { ...first.move, cellIndex: 8 }, newChecksum: 'f'.repeat(64) };
+    await expect(aliceEngine.receiveDelta(afterFirst, hmacForged)).rejects.toThrow('HMAC mismatch');
+
+    // Only a move by the same player for the same turn can contradict the one received
+    await expect(
+      aliceEngine.receiveDelta(afterFirst, await delta({ player: 1, cellIndex: 8, mark: 'X', turn: 2 }, bob))
+    ).rejects.toMatchObject({ code: 'STALE_MOVE' });
+
+    // Legal from the position both were made from
+    await expect(
+      aliceEngine.receiveDelta(afterFirst, await delta({ player: 2, cellIndex: 0, mark: 'O', turn: 2 }, bob))
+    ).rejects.toMatchObject({ code: 'ILLEGAL_MOVE' });
+
+    // Signed by the key locked to the seat
+    await expect(
+      aliceEngine.receiveDelta(afterFirst, await delta({ player: 2, cellIndex: 8, mark: 'O', turn: 2 }, mallory))
+    ).rejects.toMatchObject({ code: 'TAMPERED', check: 'seat-claimed' });
+    await expect(
+      aliceEngine.receiveDelta(afterFirst, await delta({ player: 2, cellIndex: 8, mark: 'O', turn: 2 }))
+    ).rejects.toMatchObject({ code: 'TAMPERED', check: 'move-signature' });
+
+    expect(aliceEngine.getMoveConflicts(gameId)).toEqual([]);
+  });
+
+  it('should not take a move made on this device as the one being contradicted', async () => {
+    const alice = await loadIdentity();
+    const bob = await loadIdentity();
+    const { aliceEngine, afterFirst, secret } = await equivocate(alice, bob);
+    const { state: afterReply } = await aliceEngine.makeMove(afterFirst, { player: 1, cellIndex: 1, mark: 'X', turn: 3 });
+
+    // Bob holds the secret and signs a move for Alice's seat from the position she moved from
+    const move = { player: 1, cellIndex: 2, mark: 'X', turn: 3 } as const;
+    const forged = await createDelta(
+      afterFirst.gameId,
+      move,
+      afterFirst.checksum,
+      await chainChecksum(afterFirst.checksum, move),
+      secret,
+      bob
+    );
+
+    await expect(aliceEngine.receiveDelta(afterReply, forged)).rejects.toMatchObject({ code: 'STALE_MOVE' });
+    expect(aliceEngine.getMoveConflicts(afterFirst.gameId)).toEqual([]);
+  });
+
+  it('should stop a third person from claiming a locked seat', async () => {
+    const alice = await loadIdentity();
+    const bob = await loadIdentity();
+    const mallory = await loadIdentity();
+    const { aliceEngine, bobEngine, afterBob } = await startGame(alice, bob);
+    const { state: afterAlice } = await aliceEngine.makeMove(afterBob, {
+      player: 1,
+      cellIndex: 1,
+      mark: 'X',
+      turn: 3,
+    });
+    const malloryEngine = new GameEngine(ticTacToeDefinition, { identity: mallory });
+    const secret = new GameSecretStorage().requireSecret(afterAlice.gameId);
+    const move = { player: 2, cellIndex: 2, mark: 'O', turn: 4 } as const;
+
+    await expect(malloryEngine.makeMove(afterAlice, move)).rejects.toThrow('does not hold the identity key for seat 2');
+
+    // Mallory knows the game secret from the leaked invite and forges deltas by hand
+    const claiming = await createDelta(afterAlice.gameId, move, afterAlice.checksum, 'x', secret, mallory, mallory.publicKey);
+    const signed = await createDelta(afterAlice.gameId, move, afterAlice.checksum, 'x', secret, mallory);
+    const unsigned = await createDelta(afterAlice.gameId, move, afterAlice.checksum, 'x', secret);
+
+    await expect(bobEngine.applyDelta(afterAlice, claiming)).rejects.toThrow('already claimed by another player');
+    await expect(bobEngine.applyDelta(afterAlice, signed)).rejects.toThrow('not signed by the player in seat 2');
+    await expect(bobEngine.applyDelta(afterAlice, unsigned)).rejects.toThrow('not signed by the player in seat 2');
+  });
+});
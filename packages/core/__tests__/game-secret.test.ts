@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  GameSecretStorage,
+  deriveGameSecret,
+  generateGameSecret,
+  isValidGameSecret,
+} from '../src/lib/game-secret';
+import { timingSafeEqual, verifyHMAC, generateHMAC } from '../src/lib/hmac';
+
+describe('generateGameSecret', () => {
+  it('should generate a distinct 256-bit hex secret each time', () => {
+    const first = generateGameSecret();
+    const second = generateGameSecret();
+
+    expect(first).toMatch(/^[0-9a-f]{64}$/);
+    expect(isValidGameSecret(first)).toBe(true);
+    expect(second).not.toBe(first);
+  });
+});
+
+describe('deriveGameSecret', () => {
+  it('should derive the same secret from the same passphrase and game', async () => {
+    const secret = await deriveGameSecret('office tournament', 'game-1');
+
+    expect(isValidGameSecret(secret)).toBe(true);
+    expect(await deriveGameSecret('office tournament', 'game-1')).toBe(secret);
+    expect(await deriveGameSecret('office tournament', 'game-2')).not.toBe(secret);
+    expect(await deriveGameSecret('office tournament!', 'game-1')).not.toBe(secret);
+  });
+
+  it('should reject empty passphrases', async () => {
+    await expect(deriveGameSecret('', 'game-1')).rejects.toThrow('Passphrase cannot be empty');
+  });
+});
+
+describe('GameSecretStorage', () => {
+  const storage = new GameSecretStorage();
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should create a secret once per game and keep it', () => {
+    const secret = storage.getOrCreateSecret('game-1');
+
+    expect(storage.getOrCreateSecret('game-1')).toBe(secret);
+    expect(storage.getOrCreateSecret('game-2')).not.toBe(secret);
+    expect(JSON.parse(localStorage.getItem('correspondence-games:game-secret:game-1')!)).toEqual({
+      schemaVersion: 1,
+      data: secret,
+    });
+  });
+
+  it('should upgrade secrets stored as plain text before records were versioned', () => {
+    const secret = generateGameSecret();
+    localStorage.setItem('correspondence-games:game-secret:game-1', secret);
+
+    expect(storage.getSecret('game-1')).toBe(secret);
+    expect(JSON.parse(localStorage.getItem('correspondence-games:game-secret:game-1')!)).toEqual({
+      schemaVersion: 1,
+      data: secret,
+    });
+  });
+
+  it('should require a stored secret', () => {
+    expect(storage.getSecret('game-1')).toBeNull();
+    expect(() => storage.requireSecret('game-1')).toThrow('No secret stored for this game');
+  });
+
+  it('should reject invalid secrets', () => {
+    expect(() => storage.saveSecret('game-1', 'emoji-game-secret-key')).toThrow('Invalid game secret');
+  });
+
+  it('should accept an invite secret once and reject a different one', () => {
+    const secret = generateGameSecret();
+
+    storage.acceptSecret('game-1', secret);
+    storage.acceptSecret('game-1', secret);
+
+    expect(storage.getSecret('game-1')).toBe(secret);
+    expect(() => storage.acceptSecret('game-1', generateGameSecret())).toThrow('different secret');
+  });
+
+  it('should remember which secrets came from a passphrase', async () => {
+    await storage.setPassphrase('game-1', 'office tournament');
+    storage.getOrCreateSecret('game-2');
+
+    expect(storage.getSecret('game-1')).toBe(await deriveGameSecret('office tournament', 'game-1'));
+    expect(storage.isPassphraseProtected('game-1')).toBe(true);
+    expect(storage.isPassphraseProtected('game-2')).toBe(false);
+  });
+
+  it('should remove secrets', () => {
+    storage.getOrCreateSecret('game-1');
+    storage.removeSecret('game-1');
+
+    expect(storage.getSecret('game-1')).toBeNull();
+  });
+
+  it('should list the games it holds secrets for', async () => {
+    storage.getOrCreateSecret('game-1');
+    await storage.setPassphrase('game-2', 'correct horse');
+
+    expect(storage.listGameIds().sort()).toEqual(['game-1', 'game-2']);
+  });
+});
+
+describe('hmac', () => {
+  it('should compare strings of equal and different lengths', () => {
+    expect(timingSafeEqual('abcd', 'abcd')).toBe(true);
+    expect(timingSafeEqual('abcd', 'abce')).toBe(false);
+    expect(timingSafeEqual('abcd', 'abc')).toBe(false);
+  });
+
+  it('should verify HMACs', async () => {
+    const hmac = await generateHMAC('secret', 'data');
+
+    expect(await verifyHMAC('secret', 'data', hmac)).toBe(true);
+    expect(await verifyHMAC('secret', 'other', hmac)).toBe(false);
+  });
+});
@@ -0,0 +1,36 @@
+import { afterEach, describe, it, expect, vi } from 'vitest';
+import { generateHMAC, timingSafeEqual, verifyHMAC } from '../src/lib/hmac';
+
+describe('generateHMAC / verifyHMAC', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should verify HMACs made with the same secret only', async () => {
+    const hmac = await generateHMAC('secret-a', 'data');
+
+    expect(hmac).toMatch(/^[a-f0-9]{64}$/);
+    expect(await verifyHMAC('secret-a', 'data', hmac)).toBe(true);
+    expect(await verifyHMAC('secret-b', 'data', hmac)).toBe(false);
+    expect(await verifyHMAC('secret-a', 'other data', hmac)).toBe(false);
+  });
+
+  it('should import the key for a secret only once', async () => {
+    const importKey = vi.spyOn(crypto.subtle, 'importKey');
+    const secret = `cached-${crypto.randomUUID()}`;
+
+    const first = await generateHMAC(secret, 'move 1');
+    await generateHMAC(secret, 'move 2');
+    await verifyHMAC(secret, 'move 1', first);
+
+    expect(importKey).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('timingSafeEqual', () => {
+  it('should compare strings exactly', () => {
+    expect(timingSafeEqual('abc', 'abc')).toBe(true);
+    expect(timingSafeEqual('abc', 'abd')).toBe(false);
+    expect(timingSafeEqual('abc', 'abcd')).toBe(false);
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { GameInbox, emojiChainInboxSource, ticTacToeInboxSource } from '../src/lib/inbox';
+import { GameStorage } from '../src/lib/game-storage';
+import { HotSeatStorage } from '../src/lib/hotseat-storage';
+import { TicTacToeStorage } from '../src/lib/tic-tac-toe-storage';
+import type { EmojiGameState } from '../src/lib/emoji-game-schema';
+import { createTestGameState } from './test-helpers';
+
+describe('GameInbox', () => {
+  const me = { id: 'my-player-id', name: 'Alice' };
+  let players: HotSeatStorage;
+
+  beforeEach(() => {
+    localStorage.clear();
+    players = new HotSeatStorage();
+    players.setMyPlayerId(me.id);
+    players.setMyName(me.name);
+  });
+
+  function emojiGame(overrides: Partial<EmojiGameState> = {}): EmojiGameState {
+    return {
+      gameId: crypto.randomUUID(),
+      emojiChain: '🎉',
+      currentTurn: 1,
+      currentPlayer: 2,
+      player1Name: 'Alice',
+      player2Name: 'Dave',
+      checksum: 'a'.repeat(64),
+      ...overrides,
+    };
+  }
+
+  it('should describe tic-tac-toe games from my seat', () => {
+    const storage = new TicTacToeStorage();
+    const game = createTestGameState({
+      currentTurn: 1,
+      currentPlayer: 1,
+      player1: { id: 'someone-else', name: 'Bob' },
+      player2: me,
+    });
+    storage.saveGameState(game);
+
+    const [entry] = new GameInbox([ticTacToeInboxSource(storage)], players).list();
+
+    expect(entry).toMatchObject({
+      gameId: game.gameId,
+      gameType: 'tic-tac-toe',
+      mode: 'url',
+      opponentName: 'Bob',
+      mySeat: 2,
+      whoseTurn: 'opponent',
+      currentTurn: 1,
+      status: 'playing',
+      winner: null,
+    });
+    expect(entry?.lastActivity).toEqual(expect.any(Number));
+  });
+
+  it('should find my seat in games stored under my previous player ID', () => {
+    const storage = new TicTacToeStorage();
+    const game = createTestGameState({ player1: me, player2: { id: 'someone-else', name: 'Bob' } });
+    storage.saveGameState(game);
+    players.setMyPlayerId('my-new-player-id');
+
+    const [entry] = new GameInbox([ticTacToeInboxSource(storage)], players).list();
+
+    expect(entry?.mySeat).toBe(1);
+    expect(entry?.opponentName).toBe('Bob');
+  });
+
+  it('should sort my turn first, then waiting, then finished, most recent first', () => {
+    vi.useFakeTimers();
+    const storage = new TicTacToeStorage();
+    const myTurnOld = createTestGameState({ player1: me });
+    const myTurnNew = createTestGameState({ player1: me });
+    const waiting = createTestGameState({ player1: me, currentPlayer: 2, currentTurn: 1 });
+    const finished = createTestGameState({ player1: me, status: 'player1_wins', currentTurn: 5 });
+
+    [finished, myTurnOld, waiting, myTurnNew].forEach((game, i) => {
+      vi.setSystemTime(1000 * (i + 1));
+      storage.saveGameState(game);
+    });
+    vi.useRealTimers();
+    const inbox = new GameInbox([ticTacToeInboxSource(storage)], players);
+
+    expect(inbox.list().map((entry) => entry.gameId)).toEqual([
+      myTurnNew.gameId,
+      myTurnOld.gameId,
+      waiting.gameId,
+      finished.gameId,
+    ]);
+    expect(inbox.list('waiting').map((entry) => entry.gameId)).toEqual([waiting.gameId]);
+    expect(inbox.list('finished')[0]).toMatchObject({ whoseTurn: null, winner: 1 });
+    expect(inbox.counts()).toEqual({ all: 4, 'my-turn': 2, waiting: 1, finished: 1 });
+  });
+
+  it('should find my seat in emoji games by name and leave it unknown otherwise', () => {
+    const storage = new GameStorage();
+    const mine = emojiGame();
+    const strangers = emojiGame({ player1Name: 'Eve', player2Name: 'Frank', currentPlayer: 1 });
+    storage.saveGameState(mine);
+    storage.saveGameState(strangers);
+
+    const entries = new GameInbox([emojiChainInboxSource(storage)], players).list();
+
+    expect(entries.find((entry) => entry.gameId === mine.gameId)).toMatchObject({
+      gameType: 'emoji-chain',
+      mySeat: 1,
+      opponentName: 'Dave',
+      whoseTurn: 'opponent',
+    });
+    expect(entries.find((entry) => entry.gameId === strangers.gameId)).toMatchObject({
+      mySeat: null,
+      opponentName: null,
+      whoseTurn: 'unknown',
+    });
+  });
+
+  it('should list games of every type from the default storages', () => {
+    new TicTacToeStorage().saveGameState(createTestGameState({ player1: me }));
+    new GameStorage().saveGameState(emojiGame());
+    players.saveHotSeatGame(emojiGame({ currentPlayer: 1 }));
+
+    const entries = new GameInbox().list();
+
+    expect(entries.map((entry) => `${entry.gameType}/${entry.mode}`).sort()).toEqual([
+      'emoji-chain/hotseat',
+      'emoji-chain/url',
+      'tic-tac-toe/url',
+    ]);
+    expect(entries.find((entry) => entry.mode === 'hotseat')?.whoseTurn).toBe('me');
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { GameEngine } from '../src/lib/game-engine';
+import { ticTacToeDefinition } from '../src/lib/tic-tac-toe-definition';
+import { emojiGameDefinition } from '../src/lib/emoji-game-definition';
+import { verifyMoveHistory } from '../src/lib/move-history';
+import type { Board, TicTacToeGameState, TicTacToeMove } from '../src/lib/tic-tac-toe-schema';
+import type { EmojiGameState } from '../src/lib/emoji-game-schema';
+
+const creator = { id: crypto.randomUUID(), name: 'Alice' };
+
+async function playTicTacToe(engine: GameEngine<TicTacToeGameState, TicTacToeMove>, cells: number[]) {
+  let state = await engine.createGame(crypto.randomUUID(), creator);
+  for (const [i, cellIndex] of cells.entries()) {
+    const player = i % 2 === 0 ? 1 : 2;
+    ({ state } = await engine.makeMove(state, { player, cellIndex, mark: player === 1 ? 'X' : 'O', turn: i + 1 }));
+  }
+  return state;
+}
+
+describe('verifyMoveHistory with tic-tac-toe', () => {
+  const engine = new GameEngine(ticTacToeDefinition, { recordHistory: true });
+
+  it('should record every move and accept a state its log reproduces', async () => {
+    const state = await playTicTacToe(engine, [0, 3, 1, 4, 2]);
+
+    expect(state.moves).toHaveLength(5);
+    expect(state.moves?.[4]).toEqual({ player: 1, cellIndex: 2, mark: 'X', turn: 5 });
+    expect(state.status).toBe('player1_wins');
+    expect(engine.verifyMoveHistory(state)).toBeNull();
+  });
+
+  it('should not record a log unless asked to', async () => {
+    const state = await playTicTacToe(new GameEngine(ticTacToeDefinition), [0, 3]);
+
+    expect(state.moves).toBeUndefined();
+    expect(verifyMoveHistory(ticTacToeDefinition, state)).toBeNull();
+  });
+
+  it('should reject a board the moves do not produce', async () => {
+    const state = await playTicTacToe(engine, [0, 3]);
+    const board: Board = [...state.board];
+    board[8] = 'X';
+
+    expect(engine.verifyMoveHistory({ ...state, board })).toBe(
+      'Move history does not reproduce the position in this state'
+    );
+  });
+
+  it('should reject a status, turn or current player that disagrees with the replay', async () => {
+    const state = await playTicTacToe(engine, [0, 3]);
+
+    expect(engine.verifyMoveHistory({ ...state, status: 'player1_wins' })).toContain('does not reproduce');
+    expect(engine.verifyMoveHistory({ ...state, currentTurn: 3 })).toBe(
+      'Move history has 2 moves but the game is at turn 3'
+    );
+    expect(engine.verifyMoveHistory({ ...state, currentPlayer: 2 })).toBe(
+      'Move history says player 1 is to move, not player 2'
+    );
+  });
+
+  it('should reject a log containing an illegal move', async () => {
+    const state = await playTicTacToe(engine, [0, 3]);
+    const moves: TicTacToeMove[] = [
+      { player: 1, cellIndex: 0, mark: 'X', turn: 1 },
+      { player: 2, cellIndex: 0, mark: 'O', turn: 2 },
+    ];
+
+    expect(engine.verifyMoveHistory({ ...state, moves })).toBe(
+      'Move history contains an illegal move at turn 2: Cell 0 is already occupied by X'
+    );
+  });
+
+  it('should refuse a signed full state whose log does not reproduce it', async () => {
+    const state = await playTicTacToe(engine, [0, 3]);
+    const board: Board = [...state.board];
+    board[0] = null;
+    board[8] = 'X';
+    const edited = { ...state, board, checksum: await engine.calculateChecksum({ ...state, board }) };
+
+    const hash = await engine.encodeFullState(edited, { seat: 1 });
+    await expect(engine.decodeFullState(hash)).rejects.toThrow('does not reproduce the position');
+  });
+});
+
+describe('verifyMoveHistory with emoji chain', () => {
+  const engine = new GameEngine(emojiGameDefinition, { recordHistory: true });
+
+  it('should replay the chain from the initial state', async () => {
+    let state: EmojiGameState = await engine.createGame(crypto.randomUUID(), creator);
+    ({ state } = await engine.makeMove(state, { player: 1, emoji: '🎲', turn: 1 }));
+    ({ state } = await engine.makeMove(state, { player: 2, emoji: '🚀', turn: 2 }));
+
+    expect(engine.verifyMoveHistory(state)).toBeNull();
+    expect(engine.verifyMoveHistory({ ...state, emojiChain: '🎲🎲' })).toContain('does not reproduce');
+  });
+});
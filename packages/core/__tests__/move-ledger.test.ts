@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MoveLedger, describeLedgerVerdict } from '../src/lib/move-ledger';
+import { createDelta } from '../src/lib/game-delta';
+import { generateGameSecret } from '../src/lib/game-secret';
+
+describe('MoveLedger', () => {
+  const ledger = new MoveLedger();
+  const gameId = 'game-1';
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should treat the first state of a game as new', () => {
+    expect(ledger.check(gameId, 3, 'a'.repeat(64))).toEqual({ status: 'new' });
+    expect(ledger.getLatest(gameId)).toBeNull();
+  });
+
+  it('should classify states against the latest recorded turn', () => {
+    ledger.record(gameId, 0, 'a'.repeat(64));
+    ledger.record(gameId, 1, 'b'.repeat(64));
+    ledger.record(gameId, 2, 'c'.repeat(64));
+
+    expect(ledger.check(gameId, 3, 'd'.repeat(64))).toEqual({ status: 'new' });
+    expect(ledger.check(gameId, 2, 'c'.repeat(64))).toEqual({ status: 'duplicate', turn: 2 });
+    expect(ledger.check(gameId, 2, 'e'.repeat(64))).toEqual({ status: 'diverged', turn: 2 });
+    expect(ledger.check(gameId, 1, 'b'.repeat(64))).toEqual({ status: 'stale', turn: 1, latestTurn: 2 });
+  });
+
+  it('should only move forward', () => {
+    ledger.record(gameId, 4, 'a'.repeat(64));
+    ledger.record(gameId, 2, 'b'.repeat(64));
+    ledger.record(gameId, 4, 'c'.repeat(64));
+
+    expect(ledger.getEntries(gameId)).toEqual([{ turn: 4, checksum: 'a'.repeat(64) }]);
+  });
+
+  it('should keep games apart and forget cleared ones', () => {
+    ledger.record(gameId, 5, 'a'.repeat(64));
+    ledger.record('game-2', 1, 'b'.repeat(64));
+
+    expect(ledger.getLatest('game-2')).toEqual({ turn: 1, checksum: 'b'.repeat(64) });
+
+    ledger.clear(gameId);
+    expect(ledger.check(gameId, 1, 'c'.repeat(64))).toEqual({ status: 'new' });
+  });
+
+  it('should find a received delta from the same position with a different result', async () => {
+    const secret = generateGameSecret();
+    const accepted = await createDelta(gameId, { turn: 1 }, 'a'.repeat(64), 'b'.repeat(64), secret);
+    const same = await createDelta(gameId, { turn: 1 }, 'a'.repeat(64), 'b'.repeat(64), secret);
+    const other = await createDelta(gameId, { turn: 1 }, 'a'.repeat(64), 'c'.repeat(64), secret);
+    ledger.record(gameId, 1, accepted.newChecksum, accepted, { received: true });
+
+    expect(ledger.findConflictingDelta(same)).toBeNull();
+    expect(ledger.findConflictingDelta(other)).toEqual(accepted);
+
+    const conflict = { gameId, turn: 1, prevChecksum: 'a'.repeat(64), accepted, conflicting: other, detectedAt: 1 };
+    ledger.recordConflict(conflict);
+    ledger.recordConflict({ ...conflict, detectedAt: 2 });
+    expect(ledger.getConflicts(gameId)).toEqual([conflict]);
+
+    ledger.clear(gameId);
+    expect(ledger.getConflicts(gameId)).toEqual([]);
+  });
+
+  it('should not match a delta made on this device', async () => {
+    const secret = generateGameSecret();
+    const own = await createDelta(gameId, { turn: 1 }, 'a'.repeat(64), 'b'.repeat(64), secret);
+    const other = await createDelta(gameId, { turn: 1 }, 'a'.repeat(64), 'c'.repeat(64), secret);
+    ledger.record(gameId, 1, own.newChecksum, own);
+
+    expect(ledger.findConflictingDelta(other)).toBeNull();
+  });
+
+  it('should discard a corrupted ledger', () => {
+    localStorage.setItem(`correspondence-games:move-ledger:${gameId}`, '{not json');
+
+    expect(ledger.getEntries(gameId)).toEqual([]);
+    expect(localStorage.getItem(`correspondence-games:move-ledger:${gameId}`)).toBeNull();
+  });
+});
+
+describe('describeLedgerVerdict', () => {
+  it('should explain stale and diverged states only', () => {
+    expect(describeLedgerVerdict({ status: 'stale', turn: 2, latestTurn: 5 })).toBe(
+      'This is an older move (turn 2) - this game is already at turn 5'
+    );
+    expect(describeLedgerVerdict({ status: 'diverged', turn: 5 })).toContain('different turn 5');
+    expect(describeLedgerVerdict({ status: 'duplicate', turn: 5 })).toBeNull();
+    expect(describeLedgerVerdict({ status: 'new' })).toBeNull();
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, vi } from 'vitest';
+import { PartReassembler, cycleParts, isLinkPart, splitLink } from '../src/lib/multipart-link';
+import { DecodeError } from '../src/lib/errors';
+
+const LINK = `#s=2.tic-tac-toe.${'N4IgzgLgTgpgYgewHYEMA2BzA'.repeat(12)}`;
+
+describe('splitLink', () => {
+  it('should split a link into parts no longer than the limit', async () => {
+    const parts = await splitLink(LINK, 100);
+
+    expect(parts.length).toBeGreaterThan(1);
+    for (const part of parts) {
+      expect(isLinkPart(part)).toBe(true);
+      expect(part.length).toBeLessThanOrEqual(100);
+    }
+    expect(parts[0]).toMatch(new RegExp(`^#p=[a-f0-9]{16}\\.1\\.${parts.length}\\.[a-f0-9]{8}\\.`));
+  });
+
+  it('should keep a short link in a single part', async () => {
+    expect(await splitLink('#d=2.emoji-chain.abc', 200)).toHaveLength(1);
+  });
+
+  it('should refuse limits that leave no room for the link', async () => {
+    await expect(splitLink(LINK, 20)).rejects.toThrow('no room');
+    await expect(splitLink(`#s=2.x.${'a'.repeat(10_000)}`, 60)).rejects.toThrow('the limit is 64');
+  });
+});
+
+describe('PartReassembler', () => {
+  it('should rebuild the link from parts in any order and report missing parts', async () => {
+    const parts = await splitLink(LINK, 80);
+    const reassembler = new PartReassembler();
+
+    const last = await reassembler.add(parts[parts.length - 1] ?? '');
+    expect(last).toMatchObject({ status: 'incomplete', total: parts.length, received: 1 });
+    expect(last.status === 'incomplete' && last.missing).toEqual(parts.slice(0, -1).map((_, i) => i + 1));
+
+    let progress = last;
+    for (const part of [...parts].reverse()) {
+      progress = await reassembler.add(part);
+    }
+
+    expect(progress).toMatchObject({ status: 'complete', hashFragment: LINK });
+    expect(reassembler.missing()).toEqual([]);
+  });
+
+  it('should reject damaged parts and parts of another link', async () => {
+    const parts = await splitLink(LINK, 80);
+    const others = await splitLink(`${LINK}x`, 80);
+    const reassembler = new PartReassembler();
+    const first = parts[0] ?? '';
+
+    const damaged = await reassembler.add(`${first.slice(0, -1)}!`).catch((e: unknown) => e);
+    expect(damaged).toBeInstanceOf(DecodeError);
+    expect(damaged).toMatchObject({ reason: 'corrupt-part' });
+
+    await reassembler.add(first);
+    await expect(reassembler.add(others[1] ?? '')).rejects.toMatchObject({ reason: 'other-transfer' });
+    await expect(reassembler.add('#s=2.tic-tac-toe.abc')).rejects.toMatchObject({ reason: 'malformed' });
+
+    reassembler.reset();
+    expect(await reassembler.add(others[1] ?? '')).toMatchObject({ status: 'incomplete', received: 1 });
+  });
+});
+
+describe('cycleParts', () => {
+  it('should show each part in turn until stopped', () => {
+    vi.useFakeTimers();
+    const shown: number[] = [];
+
+    const stop = cycleParts(['a', 'b', 'c'], (_, position) => shown.push(position), 500);
+    vi.advanceTimersByTime(2000);
+    stop();
+    vi.advanceTimersByTime(2000);
+    vi.useRealTimers();
+
+    expect(shown).toEqual([0, 1, 2, 0, 1]);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, readdirSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { AsyncFileStorageAdapter, FileStorageAdapter } from '../src/lib/node-file-storage';
+import { CachedStorageAdapter } from '../src/lib/storage-adapter';
+import { PlayerStorage } from '../src/lib/player-storage';
+
+describe('node file storage', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'cg-storage-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should store each key as a file', () => {
+    const adapter = new FileStorageAdapter(join(directory, 'data'));
+
+    expect(adapter.keys()).toEqual([]);
+    adapter.setItem('correspondence-games:player-name', 'Alice');
+    adapter.setItem('a/b', 'slashes are encoded');
+
+    expect(adapter.getItem('correspondence-games:player-name')).toBe('Alice');
+    expect(adapter.keys().sort()).toEqual(['a/b', 'correspondence-games:player-name']);
+    expect(readdirSync(join(directory, 'data')).every((file) => file.endsWith('.value'))).toBe(true);
+
+    adapter.removeItem('a/b');
+    adapter.removeItem('missing');
+    expect(adapter.getItem('a/b')).toBeNull();
+  });
+
+  it('should back the storage classes through the async adapter', async () => {
+    const files = new AsyncFileStorageAdapter(directory);
+    const cached = await CachedStorageAdapter.load(files);
+
+    new PlayerStorage(cached).setPlayerName('Alice');
+    await cached.flush();
+
+    expect(await files.getItem('correspondence-games:player-name')).toBe('Alice');
+    const reloaded = await CachedStorageAdapter.load(new AsyncFileStorageAdapter(directory));
+    expect(new PlayerStorage(reloaded).getPlayerName()).toBe('Alice');
+  });
+});
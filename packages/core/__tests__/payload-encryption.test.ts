@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import LZString from 'lz-string';
+import { decryptHashFragment, encryptHashFragment, getEncryptedGameId } from '../src/lib/payload-encryption';
+import { decodeEnvelope, encodeEnvelope } from '../src/lib/url-envelope';
+import { generateGameSecret } from '../src/lib/game-secret';
+
+const secret = generateGameSecret();
+const gameId = crypto.randomUUID();
+const plain = encodeEnvelope('full-state', 'tic-tac-toe', {
+  state: { gameId, player1: { name: 'Alice' } },
+  target: { seat: 2 },
+});
+
+describe('encryptHashFragment', () => {
+  it('should hide the payload but keep the header readable', async () => {
+    const encrypted = await encryptHashFragment(plain, gameId, secret);
+
+    expect(encrypted.startsWith(`#s=2.tic-tac-toe.e.${gameId}.`)).toBe(true);
+    expect(encrypted).not.toContain(plain.split('.')[2]);
+    expect(getEncryptedGameId(encrypted)).toBe(gameId);
+    expect(getEncryptedGameId(plain)).toBeNull();
+    expect(decodeEnvelope(encrypted)).toEqual({ ok: false, reason: 'encrypted', gameId });
+  });
+
+  it('should only encrypt plain versioned links', async () => {
+    const legacy = `#s=${LZString.compressToEncodedURIComponent('{}')}`;
+
+    await expect(encryptHashFragment(legacy, gameId, secret)).rejects.toThrow('Only plain versioned links');
+  });
+});
+
+describe('decryptHashFragment', () => {
+  it('should round-trip to the original link', async () => {
+    const encrypted = await encryptHashFragment(plain, gameId, secret);
+
+    expect(await decryptHashFragment(encrypted, secret)).toBe(plain);
+  });
+
+  it('should reject the wrong key', async () => {
+    const encrypted = await encryptHashFragment(plain, gameId, secret);
+
+    await expect(decryptHashFragment(encrypted, generateGameSecret())).rejects.toThrow('Failed to decrypt link');
+  });
+
+  it('should reject a swapped header', async () => {
+    const encrypted = await encryptHashFragment(plain, gameId, secret);
+
+    await expect(decryptHashFragment(encrypted.replace('#s=', '#d='), secret)).rejects.toThrow('Failed to decrypt link');
+    await expect(
+      decryptHashFragment(encrypted.replace('tic-tac-toe', 'emoji-chain'), secret)
+    ).rejects.toThrow('Failed to decrypt link');
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  InMemoryIdentityKeyStore,
+  PlayerIdentity,
+  derivePlayerId,
+  exportIdentityKeys,
+  importIdentityKeys,
+  verifySignature,
+} from '../src/lib/player-identity';
+import { HotSeatStorage } from '../src/lib/hotseat-storage';
+import { InMemoryStorageAdapter } from '../src/lib/storage-adapter';
+
+describe('PlayerIdentity', () => {
+  it('should keep the same key pair across loads', async () => {
+    const store = new InMemoryIdentityKeyStore();
+    const first = await PlayerIdentity.load(store);
+    const second = await PlayerIdentity.load(store);
+
+    expect(second.publicKey).toBe(first.publicKey);
+    expect(second.playerId).toBe(first.playerId);
+    expect((await PlayerIdentity.load(new InMemoryIdentityKeyStore())).playerId).not.toBe(first.playerId);
+  });
+
+  it('should never expose the private key', async () => {
+    const store = new InMemoryIdentityKeyStore();
+    await PlayerIdentity.load(store);
+    const keyPair = await store.load();
+
+    expect(keyPair?.privateKey.extractable).toBe(false);
+  });
+
+  it('should derive a UUID-shaped player ID from the public key', async () => {
+    const identity = await PlayerIdentity.load(new InMemoryIdentityKeyStore());
+
+    expect(identity.playerId).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-8[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    expect(await derivePlayerId(identity.publicKey)).toBe(identity.playerId);
+    expect(new HotSeatStorage().getMyPlayerId()).toBe(identity.playerId);
+  });
+
+  it('should store its player ID in the given storage and keep the ID it replaces', async () => {
+    const storage = new InMemoryStorageAdapter();
+    const players = new HotSeatStorage(storage);
+    const oldId = players.getMyPlayerId();
+
+    const identity = await PlayerIdentity.load(new InMemoryIdentityKeyStore(), { storage });
+    await PlayerIdentity.load(new InMemoryIdentityKeyStore(), { storage });
+
+    expect(players.getPreviousPlayerIds()).toEqual([identity.playerId, oldId]);
+    expect(players.isMyPlayerId(oldId)).toBe(true);
+    expect(players.isMyPlayerId('someone-else')).toBe(false);
+  });
+
+  it('should produce signatures only its public key verifies', async () => {
+    const alice = await PlayerIdentity.load(new InMemoryIdentityKeyStore());
+    const mallory = await PlayerIdentity.load(new InMemoryIdentityKeyStore());
+    const signature = await alice.sign('move 1');
+
+    expect(await verifySignature(alice.publicKey, 'move 1', signature)).toBe(true);
+    expect(await verifySignature(alice.publicKey, 'move 2', signature)).toBe(false);
+    expect(await verifySignature(mallory.publicKey, 'move 1', signature)).toBe(false);
+    expect(await verifySignature('not-a-key', 'move 1', signature)).toBe(false);
+  });
+
+  it('should export an exportable identity so another store can sign as it', async () => {
+    const store = new InMemoryIdentityKeyStore();
+    const alice = await PlayerIdentity.load(store, { exportable: true });
+    const keys = await exportIdentityKeys(store);
+
+    const restoredStore = new InMemoryIdentityKeyStore();
+    await importIdentityKeys(keys!, restoredStore);
+    const restored = await PlayerIdentity.load(restoredStore);
+
+    expect(restored.playerId).toBe(alice.playerId);
+    expect(await verifySignature(alice.publicKey, 'move 1', await restored.sign('move 1'))).toBe(true);
+  });
+
+  it('should not export non-exportable identities or import mismatched keys', async () => {
+    const store = new InMemoryIdentityKeyStore();
+    await PlayerIdentity.load(store);
+    expect(await exportIdentityKeys(store)).toBeNull();
+
+    const aliceStore = new InMemoryIdentityKeyStore();
+    const malloryStore = new InMemoryIdentityKeyStore();
+    await PlayerIdentity.load(aliceStore, { exportable: true });
+    await PlayerIdentity.load(malloryStore, { exportable: true });
+    const alice = await exportIdentityKeys(aliceStore);
+    const mallory = await exportIdentityKeys(malloryStore);
+
+    await expect(
+      importIdentityKeys({ publicKey: alice!.publicKey, privateKey: mallory!.privateKey }, new InMemoryIdentityKeyStore())
+    ).rejects.toThrow('do not belong together');
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { encodeQr, qrByteCapacity } from '../src/lib/qr-code';
+
+const LINK = 'https://example.github.io/tic-tac-toe/#d=2.tic-tac-toe.N4IgzgLgTgpgYgewHYEMA2BzA';
+
+/** Reads the format information next to the top-left finder */
+function readFormat(modules: boolean[][]): { level: number; mask: number } {
+  const positions: [number, number][] = [
+    [8, 0], [8, 1], [8, 2], [8, 3], [8, 4], [8, 5], [8, 7], [8, 8],
+    [7, 8], [5, 8], [4, 8], [3, 8], [2, 8], [1, 8], [0, 8],
+  ];
+  const bits = positions.reduce((value, [x, y], i) => value | ((modules[y]?.[x] ? 1 : 0) << i), 0) ^ 0x5412;
+  return { level: bits >>> 13, mask: (bits >>> 10) & 7 };
+}
+
+describe('qrByteCapacity', () => {
+  it('should match the capacities of the QR specification', () => {
+    expect(qrByteCapacity(1, 'L')).toBe(17);
+    expect(qrByteCapacity(1, 'H')).toBe(7);
+    expect(qrByteCapacity(10, 'M')).toBe(213);
+    expect(qrByteCapacity(40, 'L')).toBe(2953);
+    expect(qrByteCapacity(40, 'H')).toBe(1273);
+  });
+});
+
+describe('encodeQr', () => {
+  it('should pick the smallest version that fits the text', () => {
+    const qr = encodeQr(LINK);
+
+    expect(qr.version).toBe(5);
+    expect(qr.size).toBe(37);
+    expect(qr.modules).toHaveLength(37);
+    expect(qr.modules.every((row) => row.length === 37)).toBe(true);
+  });
+
+  it('should draw the finder and timing patterns', () => {
+    const { modules, size } = encodeQr(LINK);
+    const finderRow = [true, true, true, true, true, true, true, false];
+
+    expect(modules[0]?.slice(0, 8)).toEqual(finderRow);
+    expect(modules[0]?.slice(size - 8).reverse()).toEqual(finderRow);
+    expect(modules[size - 1]?.slice(0, 8)).toEqual(finderRow);
+    expect(modules[2]?.slice(0, 7)).toEqual([true, false, true, true, true, false, true]);
+    expect(modules[6]?.slice(8, size - 8)).toEqual(
+      Array.from({ length: size - 16 }, (_, i) => i % 2 === 0)
+    );
+    expect(modules[size - 8]?.[8]).toBe(true);
+  });
+
+  it('should record the error-correction level in the format information', () => {
+    const levels = { L: 1, M: 0, Q: 3, H: 2 } as const;
+
+    for (const [errorCorrection, level] of Object.entries(levels)) {
+      const qr = encodeQr(LINK, { errorCorrection: errorCorrection as keyof typeof levels });
+      expect(readFormat(qr.modules).level).toBe(level);
+      expect(qr.errorCorrection).toBe(errorCorrection);
+    }
+    expect(encodeQr(LINK, { errorCorrection: 'H' }).version).toBeGreaterThan(encodeQr(LINK).version);
+  });
+
+  it('should honour a minimum version', () => {
+    expect(encodeQr('hi', { minVersion: 8 }).version).toBe(8);
+    expect(() => encodeQr('hi', { minVersion: 41 })).toThrow('between 1 and 40');
+  });
+
+  it('should refuse text longer than a version 40 symbol holds', () => {
+    expect(() => encodeQr('x'.repeat(1274), { errorCorrection: 'H' })).toThrow('holds at most 1273');
+    expect(encodeQr('x'.repeat(1273), { errorCorrection: 'H' }).version).toBe(40);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect, vi } from 'vitest';
+import { encodeQr } from '../src/lib/qr-code';
+import { qrToSvg, renderQrCanvas, renderQrSvg } from '../src/lib/qr-render';
+
+const LINK = 'https://example.github.io/emoji-chain/#s=2.emoji-chain.abc';
+
+describe('renderQrSvg', () => {
+  it('should render one square per dark module inside the quiet zone', () => {
+    const qr = encodeQr(LINK);
+    const svg = qrToSvg(qr);
+    const darkModules = qr.modules.flat().filter(Boolean).length;
+
+    expect(svg).toMatch(new RegExp(`^<svg [^>]*viewBox="0 0 ${qr.size + 8} ${qr.size + 8}"`));
+    expect(svg.match(/h1v1h-1z/g)).toHaveLength(darkModules);
+    expect(svg).toContain('M4 4h1v1h-1z');
+    expect(svg).toContain('class="cg-qr-modules"');
+  });
+
+  it('should label the code and escape the label', () => {
+    const svg = renderQrSvg(LINK, { title: 'Move <3 & "go"', margin: 2 });
+
+    expect(svg).toContain('aria-label="Move &lt;3 &amp; &quot;go&quot;"');
+    expect(svg).toContain('<title>Move &lt;3 &amp; &quot;go&quot;</title>');
+    expect(svg).toContain('M2 2h1v1h-1z');
+  });
+});
+
+describe('renderQrCanvas', () => {
+  it('should size the canvas and draw with the given colors', () => {
+    const fills: string[] = [];
+    const context = {
+      fillStyle: '',
+      fillRect: vi.fn(function (this: { fillStyle: string }) {
+        fills.push(this.fillStyle);
+      }),
+    };
+    // happy-dom has no canvas implementation
+    const canvas = { width: 0, height: 0, getContext: () => context } as unknown as HTMLCanvasElement;
+    const qr = encodeQr(LINK);
+
+    renderQrCanvas(canvas, LINK, { moduleSize: 2, dark: '#111', light: '#eee' });
+
+    expect(canvas.width).toBe((qr.size + 8) * 2);
+    expect(context.fillRect).toHaveBeenCalledWith(0, 0, canvas.width, canvas.height);
+    expect(context.fillRect).toHaveBeenCalledWith(8, 8, 2, 2);
+    expect(fills[0]).toBe('#eee');
+    expect(fills.slice(1).every((fill) => fill === '#111')).toBe(true);
+  });
+
+  it('should refuse a canvas without a 2D context', () => {
+    const canvas = { getContext: () => null } as unknown as HTMLCanvasElement;
+
+    expect(() => renderQrCanvas(canvas, LINK)).toThrow('no 2D context');
+  });
+});
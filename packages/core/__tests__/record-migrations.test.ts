@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { z } from 'zod';
+import {
+  UNREADABLE_PREFIX,
+  getRecordVersion,
+  loadRecord,
+  readRecord,
+  registerRecordMigration,
+  writeRecord,
+} from '../src/lib/record-migrations';
+import { InMemoryStorageAdapter } from '../src/lib/storage-adapter';
+import { TicTacToeStorage } from '../src/lib/tic-tac-toe-storage';
+import { GameStorage } from '../src/lib/game-storage';
+import { createTestGameState } from './test-helpers';
+
+const NoteSchema = z.object({ title: z.string(), tags: z.array(z.string()) });
+
+// Version 1 renamed `name` to `title`, version 2 added `tags`
+registerRecordMigration('test-note', {
+  version: 2,
+  description: 'add tags',
+  migrate: (data) => ({ ...(data as object), tags: [] }),
+});
+registerRecordMigration('test-note', {
+  version: 1,
+  description: 'rename name to title',
+  migrate: (data) => {
+    const { name, ...rest } = data as { name: string };
+    return { ...rest, title: name };
+  },
+});
+
+describe('record migrations', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('should write records at the newest registered version', () => {
+    expect(getRecordVersion('test-note')).toBe(2);
+    expect(getRecordVersion('test-unregistered')).toBe(1);
+    expect(JSON.parse(writeRecord('test-note', { title: 'a', tags: [] }))).toEqual({
+      schemaVersion: 2,
+      data: { title: 'a', tags: [] },
+    });
+  });
+
+  it('should run every newer migration in order on unversioned records', () => {
+    const result = readRecord('test-note', NoteSchema, JSON.stringify({ name: 'Groceries' }));
+
+    expect(result).toEqual({ ok: true, value: { title: 'Groceries', tags: [] }, version: 0, migrated: true });
+  });
+
+  it('should only run migrations newer than the record', () => {
+    const text = JSON.stringify({ schemaVersion: 1, data: { title: 'Groceries' } });
+
+    expect(readRecord('test-note', NoteSchema, text)).toMatchObject({ ok: true, version: 1, migrated: true });
+    expect(readRecord('test-note', NoteSchema, writeRecord('test-note', { title: 'a', tags: ['x'] }))).toEqual({
+      ok: true,
+      value: { title: 'a', tags: ['x'] },
+      version: 2,
+      migrated: false,
+    });
+  });
+
+  it('should report records written by a newer version', () => {
+    const text = JSON.stringify({ schemaVersion: 3, data: { title: 'a' } });
+
+    expect(readRecord('test-note', NoteSchema, text)).toEqual({ ok: false, reason: 'newer-version', version: 3 });
+  });
+
+  it('should report invalid records', () => {
+    expect(readRecord('test-note', NoteSchema, '{not json')).toMatchObject({ ok: false, reason: 'invalid' });
+    expect(readRecord('test-note', NoteSchema, writeRecord('test-note', { title: 1 }))).toMatchObject({
+      ok: false,
+      reason: 'invalid',
+    });
+  });
+
+  it('should replace a migration registered again for the same version', () => {
+    registerRecordMigration('test-replaced', { version: 1, description: 'first', migrate: () => 'first' });
+    registerRecordMigration('test-replaced', { version: 1, description: 'second', migrate: () => 'second' });
+
+    expect(readRecord('test-replaced', z.string(), '"x"')).toMatchObject({ ok: true, value: 'second' });
+  });
+
+  it('should write upgraded records back when loading', () => {
+    const storage = new InMemoryStorageAdapter();
+    storage.setItem('note', JSON.stringify({ name: 'Groceries' }));
+
+    expect(loadRecord(storage, 'note', 'test-note', NoteSchema)).toEqual({ title: 'Groceries', tags: [] });
+    expect(JSON.parse(storage.getItem('note')!)).toEqual({ schemaVersion: 2, data: { title: 'Groceries', tags: [] } });
+  });
+
+  it('should set unreadable records aside instead of deleting them', () => {
+    const storage = new InMemoryStorageAdapter();
+    storage.setItem('note', '{not json');
+
+    expect(loadRecord(storage, 'note', 'test-note', NoteSchema)).toBeNull();
+    expect(storage.getItem('note')).toBeNull();
+    expect(storage.getItem(`${UNREADABLE_PREFIX}note`)).toBe('{not json');
+  });
+
+  it('should leave records from a newer version in place', () => {
+    const storage = new InMemoryStorageAdapter();
+    const text = JSON.stringify({ schemaVersion: 9, data: {} });
+    storage.setItem('note', text);
+
+    expect(loadRecord(storage, 'note', 'test-note', NoteSchema)).toBeNull();
+    expect(storage.getItem('note')).toBe(text);
+  });
+});
+
+describe('stored game migrations', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('should upgrade tic-tac-toe games saved with player name strings', () => {
+    const storage = new InMemoryStorageAdapter();
+    const games = new TicTacToeStorage(storage);
+    const state = createTestGameState();
+    games.saveGameState(state);
+
+    const { player1, player2, ...rest } = state;
+    storage.setItem(
+      `correspondence-games:tic-tac-toe:game:${state.gameId}`,
+      JSON.stringify({ ...rest, player1Name: player1.name, player2Name: player2.name })
+    );
+
+    expect(games.loadGameState(state.gameId)).toEqual({
+      ...rest,
+      player1: { id: '', name: player1.name },
+      player2: { id: '', name: player2.name },
+    });
+    expect(games.listGames()).toHaveLength(1);
+  });
+
+  it('should keep tic-tac-toe games saved by a newer version', () => {
+    const storage = new InMemoryStorageAdapter();
+    const games = new TicTacToeStorage(storage);
+    const state = createTestGameState();
+    games.saveGameState(state);
+    const key = `correspondence-games:tic-tac-toe:game:${state.gameId}`;
+    storage.setItem(key, JSON.stringify({ schemaVersion: 99, data: { future: true } }));
+
+    expect(games.loadGameState(state.gameId)).toBeNull();
+    expect(games.hasGame(state.gameId)).toBe(true);
+    expect(games.listGames()).toHaveLength(1);
+  });
+
+  it('should read emoji games saved before records were versioned', () => {
+    const storage = new InMemoryStorageAdapter();
+    const games = new GameStorage(storage);
+    const state = {
+      gameId: crypto.randomUUID(),
+      emojiChain: '🎮',
+      currentTurn: 1,
+      currentPlayer: 2 as const,
+      player1Name: 'Alice',
+      player2Name: 'Bob',
+      checksum: 'checksum',
+    };
+    storage.setItem(`correspondence-games:game:${state.gameId}`, JSON.stringify({ ...state, timestamp: 1000 }));
+
+    expect(games.listGames()).toEqual([{ state, updatedAt: 1000 }]);
+    expect(games.getGameState(state.gameId)).toEqual(state);
+    expect(JSON.parse(storage.getItem(`correspondence-games:game:${state.gameId}`)!)).toMatchObject({
+      schemaVersion: 1,
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect } from 'vitest';
+import LZString from 'lz-string';
+import { z } from 'zod';
+import { PayloadDecodeError } from '../src/lib/errors';
+import {
+  MAX_LINK_LENGTH,
+  decompressPayload,
+  parseWithSchema,
+  safeJsonParse,
+} from '../src/lib/safe-decode';
+import { decodeEnvelope, readEnvelope } from '../src/lib/url-envelope';
+
+function link(json: string): string {
+  return `#d=2.tic-tac-toe.${LZString.compressToEncodedURIComponent(json)}`;
+}
+
+// Seeded so a failing differential case can be reproduced
+function createRandom(seed: number): (below: number) => number {
+  return (below) => {
+    seed = (seed * 1_103_515_245 + 12_345) % 2_147_483_648;
+    return seed % below;
+  };
+}
+
+// decompressPayload's result, or null where it refuses the input
+function decompressOrNull(input: string): string | null {
+  try {
+    return decompressPayload(input);
+  } catch (error) {
+    if (error instanceof PayloadDecodeError && error.reason === 'decompress-failed') return null;
+    throw error;
+  }
+}
+
+// lz-string's result, or null where it fails ("" counts as failing, as it does in decompressPayload)
+function libraryOrNull(input: string): string | null {
+  try {
+    return LZString.decompressFromEncodedURIComponent(input) || null;
+  } catch {
+    return null;
+  }
+}
+
+describe('decompressPayload', () => {
+  it('should refuse payloads that expand past the limit', () => {
+    const bomb = LZString.compressToEncodedURIComponent(JSON.stringify({ padding: 'a'.repeat(200_000) }));
+
+    expect(bomb.length).toBeLessThan(MAX_LINK_LENGTH);
+    expect(() => decompressPayload(bomb)).toThrow(expect.objectContaining({ reason: 'too-large' }));
+  });
+
+  it('should stop decompressing a high-ratio payload at the limit', () => {
+    const bomb = LZString.compressToEncodedURIComponent('a'.repeat(2_000_000));
+
+    expect(bomb.length * 500).toBeLessThan(2_000_000);
+    expect(() => decompressPayload(bomb)).toThrow('Link payload expands to more than 65536 characters');
+  });
+
+  it('should decompress exactly what lz-string compressed', () => {
+    const payloads = ['{}', JSON.stringify({ emoji: '🎮🎉', text: 'aaaaab'.repeat(500) }), 'x'.repeat(65_536)];
+
+    for (const payload of payloads) {
+      expect(decompressPayload(LZString.compressToEncodedURIComponent(payload))).toBe(payload);
+    }
+  });
+
+  it('should decode random text and garbage exactly like lz-string', () => {
+    const random = createRandom(2024);
+    const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+-$ !%';
+    const garbage = ['2UsKmuqyJUd', '7DmSg$LTEy'];
+    const texts: string[] = [];
+    for (let i = 0; i < 3000; i++) {
+      garbage.push(Array.from({ length: 1 + random(16) }, () => alphabet[random(alphabet.length)]).join(''));
+    }
+    for (let i = 0; i < 300; i++) {
+      texts.push(String.fromCharCode(...Array.from({ length: 1 + random(64) }, () => random(i % 2 ? 0x10000 : 128))));
+    }
+
+    for (const input of [...garbage, ...texts.map((text) => LZString.compressToEncodedURIComponent(text))]) {
+      expect(decompressOrNull(input), input).toBe(libraryOrNull(input));
+    }
+  });
+
+  it('should refuse payloads that do not decompress', () => {
+    expect(() => decompressPayload('')).toThrow(expect.objectContaining({ reason: 'decompress-failed' }));
+    expect(() => decompressPayload(LZString.compressToEncodedURIComponent('{"a":1}').slice(0, 3))).toThrow(
+      expect.objectContaining({ reason: 'decompress-failed' })
+    );
+  });
+});
+
+describe('safeJsonParse', () => {
+  it('should refuse deeply nested JSON', () => {
+    const deep = '['.repeat(40) + ']'.repeat(40);
+
+    expect(() => safeJsonParse(deep)).toThrow(expect.objectContaining({ reason: 'too-deep' }));
+  });
+
+  it('should ignore brackets inside strings when measuring depth', () => {
+    expect(safeJsonParse(JSON.stringify({ note: '[['.repeat(40) + '\\"{' }))).toEqual({
+      note: '[['.repeat(40) + '\\"{',
+    });
+  });
+
+  it('should drop keys that could pollute prototypes', () => {
+    const parsed = safeJsonParse('{"__proto__":{"polluted":true},"constructor":{"prototype":{}},"a":1}') as object;
+
+    expect(parsed).toEqual({ a: 1 });
+    expect(Object.prototype.hasOwnProperty.call(parsed, '__proto__')).toBe(false);
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+
+  it('should report invalid JSON', () => {
+    expect(() => safeJsonParse('{"a":')).toThrow(expect.objectContaining({ reason: 'invalid-json' }));
+  });
+});
+
+describe('parseWithSchema', () => {
+  it('should list the failing fields', () => {
+    const schema = z.object({ turn: z.number() });
+
+    expect(() => parseWithSchema(schema, { turn: 'one' }, 'move')).toThrow(/^Invalid move in URL payload - turn: /);
+    expect(parseWithSchema(schema, { turn: 1 }, 'move')).toEqual({ turn: 1 });
+  });
+});
+
+describe('envelope limits', () => {
+  it('should reject oversized links before decompressing them', () => {
+    const result = decodeEnvelope(`#d=2.tic-tac-toe.${'A'.repeat(MAX_LINK_LENGTH)}`);
+
+    expect(result).toMatchObject({ ok: false, reason: 'rejected', error: { reason: 'too-long' } });
+  });
+
+  it('should throw typed errors from readEnvelope', () => {
+    const deep = link(JSON.stringify({ delta: JSON.parse('['.repeat(30) + ']'.repeat(30)), target: { seat: 1 } }));
+
+    expect(() => readEnvelope(deep, 'delta', 'tic-tac-toe')).toThrow(PayloadDecodeError);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { GameEngine } from '../src/lib/game-engine';
+import { ticTacToeDefinition } from '../src/lib/tic-tac-toe-definition';
+import { ShareUrlBuilder } from '../src/lib/share-url';
+import { UrlTooLongError } from '../src/lib/errors';
+import { PartReassembler } from '../src/lib/multipart-link';
+
+const BASE_URL = 'https://example.github.io/tic-tac-toe/';
+
+describe('ShareUrlBuilder', () => {
+  const engine = new GameEngine(ticTacToeDefinition);
+  const creator = { id: crypto.randomUUID(), name: 'Alice' };
+
+  async function firstMove() {
+    const state = await engine.createGame(crypto.randomUUID(), creator);
+    return engine.makeMove(state, { player: 1, cellIndex: 4, mark: 'X', turn: 1 });
+  }
+
+  it('should send a delta when the recipient has the previous state', async () => {
+    const { state, delta } = await firstMove();
+    const links = new ShareUrlBuilder(engine, { baseUrl: `${BASE_URL}#s=old` });
+
+    const shared = await links.build({ state, delta, target: { seat: 2 } });
+
+    expect(shared.kind).toBe('delta');
+    expect(shared.url).toBe(BASE_URL + engine.encodeDelta(delta, { seat: 2 }));
+    expect(shared.length).toBe(shared.url.length);
+    expect(shared.withinBudget).toBe(true);
+  });
+
+  it('should send the full state for invites and recipients without the game', async () => {
+    const { state, delta } = await firstMove();
+    const links = new ShareUrlBuilder(engine, { baseUrl: BASE_URL });
+
+    const invite = await links.build({ state, delta, target: { seat: 2 }, includeSecret: true });
+    const resync = await links.build({ state, delta, target: { seat: 2 }, recipientHasState: false });
+    const noDelta = await links.build({ state, target: { seat: 2 } });
+
+    expect(invite).toMatchObject({ kind: 'full-state', reason: 'invite' });
+    expect(resync).toMatchObject({ kind: 'full-state', reason: 'no-delta' });
+    expect(noDelta).toMatchObject({ kind: 'full-state', reason: 'no-delta' });
+    expect(invite.length).toBeGreaterThan(resync.length);
+  });
+
+  it('should embed a full-state checkpoint every few turns', async () => {
+    const first = await firstMove();
+    const second = await engine.makeMove(first.state, { player: 2, cellIndex: 0, mark: 'O', turn: 2 });
+    const links = new ShareUrlBuilder(engine, { baseUrl: BASE_URL, checkpointInterval: 2 });
+
+    expect((await links.build({ ...first, target: { seat: 2 } })).kind).toBe('delta');
+    expect(await links.build({ ...second, target: { seat: 1 } })).toMatchObject({
+      kind: 'full-state',
+      reason: 'checkpoint',
+    });
+  });
+
+  it('should encrypt deltas and full states when asked', async () => {
+    const { state, delta } = await firstMove();
+    const links = new ShareUrlBuilder(engine, { baseUrl: BASE_URL, encrypt: true });
+
+    const shared = await links.build({ state, delta, target: { seat: 2 } });
+    const invite = await links.build({ state, target: { seat: 2 }, includeSecret: true });
+
+    expect(shared.url).toMatch(/#d=2\.tic-tac-toe\.e\./);
+    expect(invite.url).not.toMatch(/\.e\./);
+  });
+
+  it('should report or throw when no link fits the budget', async () => {
+    const { state, delta } = await firstMove();
+    const reporting = new ShareUrlBuilder(engine, { baseUrl: BASE_URL, maxLength: 100, overBudget: 'report' });
+    const throwing = new ShareUrlBuilder(engine, { baseUrl: BASE_URL, maxLength: 100 });
+
+    const shared = await reporting.build({ state, delta, target: { seat: 2 } });
+
+    expect(shared).toMatchObject({ kind: 'delta', reason: 'delta', withinBudget: false, budget: 100 });
+    const error = await throwing.build({ state, delta, target: { seat: 2 } }).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(UrlTooLongError);
+    expect(error).toMatchObject({ code: 'URL_TOO_LONG', length: shared.length, budget: 100 });
+  });
+
+  it('should split links over the budget into parts that each fit', async () => {
+    const { state } = await firstMove();
+    const links = new ShareUrlBuilder(engine, { baseUrl: BASE_URL, maxLength: 200, overBudget: 'split' });
+    const reassembler = new PartReassembler();
+
+    const shared = await links.build({ state, target: { seat: 2 } });
+    let progress;
+    for (const part of shared.parts ?? []) {
+      expect(part.length).toBeLessThanOrEqual(200);
+      progress = await reassembler.add(part.slice(BASE_URL.length));
+    }
+
+    expect(shared.withinBudget).toBe(true);
+    expect(shared.url).toBe(shared.parts?.[0]);
+    expect(progress).toMatchObject({
+      status: 'complete',
+      hashFragment: await engine.encodeFullState(state, { seat: 2 }),
+    });
+  });
+
+  it('should refuse a delta that does not produce the shared state', async () => {
+    const { delta } = await firstMove();
+    const other = await firstMove();
+    const links = new ShareUrlBuilder(engine, { baseUrl: BASE_URL });
+
+    await expect(links.build({ state: other.state, delta, target: { seat: 2 } })).rejects.toThrow(
+      'Delta does not produce the state being shared'
+    );
+  });
+});
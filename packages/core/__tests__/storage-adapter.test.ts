@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  CachedStorageAdapter,
+  InMemoryStorageAdapter,
+  LocalStorageAdapter,
+  toAsyncStorageAdapter,
+  type AsyncStorageAdapter,
+} from '../src/lib/storage-adapter';
+import { chainChecksum } from '../src/lib/checksum';
+import { GameEngine } from '../src/lib/game-engine';
+import { GameSecretStorage } from '../src/lib/game-secret';
+import { HotSeatStorage } from '../src/lib/hotseat-storage';
+import { TicTacToeStorage } from '../src/lib/tic-tac-toe-storage';
+import { ticTacToeDefinition } from '../src/lib/tic-tac-toe-definition';
+import { applyDelta, createDelta } from '../src/lib/tic-tac-toe-delta';
+import { decodeFullState, encodeFullState } from '../src/lib/tic-tac-toe-url-encoder';
+import { createTestGameState } from './test-helpers';
+
+describe('storage adapters', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should read and write localStorage under the same keys', () => {
+    const adapter = new LocalStorageAdapter();
+
+    adapter.setItem('correspondence-games:my-name', 'Alice');
+
+    expect(localStorage.getItem('correspondence-games:my-name')).toBe('Alice');
+    expect(adapter.keys()).toEqual(['correspondence-games:my-name']);
+    adapter.removeItem('correspondence-games:my-name');
+    expect(adapter.getItem('correspondence-games:my-name')).toBeNull();
+  });
+
+  it('should keep in-memory entries out of localStorage', () => {
+    const adapter = new InMemoryStorageAdapter();
+    const hotSeat = new HotSeatStorage(adapter);
+
+    hotSeat.setMyName('Alice');
+
+    expect(hotSeat.getMyName()).toBe('Alice');
+    expect(adapter.keys()).toEqual(['correspondence-games:my-name']);
+    expect(localStorage.length).toBe(0);
+  });
+
+  it('should run the engine and game storage on any adapter', async () => {
+    const adapter = new InMemoryStorageAdapter();
+    const engine = new GameEngine(ticTacToeDefinition, { storage: adapter });
+    const games = new TicTacToeStorage(adapter);
+
+    const state = await engine.createGame(crypto.randomUUID(), { id: crypto.randomUUID(), name: 'Alice' });
+    games.saveGameState(state);
+
+    expect(games.loadGameState(state.gameId)).toEqual(state);
+    expect(adapter.keys()).toEqual(
+      expect.arrayContaining([
+        `correspondence-games:game-secret:${state.gameId}`,
+        `correspondence-games:move-ledger:${state.gameId}`,
+      ])
+    );
+    expect(localStorage.length).toBe(0);
+  });
+
+  it('should sign and read links with secrets kept in any adapter', async () => {
+    const secrets = new GameSecretStorage(new InMemoryStorageAdapter());
+    const state = createTestGameState();
+    secrets.getOrCreateSecret(state.gameId);
+
+    const hash = await encodeFullState(state, state.player2.id, { secrets });
+    const newChecksum = await chainChecksum(state.checksum, { player: 1, cellIndex: 4, mark: 'X', turn: 1 });
+    const delta = await createDelta(state.gameId, 4, 'X', 1, 1, state.checksum, newChecksum, { secrets });
+
+    expect((await decodeFullState(hash, { secrets })).state).toEqual(state);
+    expect((await applyDelta(state, delta, { secrets })).checksum).toBe(newChecksum);
+    await expect(encodeFullState(state, state.player2.id)).rejects.toThrow('No secret stored for this game');
+    expect(localStorage.length).toBe(0);
+  });
+});
+
+describe('CachedStorageAdapter', () => {
+  it('should load every entry and write changes back in order', async () => {
+    const backing = new InMemoryStorageAdapter();
+    backing.setItem('a', '1');
+    backing.setItem('b', '2');
+
+    const cached = await CachedStorageAdapter.load(toAsyncStorageAdapter(backing));
+    cached.setItem('c', '3');
+    cached.setItem('a', '4');
+    cached.removeItem('b');
+
+    expect(cached.getItem('a')).toBe('4');
+    expect(cached.keys().sort()).toEqual(['a', 'c']);
+    await cached.flush();
+    expect(backing.keys().sort()).toEqual(['a', 'c']);
+    expect(backing.getItem('a')).toBe('4');
+  });
+
+  it('should report backend failures on flush', async () => {
+    const failing: AsyncStorageAdapter = {
+      ...toAsyncStorageAdapter(new InMemoryStorageAdapter()),
+      setItem: async () => {
+        throw new Error('disk full');
+      },
+    };
+    const cached = await CachedStorageAdapter.load(failing);
+
+    cached.setItem('a', '1');
+
+    await expect(cached.flush()).rejects.toThrow('disk full');
+    await expect(cached.flush()).resolves.toBeUndefined();
+    expect(cached.getItem('a')).toBe('1');
+  });
+});
@@ -1,5 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { calculateBoardChecksum } from '../src/lib/tic-tac-toe-checksum';
+import { GameEngine } from '../src/lib/game-engine';
+import { ticTacToeDefinition } from '../src/lib/tic-tac-toe-definition';
 import type { TicTacToeGameState, Board } from '../src/lib/tic-tac-toe-schema';
 
 describe('calculateBoardChecksum', () => {
@@ -9,8 +11,8 @@ describe('calculateBoardChecksum', () => {
       board: ['X', 'O', null, null, 'X', null, null, null, null] as Board,
       currentTurn: 3,
       currentPlayer: 2,
-      player1Name: 'Alice',
-      player2Name: 'Bob',
+      player1: { id: 'player-1', name: 'Alice' },
+      player2: { id: 'player-2', name: 'Bob' },
       status: 'playing',
       checksum: '',
     };
@@ -27,8 +29,8 @@ describe('calculateBoardChecksum', () => {
       board: ['X', 'O', null, null, 'X', null, null, null, null] as Board,
       currentTurn: 3,
       currentPlayer: 2,
-      player1Name: 'Alice',
-      player2Name: 'Bob',
+      player1: { id: 'player-1', name: 'Alice' },
+      player2: { id: 'player-2', name: 'Bob' },
       status: 'playing',
       checksum: '',
     };
@@ -38,8 +40,8 @@ describe('calculateBoardChecksum', () => {
       board: ['X', 'O', 'O', null, 'X', null, null, null, null] as Board, // Different board
       currentTurn: 4,
       currentPlayer: 1,
-      player1Name: 'Alice',
-      player2Name: 'Bob',
+      player1: { id: 'player-1', name: 'Alice' },
+      player2: { id: 'player-2', name: 'Bob' },
       status: 'playing',
       checksum: '',
     };
@@ -56,8 +58,8 @@ describe('calculateBoardChecksum', () => {
       board: Array(9).fill(null) as Board,
       currentTurn: 0,
       currentPlayer: 1,
-      player1Name: 'Alice',
-      player2Name: '',
+      player1: { id: 'player-1', name: 'Alice' },
+      player2: { id: '', name: '' },
       status: 'playing',
       checksum: '',
     };
@@ -74,8 +76,8 @@ describe('calculateBoardChecksum', () => {
       board: ['X', 'X', 'O', 'O', 'X', null, null, null, null] as Board,
       currentTurn: 5,
       currentPlayer: 1,
-      player1Name: 'Player1',
-      player2Name: 'Player2',
+      player1: { id: 'player-1', name: 'Player1' },
+      player2: { id: 'player-2', name: 'Player2' },
       status: 'playing',
       checksum: '',
     };
@@ -96,15 +98,15 @@ describe('calculateBoardChecksum', () => {
       board: ['X', null, null, null, null, null, null, null, null] as Board,
       currentTurn: 1,
       currentPlayer: 2,
-      player1Name: 'Alice',
-      player2Name: 'Bob',
+      player1: { id: 'player-1', name: 'Alice' },
+      player2: { id: 'player-2', name: 'Bob' },
       status: 'playing',
       checksum: '',
     };
 
     const state2: TicTacToeGameState = {
       ...state1,
-      player2Name: 'Charlie', // Different player name
+      player2: { ...state1.player2, name: 'Charlie' }, // Different player name
     };
 
     const checksum1 = await calculateBoardChecksum(state1);
@@ -119,8 +121,8 @@ describe('calculateBoardChecksum', () => {
       board: ['X', 'X', 'X', 'O', 'O', null, null, null, null] as Board,
       currentTurn: 5,
       currentPlayer: 1,
-      player1Name: 'Alice',
-      player2Name: 'Bob',
+      player1: { id: 'player-1', name: 'Alice' },
+      player2: { id: 'player-2', name: 'Bob' },
       status: 'playing',
       checksum: '',
     };
@@ -135,4 +137,52 @@ describe('calculateBoardChecksum', () => {
 
     expect(checksum1).not.toBe(checksum2);
   });
+
+  it('should change checksum when a player identity changes', async () => {
+    const state: TicTacToeGameState = {
+      gameId: 'test-game-123',
+      board: ['X', null, null, null, null, null, null, null, null] as Board,
+      currentTurn: 1,
+      currentPlayer: 2,
+      player1: { id: 'player-1', name: 'Alice' },
+      player2: { id: 'player-2', name: 'Bob' },
+      status: 'playing',
+      checksum: '',
+    };
+
+    const original = await calculateBoardChecksum(state);
+    const newId = await calculateBoardChecksum({ ...state, player1: { ...state.player1, id: 'someone-else' } });
+    const newKey = await calculateBoardChecksum({ ...state, player2: { ...state.player2, publicKey: 'a-key' } });
+
+    expect(newId).not.toBe(original);
+    expect(newKey).not.toBe(original);
+  });
+
+  it('should not depend on key order and match the engine checksum', async () => {
+    const state: TicTacToeGameState = {
+      gameId: 'test-game-123',
+      board: ['X', null, null, null, null, null, null, null, null] as Board,
+      currentTurn: 1,
+      currentPlayer: 2,
+      player1: { id: 'player-1', name: 'Alice' },
+      player2: { id: 'player-2', name: 'Bob' },
+      status: 'playing',
+      checksum: '',
+    };
+    const reordered: TicTacToeGameState = {
+      checksum: '',
+      status: 'playing',
+      player2: { name: 'Bob', id: 'player-2' },
+      player1: { name: 'Alice', id: 'player-1' },
+      currentPlayer: 2,
+      currentTurn: 1,
+      board: state.board,
+      gameId: 'test-game-123',
+    };
+
+    const checksum = await calculateBoardChecksum(state);
+
+    expect(await calculateBoardChecksum(reordered)).toBe(checksum);
+    expect(await new GameEngine(ticTacToeDefinition).calculateChecksum(state)).toBe(checksum);
+  });
 });
@@ -1,4 +1,4 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeEach } from 'vitest';
 import {
   createDelta,
   encodeDelta,
@@ -6,8 +6,16 @@ import {
   applyDelta,
   type TicTacToeDelta,
 } from '../src/lib/tic-tac-toe-delta';
-import { calculateChecksum } from '../src/lib/checksum';
+import { chainChecksum } from '../src/lib/checksum';
 import type { Board } from '../src/lib/tic-tac-toe-schema';
+import { GameSecretStorage } from '../src/lib/game-secret';
+
+// The deltas below are made by the browser that holds each game's secret
+beforeEach(() => {
+  const secrets = new GameSecretStorage();
+  secrets.getOrCreateSecret('game-123');
+  secrets.getOrCreateSecret('game-456');
+});
 
 describe('createDelta', () => {
   it('should create delta with move and checksums', async () => {
@@ -135,30 +143,27 @@ describe('decodeDelta', () => {
 });
 
 describe('applyDelta', () => {
+  const START = 'a'.repeat(64);
+
   it('should apply valid delta to board', async () => {
     const currentBoard: Board = ['X', null, null, null, null, null, null, null, null];
-    const currentChecksum = await calculateChecksum(JSON.stringify(currentBoard));
+    const newChecksum = await chainChecksum(START, { player: 2, cellIndex: 1, mark: 'O', turn: 2 });
 
-    const newBoard: Board = ['X', 'O', null, null, null, null, null, null, null];
-    const newChecksum = await calculateChecksum(JSON.stringify(newBoard));
+    const delta = await createDelta('game-123', 1, 'O', 2, 2, START, newChecksum);
 
-    const delta = await createDelta('game-123', 1, 'O', 2, 2, currentChecksum, newChecksum);
+    const result = await applyDelta({ board: currentBoard, checksum: START }, delta);
 
-    const result = await applyDelta(currentBoard, delta);
-
-    expect(result[0]).toBe('X');
-    expect(result[1]).toBe('O');
-    expect(result.slice(2)).toEqual(Array(7).fill(null));
+    expect(result.board[0]).toBe('X');
+    expect(result.board[1]).toBe('O');
+    expect(result.board.slice(2)).toEqual(Array(7).fill(null));
+    expect(result.checksum).toBe(newChecksum);
   });
 
   it('should reject delta with tampered HMAC', async () => {
     const currentBoard: Board = ['X', null, null, null, null, null, null, null, null];
-    const currentChecksum = await calculateChecksum(JSON.stringify(currentBoard));
-
-    const newBoard: Board = ['X', 'O', null, null, null, null, null, null, null];
-    const newChecksum = await calculateChecksum(JSON.stringify(newBoard));
+    const newChecksum = await chainChecksum(START, { player: 2, cellIndex: 1, mark: 'O', turn: 2 });
 
-    const delta = await createDelta('game-123', 1, 'O', 2, 2, currentChecksum, newChecksum);
+    const delta = await createDelta('game-123', 1, 'O', 2, 2, START, newChecksum);
 
     // Tamper with HMAC
     const tamperedDelta: TicTacToeDelta = {
@@ -166,66 +171,58 @@ describe('applyDelta', () => {
       hmac: 'tampered-hmac-value-123456789',
     };
 
-    await expect(applyDelta(currentBoard, tamperedDelta)).rejects.toThrow('URL has been tampered with');
+    await expect(applyDelta({ board: currentBoard, checksum: START }, tamperedDelta)).rejects.toThrow(
+      'URL has been tampered with'
+    );
   });
 
   it('should reject delta with wrong prevChecksum', async () => {
     const currentBoard: Board = ['X', 'O', null, null, null, null, null, null, null];
-    const actualChecksum = await calculateChecksum(JSON.stringify(currentBoard));
-
-    const newBoard: Board = ['X', 'O', 'X', null, null, null, null, null, null];
-    const newChecksum = await calculateChecksum(JSON.stringify(newBoard));
+    const newChecksum = await chainChecksum('wrong-prev-checksum', { player: 1, cellIndex: 2, mark: 'X', turn: 3 });
 
     // Delta expects different previous state
     const delta = await createDelta('game-123', 2, 'X', 1, 3, 'wrong-prev-checksum', newChecksum);
 
-    await expect(applyDelta(currentBoard, delta)).rejects.toThrow('Board state mismatch');
+    await expect(applyDelta({ board: currentBoard, checksum: START }, delta)).rejects.toThrow('Board state mismatch');
   });
 
   it('should reject delta when result checksum does not match', async () => {
     const currentBoard: Board = ['X', null, null, null, null, null, null, null, null];
-    const currentChecksum = await calculateChecksum(JSON.stringify(currentBoard));
 
     // Delta claims wrong result checksum
-    const delta = await createDelta('game-123', 1, 'O', 2, 2, currentChecksum, 'wrong-new-checksum');
+    const delta = await createDelta('game-123', 1, 'O', 2, 2, START, 'wrong-new-checksum');
 
-    await expect(applyDelta(currentBoard, delta)).rejects.toThrow('Move application failed');
+    await expect(applyDelta({ board: currentBoard, checksum: START }, delta)).rejects.toThrow(
+      'Move application failed'
+    );
   });
 
   it('should reject delta on occupied cell', async () => {
     const currentBoard: Board = ['X', 'O', null, null, null, null, null, null, null];
-    const currentChecksum = await calculateChecksum(JSON.stringify(currentBoard));
     const fakeNewChecksum = 'fake-checksum';
 
     // Try to place X on already occupied cell 1
-    const delta = await createDelta('game-123', 1, 'X', 1, 3, currentChecksum, fakeNewChecksum);
+    const delta = await createDelta('game-123', 1, 'X', 1, 3, START, fakeNewChecksum);
 
-    await expect(applyDelta(currentBoard, delta)).rejects.toThrow('already occupied');
+    await expect(applyDelta({ board: currentBoard, checksum: START }, delta)).rejects.toThrow('already occupied');
   });
 
   it('should handle multiple consecutive deltas', async () => {
-    let board: Board = Array(9).fill(null) as Board;
+    let state = { board: Array(9).fill(null) as Board, checksum: START };
     const gameId = 'game-123';
 
     // Turn 1: X at position 0
-    const prevChecksum1 = await calculateChecksum(JSON.stringify(board));
-    const newBoard1: Board = [...board];
-    newBoard1[0] = 'X';
-    const newChecksum1 = await calculateChecksum(JSON.stringify(newBoard1));
-
-    const delta1 = await createDelta(gameId, 0, 'X', 1, 1, prevChecksum1, newChecksum1);
-    board = await applyDelta(board, delta1);
-    expect(board[0]).toBe('X');
+    const newChecksum1 = await chainChecksum(state.checksum, { player: 1, cellIndex: 0, mark: 'X', turn: 1 });
+    const delta1 = await createDelta(gameId, 0, 'X', 1, 1, state.checksum, newChecksum1);
+    state = await applyDelta(state, delta1);
+    expect(state.board[0]).toBe('X');
 
     // Turn 2: O at position 4
-    const prevChecksum2 = await calculateChecksum(JSON.stringify(board));
-    const newBoard2: Board = [...board];
-    newBoard2[4] = 'O';
-    const newChecksum2 = await calculateChecksum(JSON.stringify(newBoard2));
-
-    const delta2 = await createDelta(gameId, 4, 'O', 2, 2, prevChecksum2, newChecksum2);
-    board = await applyDelta(board, delta2);
-    expect(board[0]).toBe('X');
-    expect(board[4]).toBe('O');
+    const newChecksum2 = await chainChecksum(state.checksum, { player: 2, cellIndex: 4, mark: 'O', turn: 2 });
+    const delta2 = await createDelta(gameId, 4, 'O', 2, 2, state.checksum, newChecksum2);
+    state = await applyDelta(state, delta2);
+    expect(state.board[0]).toBe('X');
+    expect(state.board[4]).toBe('O');
+    expect(state.checksum).toBe(newChecksum2);
   });
 });
@@ -3,9 +3,10 @@ import {
   checkWinner,
   checkDraw,
   calculateGameStatus,
+  validateGameState,
   type WinResult,
 } from '../src/lib/tic-tac-toe-game-logic';
-import type { Board } from '../src/lib/tic-tac-toe-schema';
+import type { Board, TicTacToeGameState } from '../src/lib/tic-tac-toe-schema';
 
 describe('checkWinner', () => {
   it('should detect top row win (X)', () => {
@@ -255,3 +256,61 @@ describe('calculateGameStatus', () => {
     expect(status).toBe('player1_wins'); // Win takes precedence
   });
 });
+
+describe('validateGameState', () => {
+  function stateWith(board: Board, overrides: Partial<TicTacToeGameState> = {}): TicTacToeGameState {
+    const marks = board.filter(cell => cell !== null).length;
+    return {
+      gameId: crypto.randomUUID(),
+      board,
+      currentTurn: marks,
+      currentPlayer: marks % 2 === 0 ? 1 : 2,
+      player1: { id: crypto.randomUUID(), name: 'Alice' },
+      player2: { id: crypto.randomUUID(), name: 'Bob' },
+      status: calculateGameStatus(board),
+      checksum: 'a'.repeat(64),
+      ...overrides,
+    };
+  }
+
+  it('should accept consistent states', () => {
+    expect(validateGameState(stateWith(Array(9).fill(null) as Board))).toEqual([]);
+    expect(validateGameState(stateWith(['X', 'X', 'X', 'O', 'O', null, null, null, null]))).toEqual([]);
+    expect(validateGameState(stateWith(['X', 'O', 'X', 'X', 'X', 'O', 'O', 'X', 'O']))).toEqual([]);
+  });
+
+  it('should reject impossible mark counts', () => {
+    const board: Board = ['X', 'X', null, 'X', null, null, null, null, null];
+
+    expect(validateGameState(stateWith(board))).toEqual(['Board has 3 X and 0 O marks']);
+  });
+
+  it('should reject a turn counter or player that disagrees with the board', () => {
+    const board: Board = ['X', 'O', null, null, null, null, null, null, null];
+
+    expect(validateGameState(stateWith(board, { currentTurn: 5, currentPlayer: 2 }))).toEqual([
+      'currentTurn is 5 but the board has 2 marks',
+      'currentPlayer is 2 but player 1 is to move',
+    ]);
+  });
+
+  it('should reject boards with two winners', () => {
+    const board: Board = ['X', 'X', 'X', 'O', 'O', 'O', null, null, null];
+
+    expect(validateGameState(stateWith(board))).toEqual(['Both players have a winning line']);
+  });
+
+  it('should reject moves made after the game was won', () => {
+    const board: Board = ['O', 'O', 'O', 'X', 'X', null, 'X', null, 'X'];
+
+    expect(validateGameState(stateWith(board))).toContain('O won, but X moved after the winning move');
+  });
+
+  it('should reject a status that disagrees with the board', () => {
+    const board: Board = ['X', 'X', 'X', 'O', 'O', null, null, null, null];
+
+    expect(validateGameState(stateWith(board, { status: 'playing' }))).toEqual([
+      "status is 'playing' but the board is 'player1_wins'",
+    ]);
+  });
+});
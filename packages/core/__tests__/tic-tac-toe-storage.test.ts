@@ -1,6 +1,9 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { StorageQuotaError } from '../src/lib/errors';
+import { InMemoryStorageAdapter } from '../src/lib/storage-adapter';
 import { TicTacToeStorage } from '../src/lib/tic-tac-toe-storage';
 import type { TicTacToeGameState, Board } from '../src/lib/tic-tac-toe-schema';
+import { createTestGameState } from './test-helpers';
 
 describe('TicTacToeStorage', () => {
   let storage: TicTacToeStorage;
@@ -132,4 +135,97 @@ describe('TicTacToeStorage', () => {
     expect(loaded?.board[4]).toBe('O');
     expect(loaded?.board[5]).toBeNull();
   });
+
+  it('should refuse to rewind a game to an older turn', () => {
+    const gameId = crypto.randomUUID();
+    const base: TicTacToeGameState = {
+      gameId,
+      board: ['X', 'O', null, null, null, null, null, null, null] as Board,
+      currentTurn: 2,
+      currentPlayer: 1,
+      player1: { id: crypto.randomUUID(), name: 'Alice' },
+      player2: { id: crypto.randomUUID(), name: 'Bob' },
+      status: 'playing',
+      checksum: 'a'.repeat(64),
+    };
+    const newer = { ...base, currentTurn: 4, checksum: 'b'.repeat(64) };
+
+    expect(storage.saveGameState(newer)).toEqual({ status: 'new' });
+    expect(storage.saveGameState(base)).toEqual({ status: 'stale', turn: 2, latestTurn: 4 });
+    expect(storage.loadGameState()).toEqual(newer);
+  });
+
+  it('should throw StorageQuotaError when localStorage is full', () => {
+    const adapter = new InMemoryStorageAdapter();
+    const full = new TicTacToeStorage(adapter);
+    vi.spyOn(adapter, 'setItem').mockImplementation(() => {
+      throw new DOMException('Quota exceeded', 'QuotaExceededError');
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(() => full.saveGameState(createTestGameState())).toThrow(StorageQuotaError);
+    expect(full.listGames()).toEqual([]);
+    vi.restoreAllMocks();
+  });
+
+  it('should keep games from different opponents side by side', () => {
+    const first = createTestGameState({ currentTurn: 1, currentPlayer: 2 });
+    const second = createTestGameState({ player2: { id: crypto.randomUUID(), name: 'Carol' } });
+
+    storage.saveGameState(first);
+    expect(storage.hasGame(second.gameId)).toBe(false);
+    storage.saveGameState(second);
+
+    expect(storage.getCurrentGameId()).toBe(second.gameId);
+    expect(storage.loadGameState(first.gameId)).toEqual(first);
+    expect(storage.loadGameState()).toEqual(second);
+    expect(storage.setCurrentGame(first.gameId)).toBe(true);
+    expect(storage.loadGameState()).toEqual(first);
+    expect(storage.setCurrentGame(crypto.randomUUID())).toBe(false);
+  });
+
+  it('should list active and finished games, most recent first', () => {
+    vi.useFakeTimers();
+    const finished = createTestGameState({ status: 'draw', currentTurn: 9 });
+    const older = createTestGameState();
+    const newer = createTestGameState({ currentTurn: 2 });
+
+    vi.setSystemTime(1000);
+    storage.saveGameState(older);
+    vi.setSystemTime(2000);
+    storage.saveGameState(finished);
+    vi.setSystemTime(3000);
+    storage.saveGameState(newer);
+    vi.useRealTimers();
+
+    expect(storage.listGames().map((game) => game.gameId)).toEqual([newer.gameId, finished.gameId, older.gameId]);
+    expect(storage.listGames('active').map((game) => game.gameId)).toEqual([newer.gameId, older.gameId]);
+    expect(storage.listGames('finished')).toEqual([
+      { gameId: finished.gameId, status: 'draw', currentTurn: 9, updatedAt: 2000 },
+    ]);
+  });
+
+  it('should delete one game and leave the others', () => {
+    const first = createTestGameState();
+    const second = createTestGameState();
+    storage.saveGameState(first);
+    storage.saveGameState(second);
+
+    storage.deleteGame(second.gameId);
+
+    expect(storage.loadGameState(second.gameId)).toBeNull();
+    expect(storage.getCurrentGameId()).toBeNull();
+    expect(storage.loadGameState(first.gameId)).toEqual(first);
+    expect(storage.listGames().map((game) => game.gameId)).toEqual([first.gameId]);
+  });
+
+  it('should migrate a game saved under the single-game key', () => {
+    const state = createTestGameState();
+    localStorage.setItem('correspondence-games:tic-tac-toe-state', JSON.stringify(state));
+
+    expect(storage.loadGameState()).toEqual(state);
+    expect(storage.loadGameState(state.gameId)).toEqual(state);
+    expect(localStorage.getItem('correspondence-games:tic-tac-toe-state')).toBeNull();
+    expect(storage.listGames()).toHaveLength(1);
+  });
 });
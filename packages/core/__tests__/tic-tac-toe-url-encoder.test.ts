@@ -1,9 +1,11 @@
 import { describe, it, expect } from 'vitest';
 import { encodeFullState, decodeFullState } from '../src/lib/tic-tac-toe-url-encoder';
 import type { TicTacToeGameState, Board } from '../src/lib/tic-tac-toe-schema';
+import { GameSecretStorage, generateGameSecret } from '../src/lib/game-secret';
+import { encodeEnvelope, readEnvelope } from '../src/lib/url-envelope';
 
 describe('encodeFullState', () => {
-  it('should encode game state to hash fragment', () => {
+  it('should encode game state to hash fragment', async () => {
     const player1Id = crypto.randomUUID();
     const player2Id = crypto.randomUUID();
     const state: TicTacToeGameState = {
@@ -17,13 +19,14 @@ describe('encodeFullState', () => {
       checksum: 'a'.repeat(64),
     };
 
-    const hashFragment = encodeFullState(state, player2Id);
+    new GameSecretStorage().getOrCreateSecret(state.gameId);
+    const hashFragment = await encodeFullState(state, player2Id);
 
     expect(hashFragment).toMatch(/^#s=/);
     expect(hashFragment.length).toBeLessThan(2000);
   });
 
-  it('should encode with targetPlayer=1', () => {
+  it('should encode with targetPlayer=1', async () => {
     const state: TicTacToeGameState = {
       gameId: crypto.randomUUID(),
       board: Array(9).fill(null) as Board,
@@ -35,14 +38,15 @@ describe('encodeFullState', () => {
       checksum: 'b'.repeat(64),
     };
 
-    const hash = encodeFullState(state, state.player1.id);
+    new GameSecretStorage().getOrCreateSecret(state.gameId);
+    const hash = await encodeFullState(state, state.player1.id);
 
     expect(hash).toMatch(/^#s=.+$/);
     expect(hash).not.toContain('&p='); // No visible player parameter
     expect(hash).not.toContain('targetPlayer'); // Not visible in URL
   });
 
-  it('should encode with targetPlayer=2', () => {
+  it('should encode with targetPlayer=2', async () => {
     const state: TicTacToeGameState = {
       gameId: crypto.randomUUID(),
       board: ['X', 'O', null, null, 'X', null, null, null, null] as Board,
@@ -54,14 +58,15 @@ describe('encodeFullState', () => {
       checksum: 'c'.repeat(64),
     };
 
-    const hash = encodeFullState(state, state.player2.id);
+    new GameSecretStorage().getOrCreateSecret(state.gameId);
+    const hash = await encodeFullState(state, state.player2.id);
 
     expect(hash).toMatch(/^#s=.+$/);
     expect(hash).not.toContain('&p=');
     expect(hash).not.toContain('targetPlayer');
   });
 
-  it('should produce valid compressed hash fragment', () => {
+  it('should produce valid compressed hash fragment', async () => {
     const state: TicTacToeGameState = {
       gameId: crypto.randomUUID(),
       board: ['X', 'X', 'O', 'O', 'X', null, null, null, null] as Board,
@@ -73,7 +78,8 @@ describe('encodeFullState', () => {
       checksum: 'd'.repeat(64),
     };
 
-    const hashFragment = encodeFullState(state, state.player2.id);
+    new GameSecretStorage().getOrCreateSecret(state.gameId);
+    const hashFragment = await encodeFullState(state, state.player2.id);
 
     // Should be a hash fragment
     expect(hashFragment).toMatch(/^#s=/);
@@ -85,13 +91,13 @@ describe('encodeFullState', () => {
 });
 
 describe('decodeFullState', () => {
-  it('should throw error on invalid hash fragment', () => {
+  it('should throw error on invalid hash fragment', async () => {
     const invalidHash = '#s=invalid!!!';
 
-    expect(() => decodeFullState(invalidHash)).toThrow('Failed to decompress hash fragment');
+    await expect(decodeFullState(invalidHash)).rejects.toThrow('Failed to decompress hash fragment');
   });
 
-  it('should round-trip game state through encoding and decoding', () => {
+  it('should round-trip game state through encoding and decoding', async () => {
     const original: TicTacToeGameState = {
       gameId: crypto.randomUUID(),
       board: ['X', 'O', 'X', null, null, null, null, null, null] as Board,
@@ -103,14 +109,15 @@ describe('decodeFullState', () => {
       checksum: 'e'.repeat(64),
     };
 
-    const encoded = encodeFullState(original, original.player1.id);
-    const { state: decoded, targetPlayerId } = decodeFullState(encoded);
+    new GameSecretStorage().getOrCreateSecret(original.gameId);
+    const encoded = await encodeFullState(original, original.player1.id);
+    const { state: decoded, targetPlayerId } = await decodeFullState(encoded);
 
     expect(decoded).toEqual(original);
     expect(targetPlayerId).toBe(original.player1.id);
   });
 
-  it('should decode and extract targetPlayer=1', () => {
+  it('should decode and extract targetPlayer=1', async () => {
     const state: TicTacToeGameState = {
       gameId: crypto.randomUUID(),
       board: ['X', null, null, null, 'O', null, null, null, null] as Board,
@@ -122,33 +129,35 @@ describe('decodeFullState', () => {
       checksum: 'f'.repeat(64),
     };
 
-    const hash = encodeFullState(state, state.player1.id);
-    const { state: decoded, targetPlayerId } = decodeFullState(hash);
+    new GameSecretStorage().getOrCreateSecret(state.gameId);
+    const hash = await encodeFullState(state, state.player1.id);
+    const { state: decoded, targetPlayerId } = await decodeFullState(hash);
 
     expect(decoded).toEqual(state);
     expect(targetPlayerId).toBe(state.player1.id);
   });
 
-  it('should decode and extract targetPlayer=2', () => {
+  it('should decode and extract targetPlayer=2', async () => {
     const state: TicTacToeGameState = {
       gameId: crypto.randomUUID(),
       board: ['X', 'O', null, 'X', null, null, null, null, null] as Board,
       currentTurn: 3,
-      currentPlayer: 1,
+      currentPlayer: 2,
       player1: { id: crypto.randomUUID(), name: 'Player1' },
       player2: { id: crypto.randomUUID(), name: 'Player2' },
       status: 'playing',
       checksum: 'g'.repeat(64),
     };
 
-    const hash = encodeFullState(state, state.player2.id);
-    const { state: decoded, targetPlayerId } = decodeFullState(hash);
+    new GameSecretStorage().getOrCreateSecret(state.gameId);
+    const hash = await encodeFullState(state, state.player2.id);
+    const { state: decoded, targetPlayerId } = await decodeFullState(hash);
 
     expect(decoded).toEqual(state);
     expect(targetPlayerId).toBe(state.player2.id);
   });
 
-  it('should handle game with empty player2Name', () => {
+  it('should handle game with empty player2Name', async () => {
     const state: TicTacToeGameState = {
       gameId: crypto.randomUUID(),
       board: Array(9).fill(null) as Board,
@@ -160,14 +169,15 @@ describe('decodeFullState', () => {
       checksum: 'h'.repeat(64),
     };
 
-    const hash = encodeFullState(state, state.player2.id);
-    const { state: decoded, targetPlayerId } = decodeFullState(hash);
+    new GameSecretStorage().getOrCreateSecret(state.gameId);
+    const hash = await encodeFullState(state, state.player2.id);
+    const { state: decoded, targetPlayerId } = await decodeFullState(hash);
 
     expect(decoded.player2.name).toBe('');
     expect(targetPlayerId).toBe(state.player2.id);
   });
 
-  it('should handle game in progress with multiple moves', () => {
+  it('should handle game in progress with multiple moves', async () => {
     const state: TicTacToeGameState = {
       gameId: crypto.randomUUID(),
       board: ['X', 'O', 'X', 'O', 'X', null, null, null, null] as Board,
@@ -179,15 +189,16 @@ describe('decodeFullState', () => {
       checksum: 'i'.repeat(64),
     };
 
-    const encoded = encodeFullState(state, state.player2.id);
-    const { state: decoded } = decodeFullState(encoded);
+    new GameSecretStorage().getOrCreateSecret(state.gameId);
+    const encoded = await encodeFullState(state, state.player2.id);
+    const { state: decoded } = await decodeFullState(encoded);
 
     expect(decoded.board).toEqual(state.board);
     expect(decoded.currentTurn).toBe(5);
     expect(decoded.currentPlayer).toBe(2);
   });
 
-  it('should handle game with win status', () => {
+  it('should handle game with win status', async () => {
     const state: TicTacToeGameState = {
       gameId: crypto.randomUUID(),
       board: ['X', 'X', 'X', 'O', 'O', null, null, null, null] as Board,
@@ -199,29 +210,144 @@ describe('decodeFullState', () => {
       checksum: 'j'.repeat(64),
     };
 
-    const encoded = encodeFullState(state, state.player2.id);
-    const { state: decoded } = decodeFullState(encoded);
+    new GameSecretStorage().getOrCreateSecret(state.gameId);
+    const encoded = await encodeFullState(state, state.player2.id);
+    const { state: decoded } = await decodeFullState(encoded);
 
     expect(decoded.status).toBe('player1_wins');
     expect(decoded.board).toEqual(state.board);
   });
 
-  it('should handle game with draw status', () => {
+  it('should handle game with draw status', async () => {
     const state: TicTacToeGameState = {
       gameId: crypto.randomUUID(),
       board: ['X', 'O', 'X', 'X', 'X', 'O', 'O', 'X', 'O'] as Board,
       currentTurn: 9,
-      currentPlayer: 1,
+      currentPlayer: 2,
       player1: { id: crypto.randomUUID(), name: 'Alice' },
       player2: { id: crypto.randomUUID(), name: 'Bob' },
       status: 'draw',
       checksum: 'k'.repeat(64),
     };
 
-    const encoded = encodeFullState(state, state.player1.id);
-    const { state: decoded } = decodeFullState(encoded);
+    new GameSecretStorage().getOrCreateSecret(state.gameId);
+    const encoded = await encodeFullState(state, state.player1.id);
+    const { state: decoded } = await decodeFullState(encoded);
 
     expect(decoded.status).toBe('draw');
     expect(decoded.board.every(cell => cell !== null)).toBe(true);
   });
+
+  it('should deliver the game secret through the invite link', async () => {
+    const secrets = new GameSecretStorage();
+    const state: TicTacToeGameState = {
+      gameId: crypto.randomUUID(),
+      board: ['X', null, null, null, null, null, null, null, null] as Board,
+      currentTurn: 1,
+      currentPlayer: 2,
+      player1: { id: crypto.randomUUID(), name: 'Alice' },
+      player2: { id: crypto.randomUUID(), name: '' },
+      status: 'playing',
+      checksum: 'a'.repeat(64),
+    };
+
+    secrets.getOrCreateSecret(state.gameId);
+    const invite = await encodeFullState(state, state.player2.id, { includeSecret: true });
+    const secret = secrets.getSecret(state.gameId);
+    secrets.removeSecret(state.gameId);
+
+    await decodeFullState(invite);
+
+    expect(secret).toMatch(/^[0-9a-f]{64}$/);
+    expect(secrets.getSecret(state.gameId)).toBe(secret);
+  });
+
+  it('should not store the secret of an invite its MAC does not match', async () => {
+    const secrets = new GameSecretStorage();
+    const state: TicTacToeGameState = {
+      gameId: crypto.randomUUID(),
+      board: ['X', null, null, null, null, null, null, null, null] as Board,
+      currentTurn: 1,
+      currentPlayer: 2,
+      player1: { id: crypto.randomUUID(), name: 'Alice' },
+      player2: { id: crypto.randomUUID(), name: '' },
+      status: 'playing',
+      checksum: 'a'.repeat(64),
+    };
+    secrets.getOrCreateSecret(state.gameId);
+    const payload = readEnvelope(
+      await encodeFullState(state, state.player2.id, { includeSecret: true }),
+      'full-state',
+      'tic-tac-toe'
+    );
+    secrets.removeSecret(state.gameId);
+    const forged = encodeEnvelope('full-state', 'tic-tac-toe', { ...payload, secret: generateGameSecret() });
+    const { mac, ...unsignedPayload } = payload;
+    const unsigned = encodeEnvelope('full-state', 'tic-tac-toe', unsignedPayload);
+
+    expect(mac).toBeDefined();
+    await expect(decodeFullState(forged)).rejects.toThrow('full state MAC mismatch');
+    await expect(decodeFullState(unsigned)).rejects.toThrow('full state MAC mismatch');
+    expect(secrets.getSecret(state.gameId)).toBeNull();
+  });
+
+  it('should reject a hand-edited full state', async () => {
+    const state: TicTacToeGameState = {
+      gameId: crypto.randomUUID(),
+      board: ['X', 'O', null, null, null, null, null, null, null] as Board,
+      currentTurn: 2,
+      currentPlayer: 1,
+      player1: { id: crypto.randomUUID(), name: 'Alice' },
+      player2: { id: crypto.randomUUID(), name: 'Bob' },
+      status: 'playing',
+      checksum: 'a'.repeat(64),
+    };
+    new GameSecretStorage().getOrCreateSecret(state.gameId);
+    const payload = readEnvelope(await encodeFullState(state, state.player2.id), 'full-state', 'tic-tac-toe');
+    const edited = encodeEnvelope('full-state', 'tic-tac-toe', {
+      ...payload,
+      state: { ...state, status: 'player1_wins' },
+    });
+
+    await expect(decodeFullState(edited)).rejects.toThrow('full state MAC mismatch');
+  });
+
+  it('should refuse unsigned full states once the game has a secret', async () => {
+    const state: TicTacToeGameState = {
+      gameId: crypto.randomUUID(),
+      board: ['X', null, null, null, null, null, null, null, null] as Board,
+      currentTurn: 1,
+      currentPlayer: 2,
+      player1: { id: crypto.randomUUID(), name: 'Alice' },
+      player2: { id: crypto.randomUUID(), name: '' },
+      status: 'playing',
+      checksum: 'a'.repeat(64),
+    };
+    const unsigned = encodeEnvelope('full-state', 'tic-tac-toe', { state, target: { seat: 2 } });
+
+    expect((await decodeFullState(unsigned)).state).toEqual(state);
+
+    new GameSecretStorage().getOrCreateSecret(state.gameId);
+
+    await expect(decodeFullState(unsigned)).rejects.toThrow('not authenticated');
+  });
+
+  it('should reject states that break the rules', async () => {
+    const state: TicTacToeGameState = {
+      gameId: crypto.randomUUID(),
+      board: ['X', 'X', 'X', 'X', 'X', null, null, null, null] as Board,
+      currentTurn: 5,
+      currentPlayer: 2,
+      player1: { id: crypto.randomUUID(), name: 'Alice' },
+      player2: { id: crypto.randomUUID(), name: 'Bob' },
+      status: 'playing',
+      checksum: 'a'.repeat(64),
+    };
+    new GameSecretStorage().getOrCreateSecret(state.gameId);
+    const hash = await encodeFullState(state, state.player2.id);
+
+    await expect(decodeFullState(hash)).rejects.toThrow(
+      "Invalid game state: Board has 5 X and 0 O marks; status is 'playing' but the board is 'player1_wins'"
+    );
+  });
 });
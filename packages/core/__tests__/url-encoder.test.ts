@@ -1,9 +1,10 @@
 import { describe, it, expect } from 'vitest';
 import { encodeFullState, decodeFullState } from '../src/lib/url-encoder';
 import type { EmojiGameState } from '../src/lib/emoji-game-schema';
+import { GameSecretStorage } from '../src/lib/game-secret';
 
 describe('encodeFullState', () => {
-  it('should encode emoji game state to hash fragment', () => {
+  it('should encode emoji game state to hash fragment', async () => {
     const state: EmojiGameState = {
       gameId: 'test-123',
       emojiChain: '🎮',
@@ -14,13 +15,14 @@ describe('encodeFullState', () => {
       checksum: 'abc123',
     };
 
-    const hashFragment = encodeFullState(state, 2);
+    new GameSecretStorage().getOrCreateSecret(state.gameId);
+    const hashFragment = await encodeFullState(state, 2);
 
     expect(hashFragment).toMatch(/^#s=/); // Hash fragment, not query string!
     expect(hashFragment.length).toBeLessThan(2000);
   });
 
-  it('should produce valid compressed hash fragment', () => {
+  it('should produce valid compressed hash fragment', async () => {
     const state: EmojiGameState = {
       gameId: 'test-123',
       emojiChain: '🎮🎯🎲🎪🎨',
@@ -31,7 +33,8 @@ describe('encodeFullState', () => {
       checksum: 'abc123',
     };
 
-    const hashFragment = encodeFullState(state, 2);
+    new GameSecretStorage().getOrCreateSecret(state.gameId);
+    const hashFragment = await encodeFullState(state, 2);
 
     // Should be a hash fragment
     expect(hashFragment).toMatch(/^#s=/);
@@ -43,13 +46,13 @@ describe('encodeFullState', () => {
 });
 
 describe('decodeFullState', () => {
-  it('should throw error on invalid hash fragment', () => {
+  it('should throw error on invalid hash fragment', async () => {
     const invalidHash = '#s=invalid!!!';
 
-    expect(() => decodeFullState(invalidHash)).toThrow('Failed to decompress hash fragment');
+    await expect(decodeFullState(invalidHash)).rejects.toThrow('Failed to decompress hash fragment');
   });
 
-  it('should round-trip emoji state through encoding and decoding', () => {
+  it('should round-trip emoji state through encoding and decoding', async () => {
     const original: EmojiGameState = {
       gameId: crypto.randomUUID(),
       emojiChain: '🎮🎯🎲',
@@ -60,8 +63,9 @@ describe('decodeFullState', () => {
       checksum: 'xyz789',
     };
 
-    const encoded = encodeFullState(original, 1);
-    const { state: decoded, targetPlayer } = decodeFullState(encoded);
+    new GameSecretStorage().getOrCreateSecret(original.gameId);
+    const encoded = await encodeFullState(original, 1);
+    const { state: decoded, targetPlayer } = await decodeFullState(encoded);
 
     expect(decoded).toEqual(original);
     expect(targetPlayer).toBe(1);
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import LZString from 'lz-string';
+import {
+  CURRENT_PROTOCOL_VERSION,
+  decodeEnvelope,
+  encodeEnvelope,
+  readEnvelope,
+} from '../src/lib/url-envelope';
+
+const state = { gameId: 'game-1', currentPlayer: 2, player1: { id: 'p1' }, player2: { id: 'p2' } };
+
+function legacyHash(prefix: 's' | 'd', payload: unknown): string {
+  return `#${prefix}=${LZString.compressToEncodedURIComponent(JSON.stringify(payload))}`;
+}
+
+describe('encodeEnvelope', () => {
+  it('should carry protocol version, game type and kind', () => {
+    const hash = encodeEnvelope('full-state', 'tic-tac-toe', { state, target: { seat: 2 } });
+
+    expect(hash.startsWith(`#s=${CURRENT_PROTOCOL_VERSION}.tic-tac-toe.`)).toBe(true);
+    expect(encodeEnvelope('delta', 'emoji-chain', { delta: {}, target: { seat: 1 } })).toMatch(/^#d=2\.emoji-chain\./);
+  });
+
+  it('should reject game types that would break the envelope', () => {
+    expect(() => encodeEnvelope('delta', 'Tic.Tac', { delta: {}, target: { seat: 1 } })).toThrow('Invalid game type');
+  });
+});
+
+describe('decodeEnvelope', () => {
+  it('should round-trip an envelope', () => {
+    const hash = encodeEnvelope('full-state', 'tic-tac-toe', { state, target: { seat: 2, playerId: 'p2' } });
+
+    expect(decodeEnvelope(hash)).toEqual({
+      ok: true,
+      envelope: {
+        version: CURRENT_PROTOCOL_VERSION,
+        gameType: 'tic-tac-toe',
+        kind: 'full-state',
+        payload: { state, target: { seat: 2, playerId: 'p2' } },
+      },
+    });
+  });
+
+  it('should report links made by a newer version', () => {
+    expect(decodeEnvelope('#s=99.tic-tac-toe.abc')).toEqual({ ok: false, reason: 'newer-version', version: 99 });
+  });
+
+  it('should report versions without a decoder', () => {
+    expect(decodeEnvelope('#d=0.tic-tac-toe.abc')).toEqual({ ok: false, reason: 'unsupported-version', version: 0 });
+  });
+
+  it('should report games this site does not know', () => {
+    const hash = encodeEnvelope('delta', 'chess', { delta: {}, target: { seat: 1 } });
+
+    expect(decodeEnvelope(hash, { gameTypes: ['tic-tac-toe', 'emoji-chain'] })).toEqual({
+      ok: false,
+      reason: 'unknown-game',
+      gameType: 'chess',
+    });
+    expect(decodeEnvelope(hash).ok).toBe(true);
+  });
+
+  it('should report malformed links', () => {
+    expect(decodeEnvelope('#x=abc')).toMatchObject({ ok: false, reason: 'malformed' });
+    expect(decodeEnvelope('#s=two.tic-tac-toe.abc')).toMatchObject({ ok: false, reason: 'malformed' });
+    expect(decodeEnvelope('#s=invalid!!!')).toEqual({
+      ok: false,
+      reason: 'malformed',
+      message: 'Failed to decompress hash fragment',
+    });
+  });
+});
+
+describe('version 1 links', () => {
+  it('should read bare emoji full states, inferring target from currentPlayer', () => {
+    const result = decodeEnvelope(legacyHash('s', state));
+
+    expect(result).toEqual({
+      ok: true,
+      envelope: { version: 1, gameType: null, kind: 'full-state', payload: { state, target: { seat: 2 } } },
+    });
+  });
+
+  it('should read { state, targetPlayer } and { state, targetPlayerId }', () => {
+    expect(readEnvelope(legacyHash('s', { state, targetPlayer: 1 }), 'full-state', 'tic-tac-toe').target)
+      .toEqual({ seat: 1 });
+    expect(readEnvelope(legacyHash('s', { state, targetPlayerId: 'p1' }), 'full-state', 'tic-tac-toe').target)
+      .toEqual({ seat: 1, playerId: 'p1' });
+  });
+
+  it('should read legacy deltas', () => {
+    const delta = { gameId: 'game-1', move: { player: 2 } };
+
+    expect(readEnvelope(legacyHash('d', delta), 'delta', 'emoji-chain').target).toEqual({ seat: 1 });
+    expect(readEnvelope(legacyHash('d', { delta, targetPlayerId: 'p1' }), 'delta', 'emoji-chain').target)
+      .toEqual({ seat: 1, playerId: 'p1' });
+  });
+
+  it('should reject invalid legacy targets', () => {
+    expect(() => readEnvelope(legacyHash('s', { state, targetPlayerId: '' }), 'full-state', 'tic-tac-toe'))
+      .toThrow('Invalid target player ID');
+  });
+});
+
+describe('readEnvelope', () => {
+  it('should throw readable errors for each failure', () => {
+    const chess = encodeEnvelope('full-state', 'chess', { state, target: { seat: 1 } });
+    const delta = encodeEnvelope('delta', 'tic-tac-toe', { delta: {}, target: { seat: 1 } });
+
+    expect(() => readEnvelope('#s=99.tic-tac-toe.abc', 'full-state', 'tic-tac-toe')).toThrow('newer version');
+    expect(() => readEnvelope(chess, 'full-state', 'tic-tac-toe')).toThrow('different game (chess)');
+    expect(() => readEnvelope(delta, 'full-state', 'tic-tac-toe')).toThrow('Expected a full-state link');
+  });
+});
@@ -37,6 +37,39 @@ describe('HotSeatStorage', () => {
     });
   });
 
+  describe('my name', () => {
+    it('should store my name as a versioned record', () => {
+      const storage = new HotSeatStorage();
+
+      storage.setMyName('Alice');
+
+      expect(storage.getMyName()).toBe('Alice');
+      expect(JSON.parse(localStorage.getItem('correspondence-games:my-name')!)).toEqual({
+        schemaVersion: 1,
+        data: 'Alice',
+      });
+    });
+
+    it('should upgrade a name stored as plain text', () => {
+      localStorage.setItem('correspondence-games:my-name', '123');
+
+      expect(new HotSeatStorage().getMyName()).toBe('123');
+      expect(JSON.parse(localStorage.getItem('correspondence-games:my-name')!).data).toBe('123');
+    });
+
+    it('should take my name from the hot-seat player names if none was stored', () => {
+      const storage = new HotSeatStorage();
+      expect(storage.getMyName()).toBeNull();
+
+      storage.setPlayer2Name('Bob');
+      storage.setPlayer1Name('Alice');
+
+      expect(storage.getMyName()).toBe('Alice');
+      storage.setPlayer1Name('Carol');
+      expect(storage.getMyName()).toBe('Alice');
+    });
+  });
+
   describe('game state', () => {
     it('should save and load hot-seat game state', () => {
       const storage = new HotSeatStorage();
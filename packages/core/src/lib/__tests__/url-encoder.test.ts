@@ -1,6 +1,7 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, beforeEach } from 'vitest';
 import { encodeFullState, decodeFullState } from '../url-encoder';
 import type { EmojiGameState } from '../emoji-game-schema';
+import { GameSecretStorage } from '../game-secret';
 
 describe('URL Encoder with Embedded Target Player', () => {
   const sampleState: EmojiGameState = {
@@ -13,26 +14,31 @@ describe('URL Encoder with Embedded Target Player', () => {
     checksum: 'abc123def456',
   };
 
+  beforeEach(() => {
+    // This browser created the game, so it holds the secret
+    new GameSecretStorage().getOrCreateSecret(sampleState.gameId);
+  });
+
   describe('encodeFullState', () => {
-    it('should encode full state with targetPlayer=1', () => {
-      const hash = encodeFullState(sampleState, 1);
+    it('should encode full state with targetPlayer=1', async () => {
+      const hash = await encodeFullState(sampleState, 1);
 
       expect(hash).toMatch(/^#s=.+$/);
       expect(hash).not.toContain('&p='); // No visible player parameter
       expect(hash).not.toContain('targetPlayer'); // Not visible in URL
     });
 
-    it('should encode full state with targetPlayer=2', () => {
-      const hash = encodeFullState(sampleState, 2);
+    it('should encode full state with targetPlayer=2', async () => {
+      const hash = await encodeFullState(sampleState, 2);
 
       expect(hash).toMatch(/^#s=.+$/);
       expect(hash).not.toContain('&p=');
       expect(hash).not.toContain('targetPlayer');
     });
 
-    it('should produce different hashes for different target players', () => {
-      const hash1 = encodeFullState(sampleState, 1);
-      const hash2 = encodeFullState(sampleState, 2);
+    it('should produce different hashes for different target players', async () => {
+      const hash1 = await encodeFullState(sampleState, 1);
+      const hash2 = await encodeFullState(sampleState, 2);
 
       // Different target players should produce different compressed payloads
       expect(hash1).not.toBe(hash2);
@@ -40,40 +46,42 @@ describe('URL Encoder with Embedded Target Player', () => {
   });
 
   describe('decodeFullState', () => {
-    it('should decode full state and extract targetPlayer=1', () => {
-      const hash = encodeFullState(sampleState, 1);
-      const { state, targetPlayer } = decodeFullState(hash);
+    it('should decode full state and extract targetPlayer=1', async () => {
+      const hash = await encodeFullState(sampleState, 1);
+      const { state, targetPlayer } = await decodeFullState(hash);
 
       expect(state).toEqual(sampleState);
       expect(targetPlayer).toBe(1);
     });
 
-    it('should decode full state and extract targetPlayer=2', () => {
-      const hash = encodeFullState(sampleState, 2);
-      const { state, targetPlayer } = decodeFullState(hash);
+    it('should decode full state and extract targetPlayer=2', async () => {
+      const hash = await encodeFullState(sampleState, 2);
+      const { state, targetPlayer } = await decodeFullState(hash);
 
       expect(state).toEqual(sampleState);
       expect(targetPlayer).toBe(2);
     });
 
-    it('should throw error for invalid hash format', () => {
-      expect(() => decodeFullState('#s=invalid')).toThrow();
+    it('should throw error for invalid hash format', async () => {
+      await expect(decodeFullState('#s=invalid')).rejects.toThrow();
     });
 
-    it('should throw error for malformed payload', () => {
-      expect(() => decodeFullState('#s=AAAAinvalid')).toThrow();
+    it('should throw error for malformed payload', async () => {
+      await expect(decodeFullState('#s=AAAAinvalid')).rejects.toThrow();
     });
   });
 
   describe('backward compatibility', () => {
-    it('should handle old URLs without targetPlayer by inferring from currentPlayer', () => {
+    it('should handle old URLs without targetPlayer by inferring from currentPlayer', async () => {
       // Manually create an old-format URL (state only, no targetPlayer wrapper)
       const oldFormatJson = JSON.stringify(sampleState);
       const LZString = require('lz-string');
       const compressed = LZString.compressToEncodedURIComponent(oldFormatJson);
       const oldHash = `#s=${compressed}`;
 
-      const { state, targetPlayer } = decodeFullState(oldHash);
+      // Old links predate game secrets, so the opening browser holds none for the game
+      localStorage.clear();
+      const { state, targetPlayer } = await decodeFullState(oldHash);
 
       expect(state).toEqual(sampleState);
       // Should infer targetPlayer from state.currentPlayer
@@ -82,17 +90,17 @@ describe('URL Encoder with Embedded Target Player', () => {
   });
 
   describe('round-trip encoding', () => {
-    it('should maintain state integrity through encode-decode cycle for player 1', () => {
-      const hash = encodeFullState(sampleState, 1);
-      const { state, targetPlayer } = decodeFullState(hash);
+    it('should maintain state integrity through encode-decode cycle for player 1', async () => {
+      const hash = await encodeFullState(sampleState, 1);
+      const { state, targetPlayer } = await decodeFullState(hash);
 
       expect(state).toEqual(sampleState);
       expect(targetPlayer).toBe(1);
     });
 
-    it('should maintain state integrity through encode-decode cycle for player 2', () => {
-      const hash = encodeFullState(sampleState, 2);
-      const { state, targetPlayer } = decodeFullState(hash);
+    it('should maintain state integrity through encode-decode cycle for player 2', async () => {
+      const hash = await encodeFullState(sampleState, 2);
+      const { state, targetPlayer } = await decodeFullState(hash);
 
       expect(state).toEqual(sampleState);
       expect(targetPlayer).toBe(2);
@@ -0,0 +1,527 @@
+/**
+ * @fileoverview Passphrase-encrypted backup of everything a player keeps on this device
+ *
+ * Identity, names, game secrets and games all live in one browser's storage,
+ * so clearing site data or switching phones loses them. A backup bundles
+ * them into one text blob:
+ *
+ *   `cg-backup.1.<salt>.<ciphertext>`
+ *
+ * The ciphertext is AES-256-GCM under a key derived (PBKDF2-SHA256) from the
+ * passphrase, and the bundle inside is a versioned record (see
+ * record-migrations), so backups made by older versions stay importable.
+ *
+ * Importing merges instead of replacing: a game is only taken from the
+ * backup if this device doesn't have it or has an earlier turn, and anything
+ * that differs at the same point (a game, secret, name or identity) is kept
+ * as it is on this device and reported as a conflict, unless the import is
+ * told to overwrite names or the identity. Move-ledger history and conflict
+ * evidence are not included.
+ */
+
+import { z } from 'zod';
+import { fromBase64Url, toBase64Url } from './base64url';
+import { EmojiGameStateSchema, type EmojiGameState } from './emoji-game-schema';
+import { emojiGameDefinition } from './emoji-game-definition';
+import { InvalidInputError, KeyUnavailableError, isGameError } from './errors';
+import type { BaseGameState, BaseMove, GameDefinition } from './game-definition';
+import { GameSecretStorage, isValidGameSecret } from './game-secret';
+import { GameStorage } from './game-storage';
+import {
+  HotSeatStorage,
+  MY_NAME_KEY,
+  MY_NAME_RECORD,
+  MY_PLAYER_ID_KEY,
+  PLAYER1_NAME_KEY,
+  PLAYER2_NAME_KEY,
+} from './hotseat-storage';
+import { assertValidState } from './move-history';
+import type { LedgerVerdict } from './move-ledger';
+import {
+  IndexedDBIdentityKeyStore,
+  derivePlayerId,
+  exportIdentityKeys,
+  importIdentityKeys,
+  type ExportedIdentityKeys,
+  type IdentityKeyStore,
+} from './player-identity';
+import { PLAYER_NAME_KEY } from './player-storage';
+import { readRecord, writeRecord } from './record-migrations';
+import { LocalStorageAdapter, type StorageAdapter } from './storage-adapter';
+import { ticTacToeDefinition } from './tic-tac-toe-definition';
+import { TicTacToeGameStateSchema } from './tic-tac-toe-schema';
+import { TicTacToeStorage } from './tic-tac-toe-storage';
+
+const BACKUP_PREFIX = 'cg-backup.1.';
+const BACKUP_RECORD = 'backup';
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const PBKDF2_ITERATIONS = 600_000;
+
+// Entries of HotSeatStorage and PlayerStorage. Names are stored already
+// sanitized, so they are copied as-is rather than through the setters.
+const PROFILE_KEYS = {
+  myPlayerId: MY_PLAYER_ID_KEY,
+  myName: MY_NAME_KEY,
+  player1Name: PLAYER1_NAME_KEY,
+  player2Name: PLAYER2_NAME_KEY,
+  playerName: PLAYER_NAME_KEY,
+} as const;
+
+export type ProfileField = keyof typeof PROFILE_KEYS;
+
+function readProfileField(storage: StorageAdapter, field: ProfileField): string | null {
+  // "My name" is a versioned record, upgraded on read (see HotSeatStorage.getMyName)
+  return field === 'myName' ? new HotSeatStorage(storage).getMyName() : storage.getItem(PROFILE_KEYS[field]);
+}
+
+function writeProfileField(storage: StorageAdapter, field: ProfileField, value: string): void {
+  if (field === 'myPlayerId') {
+    // Keeps the replaced ID, which stored games may still name (see HotSeatStorage.setMyPlayerId)
+    new HotSeatStorage(storage).setMyPlayerId(value);
+  } else {
+    storage.setItem(PROFILE_KEYS[field], field === 'myName' ? writeRecord(MY_NAME_RECORD, value) : value);
+  }
+}
+
+const BackupSchema = z.object({
+  createdAt: z.number(),
+  identity: z
+    .object({
+      publicKey: z.string(),
+      privateKey: z.object({
+        kty: z.literal('EC'),
+        crv: z.literal('P-256'),
+        x: z.string(),
+        y: z.string(),
+        d: z.string(),
+      }),
+    })
+    .nullable(),
+  profile: z.object({
+    myPlayerId: z.string().optional(),
+    myName: z.string().optional(),
+    player1Name: z.string().optional(),
+    player2Name: z.string().optional(),
+    playerName: z.string().optional(),
+  }),
+  secrets: z.array(
+    z.object({
+      gameId: z.string(),
+      secret: z.string().refine(isValidGameSecret),
+      fromPassphrase: z.boolean(),
+    })
+  ),
+  // Validated per game on import, so one bad game doesn't stop the rest
+  games: z.array(z.object({ gameType: z.string(), state: z.unknown() })),
+  hotSeatGame: z.unknown(),
+});
+
+type Backup = z.infer<typeof BackupSchema>;
+
+// What exportBackup writes; the JWK is only narrowed by BackupSchema on import
+type BackupContents = Omit<Backup, 'identity'> & { identity: ExportedIdentityKeys | null };
+
+/**
+ * Where a backup is read from and restored to.
+ */
+export interface BackupOptions {
+  /** Storage holding games, names and secrets (defaults to localStorage) */
+  storage?: StorageAdapter;
+  /** Identity key store; null leaves the identity out (defaults to IndexedDB) */
+  identityStore?: IdentityKeyStore | null;
+}
+
+export interface BackupImportOptions extends BackupOptions {
+  /** Replace names and player ID on this device with the backup's instead of reporting them as conflicts */
+  overwriteProfile?: boolean;
+  /**
+   * Replace a different identity key on this device with the backup's
+   * instead of reporting it as a conflict. The replaced player ID stays
+   * recognised as this player's (see HotSeatStorage.isMyPlayerId).
+   */
+  overwriteIdentity?: boolean;
+}
+
+/**
+ * A backup made by exportBackup().
+ */
+export interface BackupExport {
+  /** Encrypted backup text */
+  backup: string;
+  /**
+   * Whether the identity went into the backup. 'not-exportable' means this
+   * device has an identity whose key was created non-exportable, so the
+   * restored device can't sign moves as this player; 'none' means there was
+   * no identity (or no identity store) to include.
+   */
+  identity: 'included' | 'not-exportable' | 'none';
+}
+
+/**
+ * Something the backup and this device disagree on. This device's value is kept.
+ *
+ * - `game`: both have the game at the same turn, but different states
+ * - `hot-seat-game`: both have a hot-seat game in progress, but different games
+ * - `secret`: both have a secret for the game, but different ones
+ * - `profile`: a name or the player ID differs
+ * - `identity`: this device already has a different identity key (and overwriteIdentity is not set)
+ */
+export type BackupConflict =
+  | { kind: 'game'; gameType: string; gameId: string; turn: number }
+  | { kind: 'hot-seat-game'; gameId: string }
+  | { kind: 'secret'; gameId: string }
+  | { kind: 'profile'; field: ProfileField; local: string; backup: string }
+  | { kind: 'identity' };
+
+/**
+ * What importing a backup changed on this device.
+ */
+export interface BackupImportReport {
+  /** Games this device didn't have */
+  added: string[];
+  /** Games the backup had a later turn of */
+  updated: string[];
+  /** Games this device already had at the backup's turn or later */
+  kept: string[];
+  /** Games in the backup that fail their game's schema, or of an unknown game type */
+  invalid: { gameType: string; gameId: string | null }[];
+  /** Whether the backup's identity key was stored on this device */
+  identityRestored: boolean;
+  conflicts: BackupConflict[];
+}
+
+type MergeResult = 'added' | 'updated' | 'kept' | 'conflict';
+
+/**
+ * Derives the AES-GCM key for a backup from its passphrase.
+ */
+async function deriveBackupKey(passphrase: string, salt: Uint8Array<ArrayBuffer>): Promise<CryptoKey> {
+  if (!passphrase) {
+    throw new InvalidInputError('Passphrase cannot be empty');
+  }
+
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations: PBKDF2_ITERATIONS },
+    keyMaterial,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * Compares a stored game with the backup's copy and saves the backup's if it is newer.
+ *
+ * @param save - Saves the backup's copy and returns the ledger verdict
+ */
+function mergeGame(
+  local: { currentTurn: number; checksum: string } | null,
+  incoming: { currentTurn: number; checksum: string },
+  save: () => LedgerVerdict
+): MergeResult {
+  if (local && incoming.currentTurn < local.currentTurn) return 'kept';
+  if (local && incoming.currentTurn === local.currentTurn) {
+    return incoming.checksum === local.checksum ? 'kept' : 'conflict';
+  }
+  // The ledger may still hold a later turn of a game this device deleted
+  if (save().status === 'stale') return 'kept';
+  return local ? 'updated' : 'added';
+}
+
+/**
+ * Runs the checks GameEngine runs on a decoded state (see assertValidState),
+ * so a backup can't restore a game that couldn't have been played.
+ */
+function isValidGame<TState extends BaseGameState, TMove extends BaseMove>(
+  definition: GameDefinition<TState, TMove>,
+  state: TState
+): boolean {
+  try {
+    assertValidState(definition, state);
+    return true;
+  } catch (error) {
+    if (isGameError(error, 'INVALID_STATE')) return false;
+    throw error;
+  }
+}
+
+function recordMerge(
+  report: BackupImportReport,
+  gameType: string,
+  gameId: string,
+  turn: number,
+  result: MergeResult
+): void {
+  if (result === 'conflict') {
+    report.conflicts.push({ kind: 'game', gameType, gameId, turn });
+  } else {
+    report[result].push(gameId);
+  }
+}
+
+/**
+ * Collects everything a player keeps on this device.
+ */
+async function collectBackup(
+  storage: StorageAdapter,
+  identityStore: IdentityKeyStore | null
+): Promise<BackupContents> {
+  const ticTacToe = new TicTacToeStorage(storage);
+  const secrets = new GameSecretStorage(storage);
+
+  const profile: Backup['profile'] = {};
+  for (const field of Object.keys(PROFILE_KEYS) as ProfileField[]) {
+    const value = readProfileField(storage, field);
+    if (value !== null) profile[field] = value;
+  }
+
+  const games: Backup['games'] = [];
+  for (const { gameId } of ticTacToe.listGames()) {
+    const state = ticTacToe.loadGameState(gameId);
+    if (state) games.push({ gameType: ticTacToeDefinition.id, state });
+  }
+  for (const { state } of new GameStorage(storage).listGames()) {
+    games.push({ gameType: emojiGameDefinition.id, state });
+  }
+
+  return {
+    createdAt: Date.now(),
+    identity: identityStore ? await exportIdentityKeys(identityStore) : null,
+    profile,
+    secrets: secrets.listGameIds().flatMap((gameId) => {
+      const secret = secrets.getSecret(gameId);
+      return secret && isValidGameSecret(secret)
+        ? [{ gameId, secret, fromPassphrase: secrets.isPassphraseProtected(gameId) }]
+        : [];
+    }),
+    games,
+    hotSeatGame: new HotSeatStorage(storage).loadHotSeatGame(),
+  };
+}
+
+/**
+ * Exports identity, names, game secrets and every stored game as one
+ * passphrase-encrypted text blob. Save it as a file with
+ * `new Blob([backup], { type: 'text/plain' })` or let the player copy it.
+ *
+ * The identity is only included if its key was created exportable, so apps
+ * offering backups should load it with `PlayerIdentity.load(store, {
+ * exportable: true })`. The result's `identity` says whether it was left out.
+ *
+ * @throws {InvalidInputError} If the passphrase is empty
+ */
+export async function exportBackup(passphrase: string, options: BackupOptions = {}): Promise<BackupExport> {
+  const storage = options.storage ?? new LocalStorageAdapter();
+  const identityStore = options.identityStore === undefined ? new IndexedDBIdentityKeyStore() : options.identityStore;
+  const bundle = await collectBackup(storage, identityStore);
+  const identity: BackupExport['identity'] = bundle.identity
+    ? 'included'
+    : identityStore && (await identityStore.load())
+      ? 'not-exportable'
+      : 'none';
+
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(BACKUP_PREFIX) },
+    await deriveBackupKey(passphrase, salt),
+    new TextEncoder().encode(writeRecord(BACKUP_RECORD, bundle))
+  );
+
+  const sealed = new Uint8Array(IV_BYTES + ciphertext.byteLength);
+  sealed.set(iv);
+  sealed.set(new Uint8Array(ciphertext), IV_BYTES);
+
+  return { backup: `${BACKUP_PREFIX}${toBase64Url(salt)}.${toBase64Url(sealed)}`, identity };
+}
+
+/**
+ * Decrypts and validates a backup without changing anything on this device.
+ *
+ * @throws {InvalidInputError} If the text is not a backup, or was made by a newer version
+ * @throws {KeyUnavailableError} If the passphrase is wrong (or the backup was altered)
+ */
+async function openBackup(text: string, passphrase: string): Promise<Backup> {
+  const trimmed = text.trim();
+  const [saltPart, sealedPart, ...rest] = trimmed.slice(BACKUP_PREFIX.length).split('.');
+  if (!trimmed.startsWith(BACKUP_PREFIX) || !saltPart || !sealedPart || rest.length > 0) {
+    throw new InvalidInputError('Not a correspondence games backup');
+  }
+
+  let salt: Uint8Array<ArrayBuffer>;
+  let sealed: Uint8Array<ArrayBuffer>;
+  try {
+    salt = fromBase64Url(saltPart);
+    sealed = fromBase64Url(sealedPart);
+  } catch {
+    throw new InvalidInputError('Not a correspondence games backup');
+  }
+
+  let plaintext: string;
+  try {
+    const decrypted = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: sealed.slice(0, IV_BYTES), additionalData: new TextEncoder().encode(BACKUP_PREFIX) },
+      await deriveBackupKey(passphrase, salt),
+      sealed.slice(IV_BYTES)
+    );
+    plaintext = new TextDecoder().decode(decrypted);
+  } catch (error) {
+    if (error instanceof InvalidInputError) throw error;
+    throw new KeyUnavailableError('Wrong passphrase, or the backup is damaged', 'wrong-passphrase');
+  }
+
+  const result = readRecord(BACKUP_RECORD, BackupSchema, plaintext);
+  if (!result.ok) {
+    throw new InvalidInputError(
+      result.reason === 'newer-version'
+        ? 'This backup was made by a newer version - update the app to import it'
+        : `Backup contents are invalid: ${result.message}`
+    );
+  }
+  return result.value;
+}
+
+/**
+ * Imports a backup made by exportBackup(), merging it into this device.
+ * Nothing on this device is overwritten with an older turn or a different
+ * value; see BackupImportReport for what changed and what conflicted.
+ *
+ * @throws {InvalidInputError} If the text is not a backup, or was made by a newer version
+ * @throws {KeyUnavailableError} If the passphrase is wrong
+ */
+export async function importBackup(
+  text: string,
+  passphrase: string,
+  options: BackupImportOptions = {}
+): Promise<BackupImportReport> {
+  const backup = await openBackup(text, passphrase);
+  const storage = options.storage ?? new LocalStorageAdapter();
+  const identityStore = options.identityStore === undefined ? new IndexedDBIdentityKeyStore() : options.identityStore;
+  const report: BackupImportReport = {
+    added: [],
+    updated: [],
+    kept: [],
+    invalid: [],
+    identityRestored: false,
+    conflicts: [],
+  };
+
+  // Identity first: restoring it also restores the player ID derived from it
+  if (backup.identity && identityStore) {
+    const existing = await identityStore.load();
+    const publicKey = existing
+      ? toBase64Url(new Uint8Array(await crypto.subtle.exportKey('raw', existing.publicKey)))
+      : null;
+    if (!existing || (publicKey !== backup.identity.publicKey && options.overwriteIdentity)) {
+      await importIdentityKeys(backup.identity, identityStore);
+      writeProfileField(storage, 'myPlayerId', await derivePlayerId(backup.identity.publicKey));
+      report.identityRestored = true;
+    } else if (publicKey !== backup.identity.publicKey) {
+      report.conflicts.push({ kind: 'identity' });
+    }
+  }
+
+  for (const field of Object.keys(PROFILE_KEYS) as ProfileField[]) {
+    const value = backup.profile[field];
+    const local = readProfileField(storage, field);
+    if (value === undefined || local === value) continue;
+
+    if (local === null || options.overwriteProfile) {
+      writeProfileField(storage, field, value);
+    } else {
+      report.conflicts.push({ kind: 'profile', field, local, backup: value });
+    }
+  }
+
+  const secrets = new GameSecretStorage(storage);
+  for (const { gameId, secret, fromPassphrase } of backup.secrets) {
+    const local = secrets.getSecret(gameId);
+    if (local === null) {
+      secrets.saveSecret(gameId, secret, { fromPassphrase });
+    } else if (local !== secret) {
+      report.conflicts.push({ kind: 'secret', gameId });
+    }
+  }
+
+  const ticTacToe = new TicTacToeStorage(storage);
+  const emojiGames = new GameStorage(storage);
+  const currentGameId = ticTacToe.getCurrentGameId();
+
+  for (const { gameType, state } of backup.games) {
+    let merged: { gameId: string; turn: number; result: MergeResult } | null = null;
+
+    if (gameType === ticTacToeDefinition.id) {
+      const parsed = TicTacToeGameStateSchema.safeParse(state);
+      if (parsed.success && isValidGame(ticTacToeDefinition, parsed.data)) {
+        const game = parsed.data;
+        const local = ticTacToe.loadGameState(game.gameId);
+        merged = {
+          gameId: game.gameId,
+          turn: game.currentTurn,
+          result: mergeGame(local, game, () => ticTacToe.saveGameState(game)),
+        };
+      }
+    } else if (gameType === emojiGameDefinition.id) {
+      const parsed = EmojiGameStateSchema.safeParse(state);
+      if (parsed.success && isValidGame(emojiGameDefinition, parsed.data)) {
+        const game = parsed.data;
+        const local = emojiGames.getGameState(game.gameId);
+        merged = {
+          gameId: game.gameId,
+          turn: game.currentTurn,
+          result: mergeGame(local, game, () => emojiGames.saveGameState(game)),
+        };
+      }
+    }
+
+    if (!merged) {
+      const id = (state as { gameId?: unknown } | null)?.gameId;
+      report.invalid.push({ gameType, gameId: typeof id === 'string' ? id : null });
+    } else {
+      recordMerge(report, gameType, merged.gameId, merged.turn, merged.result);
+    }
+  }
+
+  // Importing saves games, which makes them current; keep the one the player had open
+  if (currentGameId !== null) {
+    ticTacToe.setCurrentGame(currentGameId);
+  }
+
+  // A backup without a hot-seat game may leave the field out entirely
+  if (backup.hotSeatGame !== null && backup.hotSeatGame !== undefined) {
+    const parsed = EmojiGameStateSchema.safeParse(backup.hotSeatGame);
+    if (parsed.success && isValidGame(emojiGameDefinition, parsed.data)) {
+      mergeHotSeatGame(new HotSeatStorage(storage), parsed.data, report);
+    } else {
+      report.invalid.push({ gameType: emojiGameDefinition.id, gameId: null });
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Hot-seat mode keeps one game, so a different game in progress is a conflict.
+ */
+function mergeHotSeatGame(hotSeat: HotSeatStorage, game: EmojiGameState, report: BackupImportReport): void {
+  const local = hotSeat.loadHotSeatGame();
+  if (local && local.gameId !== game.gameId) {
+    report.conflicts.push({ kind: 'hot-seat-game', gameId: game.gameId });
+    return;
+  }
+
+  const result = mergeGame(local, game, () => {
+    hotSeat.saveHotSeatGame(game);
+    return { status: 'new' };
+  });
+  recordMerge(report, emojiGameDefinition.id, game.gameId, game.currentTurn, result);
+}
@@ -0,0 +1,30 @@
+/**
+ * @fileoverview URL-safe base64 (RFC 4648 §5, unpadded) for binary values in links
+ */
+
+import { DecodeError } from './errors';
+
+/**
+ * Encodes bytes as unpadded base64url.
+ */
+export function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decodes unpadded base64url into bytes.
+ *
+ * @throws {DecodeError} If the input is not valid base64url
+ */
+export function fromBase64Url(encoded: string): Uint8Array<ArrayBuffer> {
+  if (!/^[A-Za-z0-9_-]*$/.test(encoded)) {
+    throw new DecodeError('Invalid base64url string', 'malformed');
+  }
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
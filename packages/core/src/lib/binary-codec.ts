@@ -0,0 +1,553 @@
+/**
+ * @fileoverview Compact binary encoding of URL payloads, with the layout derived from a Zod schema
+ *
+ * JSON + lz-string spends most of a small link on field names, quotes and
+ * hex digits. A BinaryCodec walks the schema once and packs values into bits:
+ *
+ * - booleans take 1 bit; literals, enums and union members a small index
+ * - integers with min and max take just enough bits for the range, other
+ *   integers a varint, other numbers 8 bytes
+ * - strings store lowercase UUIDs as 16 bytes, lowercase hex and canonical
+ *   base64url as raw bytes, anything else as UTF-8
+ * - object fields are written in schema order without names; optional fields
+ *   take 1 presence bit; fixed-length arrays carry no length
+ *
+ * The output is base64url. Every value the schema accepts decodes to a value
+ * equal to the one encoded, so MACs over decoded payloads still verify. The
+ * layout depends on the schema, so both ends must use the same schema.
+ */
+
+import { z } from 'zod';
+import { fromBase64Url, toBase64Url } from './base64url';
+import { InvalidInputError, PayloadDecodeError } from './errors';
+import { createDeltaSchema } from './game-delta';
+import { MAX_PAYLOAD_LENGTH, assertLinkLength, parseWithSchema } from './safe-decode';
+import {
+  MoveSignatureSchema,
+  TargetPlayerSchema,
+  type DeltaPayload,
+  type FullStatePayload,
+  type PayloadCodecs,
+} from './url-envelope';
+
+/**
+ * Encodes values of one schema to and from compact base64url.
+ */
+export interface BinaryCodec<T> {
+  /**
+   * @throws {InvalidInputError} If the value doesn't match the schema, has
+   *   fields the schema doesn't list, or a string that isn't valid Unicode
+   */
+  encode(value: T): string;
+  /**
+   * @throws {PayloadDecodeError} With reason 'invalid-binary' if the data is
+   *   corrupt, or 'invalid-schema' if the value fails the schema's refinements
+   */
+  decode(encoded: string): T;
+}
+
+/** Writes and reads one schema node */
+interface Layout {
+  write(writer: BitWriter, value: unknown, path: string): void;
+  read(reader: BitReader): unknown;
+}
+
+/** 2-bit tag in front of every string */
+const STRING_MODE = { utf8: 0, hex: 1, uuid: 2, base64url: 3 } as const;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+const HEX_PATTERN = /^(?:[0-9a-f]{2})+$/;
+const BASE64URL_PATTERN = /^[A-Za-z0-9_-]+$/;
+const INTEGER_FORMATS = new Set(['safeint', 'int32', 'uint32']);
+// Varints longer than this can't hold a safe integer
+const MAX_VARINT_GROUPS = 8;
+
+class BitWriter {
+  private readonly bytes: number[] = [];
+  private current = 0;
+  private used = 0;
+
+  write(value: number, bits: number): void {
+    for (let i = bits - 1; i >= 0; i--) {
+      this.current = (this.current << 1) | (Math.floor(value / 2 ** i) % 2);
+      if (++this.used === 8) {
+        this.bytes.push(this.current);
+        this.current = 0;
+        this.used = 0;
+      }
+    }
+  }
+
+  writeVarint(value: number): void {
+    let rest = value;
+    do {
+      const group = rest % 128;
+      rest = Math.floor(rest / 128);
+      this.write(rest > 0 ? 1 : 0, 1);
+      this.write(group, 7);
+    } while (rest > 0);
+  }
+
+  writeBytes(bytes: Uint8Array): void {
+    this.writeVarint(bytes.length);
+    for (const byte of bytes) {
+      this.write(byte, 8);
+    }
+  }
+
+  finish(): Uint8Array {
+    const bytes = [...this.bytes];
+    if (this.used > 0) {
+      bytes.push(this.current << (8 - this.used));
+    }
+    return Uint8Array.from(bytes);
+  }
+}
+
+class BitReader {
+  private position = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  read(bits: number): number {
+    if (this.position + bits > this.bytes.length * 8) {
+      throw corrupt('Binary payload is truncated');
+    }
+    let value = 0;
+    for (let i = 0; i < bits; i++) {
+      const byte = this.bytes[this.position >> 3] ?? 0;
+      value = value * 2 + ((byte >> (7 - (this.position & 7))) & 1);
+      this.position++;
+    }
+    return value;
+  }
+
+  readVarint(): number {
+    let value = 0;
+    for (let group = 0; group < MAX_VARINT_GROUPS; group++) {
+      const more = this.read(1);
+      value += this.read(7) * 128 ** group;
+      if (!more) {
+        return value;
+      }
+    }
+    throw corrupt('Binary payload has an oversized number');
+  }
+
+  readBytes(): Uint8Array {
+    const length = this.readVarint();
+    if (this.position + length * 8 > this.bytes.length * 8) {
+      throw corrupt('Binary payload is truncated');
+    }
+    const bytes = new Uint8Array(length);
+    for (let i = 0; i < length; i++) {
+      bytes[i] = this.read(8);
+    }
+    return bytes;
+  }
+
+  /** Only zero padding may follow the last value */
+  assertEnd(): void {
+    const remaining = this.bytes.length * 8 - this.position;
+    if (remaining >= 8 || (remaining > 0 && this.read(remaining) !== 0)) {
+      throw corrupt('Binary payload has trailing data');
+    }
+  }
+}
+
+function corrupt(message: string): PayloadDecodeError {
+  return new PayloadDecodeError('invalid-binary', message);
+}
+
+/** Bits needed to tell `count` alternatives apart */
+function bitsFor(count: number): number {
+  let bits = 0;
+  while (2 ** bits < count) {
+    bits++;
+  }
+  return bits;
+}
+
+function indexLayout(values: readonly unknown[], what: string): Layout {
+  const bits = bitsFor(values.length);
+  return {
+    write(writer, value, path) {
+      const index = values.indexOf(value);
+      if (index === -1) {
+        throw new InvalidInputError(`Cannot encode ${what} at ${path}: ${String(value)} is not allowed`);
+      }
+      writer.write(index, bits);
+    },
+    read(reader) {
+      const index = reader.read(bits);
+      if (index >= values.length) {
+        throw corrupt(`Binary payload has an unknown ${what}`);
+      }
+      return values[index];
+    },
+  };
+}
+
+const booleanLayout: Layout = {
+  write: (writer, value) => writer.write(value ? 1 : 0, 1),
+  read: (reader) => reader.read(1) === 1,
+};
+
+const nullLayout: Layout = {
+  write: () => undefined,
+  read: () => null,
+};
+
+const floatLayout: Layout = {
+  write(writer, value) {
+    const view = new DataView(new ArrayBuffer(8));
+    view.setFloat64(0, value as number);
+    for (let i = 0; i < 8; i++) {
+      writer.write(view.getUint8(i), 8);
+    }
+  },
+  read(reader) {
+    const view = new DataView(new ArrayBuffer(8));
+    for (let i = 0; i < 8; i++) {
+      view.setUint8(i, reader.read(8));
+    }
+    return view.getFloat64(0);
+  },
+};
+
+function numberLayout(bag: Record<string, unknown>): Layout {
+  if (typeof bag.format !== 'string' || !INTEGER_FORMATS.has(bag.format)) {
+    return floatLayout;
+  }
+
+  const min = typeof bag.minimum === 'number' && Number.isSafeInteger(bag.minimum) ? bag.minimum : null;
+  const max = typeof bag.maximum === 'number' && Number.isSafeInteger(bag.maximum) ? bag.maximum : null;
+
+  if (min !== null && max !== null && max - min < 2 ** 32) {
+    const bits = bitsFor(max - min + 1);
+    return {
+      write: (writer, value) => writer.write((value as number) - min, bits),
+      read(reader) {
+        const value = reader.read(bits) + min;
+        if (value > max) {
+          throw corrupt('Binary payload has a number out of range');
+        }
+        return value;
+      },
+    };
+  }
+
+  // Offsets from a negative minimum could exceed the safe integer range
+  if (min !== null && min >= 0) {
+    return {
+      write: (writer, value) => writer.writeVarint((value as number) - min),
+      read: (reader) => reader.readVarint() + min,
+    };
+  }
+
+  return {
+    write(writer, value) {
+      const number = value as number;
+      writer.write(number < 0 ? 1 : 0, 1);
+      writer.writeVarint(Math.abs(number));
+    },
+    read(reader) {
+      const negative = reader.read(1) === 1;
+      const magnitude = reader.readVarint();
+      return negative ? -magnitude : magnitude;
+    },
+  };
+}
+
+function isCanonicalBase64Url(value: string): boolean {
+  return BASE64URL_PATTERN.test(value) && value.length % 4 !== 1 && toBase64Url(fromBase64Url(value)) === value;
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+function bytesToHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+const stringLayout: Layout = {
+  write(writer, value, path) {
+    const string = value as string;
+
+    if (UUID_PATTERN.test(string)) {
+      writer.write(STRING_MODE.uuid, 2);
+      for (const byte of hexToBytes(string.replace(/-/g, ''))) {
+        writer.write(byte, 8);
+      }
+    } else if (HEX_PATTERN.test(string)) {
+      writer.write(STRING_MODE.hex, 2);
+      writer.writeBytes(hexToBytes(string));
+    } else if (isCanonicalBase64Url(string)) {
+      writer.write(STRING_MODE.base64url, 2);
+      writer.writeBytes(fromBase64Url(string));
+    } else {
+      const bytes = new TextEncoder().encode(string);
+      if (new TextDecoder().decode(bytes) !== string) {
+        throw new InvalidInputError(`Cannot encode the string at ${path}: it is not valid Unicode`);
+      }
+      writer.write(STRING_MODE.utf8, 2);
+      writer.writeBytes(bytes);
+    }
+  },
+  read(reader) {
+    switch (reader.read(2)) {
+      case STRING_MODE.uuid: {
+        const hex = bytesToHex(Uint8Array.from({ length: 16 }, () => reader.read(8)));
+        return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+      }
+      case STRING_MODE.hex:
+        return bytesToHex(reader.readBytes());
+      case STRING_MODE.base64url:
+        return toBase64Url(reader.readBytes());
+      default:
+        try {
+          return new TextDecoder('utf-8', { fatal: true }).decode(reader.readBytes());
+        } catch (error) {
+          if (error instanceof PayloadDecodeError) throw error;
+          throw corrupt('Binary payload has a string that is not valid UTF-8');
+        }
+    }
+  },
+};
+
+function optionalLayout(inner: Layout): Layout {
+  return {
+    write(writer, value, path) {
+      writer.write(value === undefined ? 0 : 1, 1);
+      if (value !== undefined) {
+        inner.write(writer, value, path);
+      }
+    },
+    read: (reader) => (reader.read(1) === 1 ? inner.read(reader) : undefined),
+  };
+}
+
+function nullableLayout(inner: Layout): Layout {
+  return {
+    write(writer, value, path) {
+      writer.write(value === null ? 0 : 1, 1);
+      if (value !== null) {
+        inner.write(writer, value, path);
+      }
+    },
+    read: (reader) => (reader.read(1) === 1 ? inner.read(reader) : null),
+  };
+}
+
+function arrayLayout(element: Layout, length: number | null): Layout {
+  return {
+    write(writer, value, path) {
+      const items = value as unknown[];
+      if (length === null) {
+        writer.writeVarint(items.length);
+      }
+      items.forEach((item, index) => element.write(writer, item, `${path}[${index}]`));
+    },
+    read(reader) {
+      const count = length ?? reader.readVarint();
+      if (count > MAX_PAYLOAD_LENGTH) {
+        throw corrupt('Binary payload has an oversized array');
+      }
+      return Array.from({ length: count }, () => element.read(reader));
+    },
+  };
+}
+
+function tupleLayout(items: Layout[]): Layout {
+  return {
+    write(writer, value, path) {
+      items.forEach((item, index) => item.write(writer, (value as unknown[])[index], `${path}[${index}]`));
+    },
+    read: (reader) => items.map((item) => item.read(reader)),
+  };
+}
+
+function objectLayout(fields: [string, Layout][]): Layout {
+  const known = new Set(fields.map(([key]) => key));
+  return {
+    write(writer, value, path) {
+      const record = value as Record<string, unknown>;
+      const unknown = Object.keys(record).find((key) => !known.has(key) && record[key] !== undefined);
+      if (unknown !== undefined) {
+        throw new InvalidInputError(`Cannot encode ${path}.${unknown}: the schema doesn't list it`);
+      }
+      for (const [key, field] of fields) {
+        field.write(writer, record[key], `${path}.${key}`);
+      }
+    },
+    read(reader) {
+      const record: Record<string, unknown> = {};
+      for (const [key, field] of fields) {
+        const value = field.read(reader);
+        if (value !== undefined) {
+          record[key] = value;
+        }
+      }
+      return record;
+    },
+  };
+}
+
+function unionLayout(options: readonly z.core.$ZodType[], path: string): Layout {
+  const layouts = options.map((option, index) => layoutFor(option, `${path}|${index}`));
+  const bits = bitsFor(options.length);
+  return {
+    write(writer, value, valuePath) {
+      const index = options.findIndex((option) => z.safeParse(option, value).success);
+      const layout = layouts[index];
+      if (!layout) {
+        throw new InvalidInputError(`Cannot encode ${valuePath}: it matches no member of the union`);
+      }
+      writer.write(index, bits);
+      layout.write(writer, value, valuePath);
+    },
+    read(reader) {
+      const layout = layouts[reader.read(bits)];
+      if (!layout) {
+        throw corrupt('Binary payload has an unknown union member');
+      }
+      return layout.read(reader);
+    },
+  };
+}
+
+/**
+ * Derives the layout of a schema node.
+ *
+ * @throws {InvalidInputError} For schema types with no binary layout
+ *   (records, maps, unknown, transforms, ...)
+ */
+function layoutFor(schema: z.core.$ZodType, path: string): Layout {
+  const def = (schema as z.core.$ZodTypes)._zod.def;
+  const bag: Record<string, unknown> = schema._zod.bag;
+
+  switch (def.type) {
+    case 'boolean':
+      return booleanLayout;
+    case 'null':
+      return nullLayout;
+    case 'number':
+      return numberLayout(bag);
+    case 'string':
+      return stringLayout;
+    case 'literal':
+      return indexLayout(def.values, 'literal');
+    case 'enum':
+      return indexLayout(Object.values(def.entries), 'enum value');
+    case 'optional':
+      return optionalLayout(layoutFor(def.innerType, path));
+    case 'nullable':
+      return nullableLayout(layoutFor(def.innerType, path));
+    case 'default':
+    case 'prefault':
+    case 'readonly':
+    case 'nonoptional':
+      return layoutFor(def.innerType, path);
+    case 'union':
+      return unionLayout(def.options, path);
+    case 'array':
+      return arrayLayout(layoutFor(def.element, `${path}[]`), typeof bag.length === 'number' ? bag.length : null);
+    case 'tuple':
+      if (def.rest) break;
+      return tupleLayout(def.items.map((item, index) => layoutFor(item, `${path}[${index}]`)));
+    case 'object':
+      if (def.catchall && def.catchall._zod.def.type !== 'never') break;
+      return objectLayout(
+        Object.entries(def.shape).map(([key, field]) => [
+          key,
+          layoutFor(field, `${path}.${key}`),
+        ])
+      );
+  }
+
+  throw new InvalidInputError(`Cannot derive a binary layout for the ${def.type} schema at ${path}`);
+}
+
+/**
+ * Creates a codec whose layout is derived from `schema`.
+ *
+ * @param what - What the codec carries, used in error messages (e.g. "delta")
+ * @throws {InvalidInputError} If the schema uses a type with no binary layout
+ *
+ * @example
+ * ```typescript
+ * const codec = createBinaryCodec(TicTacToeGameStateSchema, 'game state');
+ * const encoded = codec.encode(state); // base64url
+ * codec.decode(encoded); // equal to state
+ * ```
+ */
+export function createBinaryCodec<T>(schema: z.ZodType<T>, what = 'payload'): BinaryCodec<T> {
+  const layout = layoutFor(schema, '$');
+
+  return {
+    encode(value) {
+      const result = schema.safeParse(value);
+      if (!result.success) {
+        const issues = result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`).join('; ');
+        throw new InvalidInputError(`Cannot encode ${what} - ${issues}`);
+      }
+      const writer = new BitWriter();
+      layout.write(writer, value, '$');
+      return toBase64Url(writer.finish());
+    },
+    decode(encoded) {
+      assertLinkLength(encoded);
+      let bytes: Uint8Array;
+      try {
+        bytes = fromBase64Url(encoded);
+      } catch {
+        throw corrupt('Binary payload is not valid base64url');
+      }
+
+      const reader = new BitReader(bytes);
+      const value = layout.read(reader);
+      reader.assertEnd();
+
+      // Refinements (patterns, lengths) are checked here; the decoded value is
+      // returned as is so it stays identical to what was encoded
+      parseWithSchema(schema, value, what);
+      return value as T;
+    },
+  };
+}
+
+/**
+ * Creates the codecs for a game's full-state and delta payloads, for
+ * encodeEnvelope / readEnvelope.
+ *
+ * @throws {InvalidInputError} If either schema has no binary layout
+ */
+export function createPayloadCodecs<TState, TMove>(
+  stateSchema: z.ZodType<TState>,
+  moveSchema: z.ZodType<TMove>
+): PayloadCodecs {
+  const fullState = createBinaryCodec(
+    z.strictObject({
+      state: stateSchema,
+      target: TargetPlayerSchema,
+      secret: z.string().regex(/^[0-9a-f]{64}$/).optional(),
+      mac: z.string().regex(/^[0-9a-f]{64}$/).optional(),
+      signatures: z.array(MoveSignatureSchema).optional(),
+    }),
+    'full state'
+  );
+  const delta = createBinaryCodec(
+    z.strictObject({ delta: createDeltaSchema(moveSchema), target: TargetPlayerSchema }),
+    'delta'
+  );
+
+  return {
+    'full-state': fullState as unknown as BinaryCodec<FullStatePayload>,
+    delta: delta as unknown as BinaryCodec<DeltaPayload>,
+  };
+}
@@ -0,0 +1,62 @@
+/**
+ * @fileoverview Canonical JSON serialization for checksum and HMAC inputs
+ *
+ * `JSON.stringify` output depends on key insertion order, so two equal
+ * objects built in different orders hash differently. canonicalJson follows
+ * RFC 8785 (JSON Canonicalization Scheme): object keys sorted by UTF-16 code
+ * units, no whitespace, and numbers and strings in their ECMAScript
+ * serialization. Everything that is hashed or signed goes through it.
+ */
+
+import { InvalidInputError } from './errors';
+
+/**
+ * Serializes a JSON value canonically. Object properties that are
+ * `undefined` are left out, as with `JSON.stringify`.
+ *
+ * @throws {InvalidInputError} If the value contains anything JSON can't
+ *   represent exactly (non-finite numbers, `undefined` array items,
+ *   functions, or objects other than plain objects and arrays)
+ */
+export function canonicalJson(value: unknown): string {
+  return serialize(value, '$');
+}
+
+function serialize(value: unknown, path: string): string {
+  if (value === null || typeof value === 'boolean' || typeof value === 'string') {
+    return JSON.stringify(value);
+  }
+
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new InvalidInputError(`Cannot serialize ${value} at ${path} as canonical JSON`);
+    }
+    return JSON.stringify(value);
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map((item, index) => serialize(item, `${path}[${index}]`)).join(',')}]`;
+  }
+
+  if (typeof value === 'object' && isPlainObject(value)) {
+    const members = Object.keys(value)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${serialize((value as Record<string, unknown>)[key], `${path}.${key}`)}`);
+    return `{${members.join(',')}}`;
+  }
+
+  throw new InvalidInputError(`Cannot serialize ${describe(value)} at ${path} as canonical JSON`);
+}
+
+function isPlainObject(value: object): boolean {
+  const prototype: unknown = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+}
+
+function describe(value: unknown): string {
+  if (typeof value === 'object' && value !== null) {
+    return value.constructor?.name ?? 'object';
+  }
+  return typeof value;
+}
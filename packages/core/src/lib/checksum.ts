@@ -1,10 +1,68 @@
-export async function calculateChecksum(emojiChain: string): Promise<string> {
-  const canonical = JSON.stringify({ emojiChain });
+import { canonicalJson } from './canonical-json';
+
+/**
+ * Calculates a SHA-256 digest of arbitrary text as a 64-character hex string.
+ *
+ * @param data - The text to hash
+ * @returns SHA-256 hex digest
+ */
+export async function sha256Hex(data: string): Promise<string> {
   const encoder = new TextEncoder();
-  const dataBytes = encoder.encode(canonical);
+  const dataBytes = encoder.encode(data);
   const hashBuffer = await crypto.subtle.digest('SHA-256', dataBytes);
 
   return Array.from(new Uint8Array(hashBuffer))
     .map((b) => b.toString(16).padStart(2, '0'))
     .join('');
 }
+
+export async function calculateChecksum(emojiChain: string): Promise<string> {
+  const canonical = canonicalJson({ emojiChain });
+  return sha256Hex(canonical);
+}
+
+/**
+ * Picks the listed fields of a state - the exact input of its checksum.
+ */
+export function pickChecksumFields<TState extends object>(
+  state: TState,
+  fields: readonly (keyof TState & string)[]
+): Partial<TState> {
+  const picked: Partial<TState> = {};
+  for (const field of fields) {
+    picked[field] = state[field];
+  }
+  return picked;
+}
+
+/**
+ * Calculates the SHA-256 checksum of the canonical JSON of a state's listed fields.
+ * Fields not listed (timestamps, UI state, the checksum itself) don't affect it.
+ * This is the checksum a new game starts its hash chain from (see chainChecksum).
+ *
+ * @param fields - Fields covered by the checksum (see GameDefinition.checksumFields)
+ * @returns SHA-256 checksum as 64-character hex string
+ */
+export async function calculateStateChecksum<TState extends object>(
+  state: TState,
+  fields: readonly (keyof TState & string)[]
+): Promise<string> {
+  return sha256Hex(canonicalJson(pickChecksumFields(state, fields)));
+}
+
+/**
+ * Extends a game's hash chain by one move: SHA-256 of the previous checksum
+ * followed by the canonical JSON of the move (and the key it locks a seat
+ * to, if any).
+ *
+ * Each checksum therefore commits to the game's whole move sequence, and
+ * checking a move costs the same however long the game has run - the
+ * state itself is never re-hashed.
+ *
+ * @param prevChecksum - Checksum of the state the move was made from
+ * @param publicKey - Identity key the move locks the mover's seat to
+ * @returns SHA-256 checksum as 64-character hex string
+ */
+export async function chainChecksum(prevChecksum: string, move: unknown, publicKey?: string): Promise<string> {
+  return sha256Hex(prevChecksum + canonicalJson({ move, publicKey }));
+}
@@ -1,41 +1,25 @@
-import LZString from 'lz-string';
-import { calculateChecksum } from './checksum';
+import { chainChecksum } from './checksum';
+import { emojiGameDefinition } from './emoji-game-definition';
+import { EmojiMoveSchema, type EmojiGameState, type EmojiMove } from './emoji-game-schema';
+import {
+  applyDelta as applyGameDelta,
+  createDelta as createGameDelta,
+  createDeltaSchema,
+  decodeDelta as decodeGameDelta,
+  encodeDelta as encodeGameDelta,
+  verifyDeltaHMAC,
+  type GameDelta,
+} from './game-delta';
+import { GameSecretStorage, type PassphraseOptions, type SecretStorageOptions } from './game-secret';
+
+export type EmojiDelta = GameDelta<EmojiMove>;
+
+export const EmojiDeltaSchema = createDeltaSchema(EmojiMoveSchema);
 
-const GAME_SECRET = 'emoji-game-secret-key'; // TODO: Make this configurable
-
-export interface EmojiDelta {
-  gameId: string;
-  move: {
-    player: 1 | 2;
-    emoji: string;
-    turn: number;
-  };
-  prevChecksum: string;
-  newChecksum: string;
-  hmac: string;
-}
-
-async function generateHMAC(data: string): Promise<string> {
-  const encoder = new TextEncoder();
-
-  const key = await crypto.subtle.importKey(
-    'raw',
-    encoder.encode(GAME_SECRET),
-    { name: 'HMAC', hash: 'SHA-256' },
-    false,
-    ['sign']
-  );
-
-  const signature = await crypto.subtle.sign(
-    'HMAC',
-    key,
-    encoder.encode(data)
-  );
-
-  return Array.from(new Uint8Array(signature))
-    .map((b) => b.toString(16).padStart(2, '0'))
-    .join('');
-}
+/**
+ * An emoji chain together with its stored checksum.
+ */
+export type EmojiChainState = Pick<EmojiGameState, 'emojiChain' | 'checksum'>;
 
 export async function createDelta(
   gameId: string,
@@ -43,26 +27,16 @@ export async function createDelta(
   player: 1 | 2,
   turn: number,
   prevChecksum: string,
-  newChecksum: string
+  newChecksum: string,
+  options: SecretStorageOptions = {}
 ): Promise<EmojiDelta> {
-  const delta: Omit<EmojiDelta, 'hmac'> = {
+  return createGameDelta(
     gameId,
-    move: { player, emoji, turn },
+    { player, emoji, turn },
     prevChecksum,
     newChecksum,
-  };
-
-  const hmac = await generateHMAC(JSON.stringify(delta));
-
-  return { ...delta, hmac };
-}
-
-/**
- * Payload structure for delta encoding with embedded target player.
- */
-interface DeltaPayload {
-  delta: EmojiDelta;
-  targetPlayer: 1 | 2;
+    (options.secrets ?? new GameSecretStorage()).requireSecret(gameId)
+  );
 }
 
 /**
@@ -71,80 +45,48 @@ interface DeltaPayload {
  *
  * @param delta - The delta to encode
  * @param targetPlayer - Which player this URL is intended for (1 or 2)
- * @returns Hash fragment like "#d=<compressed-payload>" (player embedded, not visible)
+ * @returns Hash fragment like "#d=2.emoji-chain.<compressed-payload>" (player embedded, not visible)
  */
 export function encodeDelta(delta: EmojiDelta, targetPlayer: 1 | 2): string {
-  const payload: DeltaPayload = { delta, targetPlayer };
-  const json = JSON.stringify(payload);
-  const compressed = LZString.compressToEncodedURIComponent(json);
-  return `#d=${compressed}`;
+  return encodeGameDelta(delta, { seat: targetPlayer }, emojiGameDefinition.id);
 }
 
 /**
  * Decodes delta from URL hash fragment, extracting embedded target player.
+ * Old URLs without a target player infer it from the mover.
  *
- * @param hashFragment - Hash like "#d=<compressed-payload>"
+ * @param hashFragment - Hash like "#d=2.emoji-chain.<compressed-payload>"
  * @returns Object with delta and targetPlayer (extracted from payload)
  */
 export function decodeDelta(hashFragment: string): { delta: EmojiDelta; targetPlayer: 1 | 2 } {
-  const compressed = hashFragment.substring(3); // Remove '#d='
-  const json = LZString.decompressFromEncodedURIComponent(compressed);
-
-  if (!json) {
-    throw new Error('Failed to decompress delta hash fragment');
-  }
-
-  const payload = JSON.parse(json);
-
-  // Handle backward compatibility: old URLs without targetPlayer
-  if (payload.targetPlayer === undefined) {
-    // Old format: payload is the delta itself
-    const delta = payload as EmojiDelta;
-    // Infer target player from delta.move.player (opponent of player who made move)
-    const targetPlayer = delta.move.player === 1 ? 2 : 1;
-    return { delta, targetPlayer };
-  }
-
-  // New format: payload has delta and targetPlayer
-  if (payload.targetPlayer !== 1 && payload.targetPlayer !== 2) {
-    throw new Error('Invalid target player in URL payload');
-  }
-
-  return { delta: payload.delta, targetPlayer: payload.targetPlayer };
+  const { delta, target } = decodeGameDelta(hashFragment, emojiGameDefinition.id, EmojiMoveSchema);
+  return { delta, targetPlayer: target.seat };
 }
 
+/**
+ * Verifies and applies a delta to an emoji chain. The stored checksum is
+ * compared with the delta and extended by the move (see chainChecksum), so
+ * the chain is never re-hashed however long it grows.
+ *
+ * @returns The new chain and its checksum
+ */
 export async function applyDelta(
-  currentEmojiChain: string,
-  delta: EmojiDelta
-): Promise<string> {
-  // 1. Verify HMAC (tamper detection)
-  const expectedHmac = await generateHMAC(
-    JSON.stringify({
-      gameId: delta.gameId,
-      move: delta.move,
-      prevChecksum: delta.prevChecksum,
-      newChecksum: delta.newChecksum,
-    })
+  current: EmojiChainState,
+  delta: EmojiDelta,
+  options: PassphraseOptions & SecretStorageOptions = {}
+): Promise<EmojiChainState> {
+  const secrets = options.secrets ?? new GameSecretStorage();
+  const secret = await secrets.unlockSecret(
+    delta.gameId,
+    options.passphrase,
+    (candidate) => verifyDeltaHMAC(delta, candidate)
   );
 
-  if (delta.hmac !== expectedHmac) {
-    throw new Error('URL has been tampered with - HMAC mismatch');
-  }
-
-  // 2. Verify current state matches expected previous state
-  const currentChecksum = await calculateChecksum(currentEmojiChain);
-  if (currentChecksum !== delta.prevChecksum) {
-    throw new Error('Board state mismatch - current state does not match expected previous state');
-  }
-
-  // 3. Apply move
-  const newChain = currentEmojiChain + delta.move.emoji;
-
-  // 4. Verify result matches expected new state
-  const newChecksum = await calculateChecksum(newChain);
-  if (newChecksum !== delta.newChecksum) {
-    throw new Error('Move application failed - checksum mismatch');
-  }
-
-  return newChain;
+  return applyGameDelta(current, delta, secret, {
+    checksum: (state) => state.checksum,
+    apply: async (state, move, received) => ({
+      emojiChain: state.emojiChain + move.emoji,
+      checksum: await chainChecksum(state.checksum, move, received.publicKey),
+    }),
+  });
 }
@@ -0,0 +1,61 @@
+/**
+ * @fileoverview Emoji chain game ported onto the generic GameDefinition contract
+ */
+
+import type { GameDefinition } from './game-definition';
+import {
+  EmojiGameStateSchema,
+  EmojiMoveSchema,
+  type EmojiGameState,
+  type EmojiMove,
+} from './emoji-game-schema';
+
+/**
+ * Emoji chain: players take turns appending one emoji. There is no win condition.
+ */
+export const emojiGameDefinition: GameDefinition<EmojiGameState, EmojiMove> = {
+  id: 'emoji-chain',
+  stateSchema: EmojiGameStateSchema,
+  moveSchema: EmojiMoveSchema,
+
+  createInitialState(gameId, creator) {
+    return {
+      gameId,
+      emojiChain: '',
+      currentTurn: 0,
+      currentPlayer: 1,
+      player1Name: creator.name,
+      player2Name: '', // Empty until Player 2 joins
+      checksum: '',
+    };
+  },
+
+  validateMove(_state, move) {
+    if (move.emoji.trim().length === 0) {
+      return 'Emoji cannot be empty';
+    }
+    return null;
+  },
+
+  applyMove(state, move) {
+    return {
+      ...state,
+      emojiChain: state.emojiChain + move.emoji,
+    };
+  },
+
+  getOutcome() {
+    return { status: 'playing', winner: null };
+  },
+
+  // Same canonical form as calculateChecksum(), so new games start from the legacy checksum
+  checksumFields: ['emojiChain'],
+
+  getMoveHistory(state) {
+    return state.moves;
+  },
+
+  setMoveHistory(state, moves) {
+    return { ...state, moves };
+  },
+};
@@ -1,5 +1,13 @@
 import { z } from 'zod';
 
+export const EmojiMoveSchema = z.object({
+  player: z.union([z.literal(1), z.literal(2)]),
+  emoji: z.string().min(1),
+  turn: z.number().int().min(1),
+});
+
+export type EmojiMove = z.infer<typeof EmojiMoveSchema>;
+
 export const EmojiGameStateSchema = z.object({
   gameId: z.string().uuid(),
   emojiChain: z.string(),
@@ -8,6 +16,7 @@ export const EmojiGameStateSchema = z.object({
   player1Name: z.string().min(1), // Player 1 must have a name
   player2Name: z.string(), // Player 2 name can be empty initially
   checksum: z.string(),
+  moves: z.array(EmojiMoveSchema).optional(), // Optional move log, replayed to verify the chain
 });
 
 export type EmojiGameState = z.infer<typeof EmojiGameStateSchema>;
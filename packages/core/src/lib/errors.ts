@@ -0,0 +1,254 @@
+/**
+ * @fileoverview Typed errors thrown by core, each with a stable machine-readable code
+ *
+ * Apps should branch on `error.code` (or `instanceof`) to pick the screen to
+ * show; messages are for people and may change. Every error carries the
+ * structured details needed to explain it, e.g. expected vs. actual checksum.
+ */
+
+import type { LedgerVerdict, MoveConflict } from './move-ledger';
+
+export type ErrorCode =
+  | 'DECODE_FAILED'
+  | 'LEGACY_FORMAT'
+  | 'TAMPERED'
+  | 'STATE_MISMATCH'
+  | 'ILLEGAL_MOVE'
+  | 'INVALID_STATE'
+  | 'STALE_MOVE'
+  | 'MOVE_CONFLICT'
+  | 'KEY_UNAVAILABLE'
+  | 'STORAGE_QUOTA'
+  | 'URL_TOO_LONG'
+  | 'INVALID_INPUT';
+
+/**
+ * Base class of every error core throws on purpose.
+ */
+export abstract class CorrespondenceGameError extends Error {
+  abstract readonly code: ErrorCode;
+
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * Returns true if `error` is a core error with the given code.
+ */
+export function isGameError(error: unknown, code?: ErrorCode): error is CorrespondenceGameError {
+  return error instanceof CorrespondenceGameError && (code === undefined || error.code === code);
+}
+
+export type DecodeFailure =
+  | 'malformed'
+  | 'newer-version'
+  | 'unknown-game'
+  | 'encrypted'
+  | 'wrong-kind'
+  | 'invalid-payload'
+  | 'corrupt-part'
+  | 'other-transfer'
+  | PayloadDecodeFailure;
+
+export type PayloadDecodeFailure =
+  | 'too-long'
+  | 'too-large'
+  | 'decompress-failed'
+  | 'too-deep'
+  | 'invalid-json'
+  | 'invalid-schema'
+  | 'invalid-binary';
+
+/**
+ * A link can't be read: it is malformed, for another game, made by a newer
+ * version, still encrypted, or its payload is invalid.
+ */
+export class DecodeError extends CorrespondenceGameError {
+  readonly code = 'DECODE_FAILED';
+
+  constructor(
+    message: string,
+    readonly reason: DecodeFailure
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * A link payload was rejected by the safe-decode limits or schemas before it
+ * reached game code.
+ */
+export class PayloadDecodeError extends DecodeError {
+  declare readonly reason: PayloadDecodeFailure;
+
+  constructor(reason: PayloadDecodeFailure, message: string) {
+    super(message, reason);
+  }
+}
+
+/**
+ * A link uses a format or protocol version this build no longer reads.
+ */
+export class LegacyFormatError extends CorrespondenceGameError {
+  readonly code = 'LEGACY_FORMAT';
+
+  constructor(
+    message: string,
+    /** Protocol version of the link, if it has one */
+    readonly version?: number
+  ) {
+    super(message);
+  }
+}
+
+export type TamperCheck =
+  | 'delta-hmac'
+  | 'full-state-mac'
+  | 'unsigned-full-state'
+  | 'move-signature'
+  | 'unsigned-move'
+  | 'seat-claimed'
+  | 'ciphertext';
+
+/**
+ * A link failed an authenticity check: a MAC, signature or ciphertext doesn't verify.
+ */
+export class TamperError extends CorrespondenceGameError {
+  readonly code = 'TAMPERED';
+
+  constructor(
+    message: string,
+    /** Which check failed */
+    readonly check: TamperCheck
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * A delta doesn't fit the state it is applied to.
+ */
+export class StateMismatchError extends CorrespondenceGameError {
+  readonly code = 'STATE_MISMATCH';
+
+  constructor(
+    message: string,
+    /** Which value disagreed */
+    readonly field: 'gameId' | 'prevChecksum' | 'newChecksum',
+    readonly expected: string,
+    readonly actual: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * A move breaks the game's rules or turn order.
+ */
+export class IllegalMoveError extends CorrespondenceGameError {
+  readonly code = 'ILLEGAL_MOVE';
+
+  constructor(
+    message: string,
+    /** The rule the move broke, without the "Illegal move" prefix */
+    readonly reason: string
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * A decoded state is inconsistent with the rules or with its own move log.
+ */
+export class InvalidStateError extends CorrespondenceGameError {
+  readonly code = 'INVALID_STATE';
+
+  constructor(
+    message: string,
+    readonly violations: string[]
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * A link holds an older (or diverging) state than this device already accepted.
+ */
+export class StaleMoveError extends CorrespondenceGameError {
+  readonly code = 'STALE_MOVE';
+
+  constructor(
+    message: string,
+    readonly verdict: LedgerVerdict
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * The opponent signed two different moves from the same position.
+ */
+export class MoveConflictError extends CorrespondenceGameError {
+  readonly code = 'MOVE_CONFLICT';
+
+  constructor(
+    message: string,
+    readonly conflict: MoveConflict<unknown>
+  ) {
+    super(message);
+  }
+}
+
+export type KeyUnavailableReason =
+  | 'no-secret'
+  | 'no-link-key'
+  | 'passphrase-required'
+  | 'wrong-passphrase'
+  | 'secret-conflict'
+  | 'no-identity-key';
+
+/**
+ * The key needed to sign, verify or decrypt isn't available on this device.
+ */
+export class KeyUnavailableError extends CorrespondenceGameError {
+  readonly code = 'KEY_UNAVAILABLE';
+
+  constructor(
+    message: string,
+    readonly reason: KeyUnavailableReason
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * localStorage is full even after cleaning up old games.
+ */
+export class StorageQuotaError extends CorrespondenceGameError {
+  readonly code = 'STORAGE_QUOTA';
+}
+
+/**
+ * A share URL is longer than the configured length budget.
+ */
+export class UrlTooLongError extends CorrespondenceGameError {
+  readonly code = 'URL_TOO_LONG';
+
+  constructor(
+    message: string,
+    /** Length of the shortest URL that could be built, in characters */
+    readonly length: number,
+    readonly budget: number
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * A caller passed an invalid argument, e.g. an empty name or passphrase.
+ */
+export class InvalidInputError extends CorrespondenceGameError {
+  readonly code = 'INVALID_INPUT';
+}
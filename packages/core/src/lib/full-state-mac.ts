@@ -0,0 +1,171 @@
+/**
+ * @fileoverview HMAC authentication of full-state links
+ *
+ * Deltas are signed move by move; a full state is signed as a whole so the
+ * board, status and turn can't be hand-edited before the link is sent on.
+ * Once a browser holds a game's secret it refuses unsigned full states for
+ * that game.
+ *
+ * The MAC only shows the link came from someone holding the secret, which
+ * both players do. Seat locks are checked against the identity signatures
+ * the link carries by GameEngine.decodeFullState.
+ */
+
+import type { z } from 'zod';
+import { canonicalJson } from './canonical-json';
+import { InvalidInputError, TamperError } from './errors';
+import type { TargetPlayer } from './game-definition';
+import type { FullStateEncodeOptions, GameSecretStorage, PassphraseProvider } from './game-secret';
+import { generateHMAC, verifyHMAC } from './hmac';
+import { decryptLink, encryptHashFragment } from './payload-encryption';
+import { parseWithSchema } from './safe-decode';
+import {
+  encodeEnvelope,
+  readEnvelope,
+  type FullStatePayload,
+  type MoveSignature,
+  type PayloadCodecs,
+} from './url-envelope';
+
+/**
+ * Canonical HMAC input for a full state. Key order doesn't matter, but every
+ * field of the state is covered, so the receiver must verify the raw decoded
+ * payload before schema parsing strips anything.
+ */
+function fullStateSigningInput(gameType: string, state: unknown, target: TargetPlayer): string {
+  return canonicalJson({
+    gameType,
+    state,
+    target: { seat: target.seat, playerId: target.playerId },
+  });
+}
+
+/**
+ * Signs a full state for the given recipient with the game secret.
+ *
+ * @returns Hex HMAC-SHA256 to store in the payload's `mac` field
+ */
+export async function signFullState(
+  secret: string,
+  gameType: string,
+  state: unknown,
+  target: TargetPlayer
+): Promise<string> {
+  return generateHMAC(secret, fullStateSigningInput(gameType, state, target));
+}
+
+/**
+ * Checks a decoded full-state payload's MAC against the game secret in constant time.
+ *
+ * @returns False if the payload has no MAC or it doesn't match
+ */
+export async function verifyFullStateMAC(
+  secret: string,
+  gameType: string,
+  payload: FullStatePayload
+): Promise<boolean> {
+  if (payload.mac === undefined) {
+    return false;
+  }
+  return verifyHMAC(secret, fullStateSigningInput(gameType, payload.state, payload.target), payload.mac);
+}
+
+/**
+ * Encodes a full state signed with the game secret.
+ *
+ * @param gameType - GameDefinition id of the game
+ * @param state - The game state to encode
+ * @param target - Which player this URL is intended for
+ * @param secrets - Storage holding the game secret
+ * @param options - Set includeSecret for the invite link only; set encrypt
+ *   to hide the payload from anyone without the game secret
+ * @param codecs - The game's binary codecs, for a compact link (see binary-codec)
+ * @param signatures - Identity signatures of the latest moves, for games that lock seats
+ * @returns Hash fragment like "#s=2.<gameType>.<compressed-payload>"
+ * @throws {KeyUnavailableError} If no secret is stored
+ * @throws {InvalidInputError} If includeSecret is set for a
+ *   passphrase-protected game or together with encrypt
+ */
+export async function encodeFullState(
+  gameType: string,
+  state: { gameId: string },
+  target: TargetPlayer,
+  secrets: GameSecretStorage,
+  options: FullStateEncodeOptions = {},
+  codecs?: PayloadCodecs,
+  signatures: MoveSignature[] = []
+): Promise<string> {
+  if (options.includeSecret && options.encrypt) {
+    throw new InvalidInputError('An invite carrying the secret cannot be encrypted - the recipient has no key yet');
+  }
+  if (options.includeSecret && secrets.isPassphraseProtected(state.gameId)) {
+    throw new InvalidInputError('Passphrase-protected games never share their secret in a link');
+  }
+
+  const secret = secrets.requireSecret(state.gameId);
+  const payload: FullStatePayload = { state, target };
+  if (options.includeSecret) {
+    payload.secret = secret;
+  }
+  payload.mac = await signFullState(secret, gameType, state, target);
+  if (signatures.length > 0) {
+    payload.signatures = signatures;
+  }
+
+  const hash = encodeEnvelope('full-state', gameType, payload, codecs);
+  return options.encrypt ? encryptHashFragment(hash, state.gameId, secret) : hash;
+}
+
+/**
+ * Decodes, validates and authenticates a full state.
+ *
+ * Encrypted links are decrypted first. A secret carried by an invite link is
+ * stored for the game once the link's MAC verifies against it. Signed links are verified, asking for the passphrase
+ * if no secret is stored yet. Unsigned links are only accepted for games this
+ * browser holds no secret for (links from before full states were signed).
+ * The identity signatures the link carries are returned unchecked.
+ *
+ * @throws {DecodeError} If the link can't be read, is for another game, or
+ *   fails validation
+ * @throws {KeyUnavailableError} If it carries a different secret than the
+ *   one stored, or no secret or passphrase is available
+ * @throws {TamperError} If it is unsigned for a game with an established
+ *   key, or its MAC doesn't match
+ */
+export async function decodeFullState<TState extends { gameId: string }>(
+  hashFragment: string,
+  gameType: string,
+  stateSchema: z.ZodType<TState>,
+  secrets: GameSecretStorage,
+  passphrase?: PassphraseProvider,
+  codecs?: PayloadCodecs
+): Promise<{ state: TState; target: TargetPlayer; signatures: MoveSignature[] }> {
+  const payload = readEnvelope(await decryptLink(hashFragment, secrets, passphrase), 'full-state', gameType, codecs);
+  const state = parseWithSchema(stateSchema, payload.state, 'game state');
+  const decoded = { state, target: payload.target, signatures: payload.signatures ?? [] };
+
+  if (payload.secret !== undefined) {
+    // Only a secret that signed this very link is stored, so a forged invite
+    // can't plant a key for the game
+    if (payload.mac === undefined || !(await verifyFullStateMAC(payload.secret, gameType, payload))) {
+      throw new TamperError('URL has been tampered with - full state MAC mismatch', 'full-state-mac');
+    }
+    secrets.acceptSecret(state.gameId, payload.secret);
+    return decoded;
+  }
+
+  if (payload.mac === undefined) {
+    if (secrets.getSecret(state.gameId) !== null) {
+      throw new TamperError('Full state is not authenticated - this game only accepts signed links', 'unsigned-full-state');
+    }
+    return decoded;
+  }
+
+  const verify = (secret: string) => verifyFullStateMAC(secret, gameType, payload);
+  const secret = await secrets.unlockSecret(state.gameId, passphrase, verify);
+  if (!(await verify(secret))) {
+    throw new TamperError('URL has been tampered with - full state MAC mismatch', 'full-state-mac');
+  }
+
+  return decoded;
+}
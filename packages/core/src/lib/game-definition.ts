@@ -0,0 +1,169 @@
+/**
+ * @fileoverview Game definition contract that every correspondence game plugs into
+ */
+
+import type { z } from 'zod';
+
+/**
+ * Player role (seat) within a two-player game.
+ */
+export type PlayerNumber = 1 | 2;
+
+/**
+ * Who a URL is intended for. Every game identifies the recipient by seat;
+ * games that track persistent player IDs also include the ID.
+ */
+export interface TargetPlayer {
+  seat: PlayerNumber;
+  playerId?: string;
+}
+
+/**
+ * Fields every game state carries so the engine can drive turns and checksums.
+ */
+export interface BaseGameState {
+  gameId: string;
+  currentTurn: number;
+  currentPlayer: PlayerNumber;
+  checksum: string;
+}
+
+/**
+ * Fields every move carries. `turn` is the turn number the move produces
+ * (the first move of a game is turn 1).
+ */
+export interface BaseMove {
+  player: PlayerNumber;
+  turn: number;
+}
+
+/**
+ * Game-agnostic view of whether a game is over and who won.
+ */
+export interface GameOutcome {
+  status: 'playing' | 'finished';
+  winner: PlayerNumber | null; // null while playing or on a draw
+}
+
+/**
+ * Identity of the player who creates a game.
+ */
+export interface GameCreator {
+  id: string;
+  name: string;
+}
+
+/**
+ * Identity locked to a seat once its player has signed a move.
+ */
+export interface SeatIdentity {
+  /** Player ID derived from the public key (see player-identity) */
+  playerId: string;
+  /** Raw P-256 public key, base64url encoded */
+  publicKey: string;
+}
+
+/**
+ * Public keys locked to the seats of a game, by seat.
+ */
+export type SeatKeys = Partial<Record<PlayerNumber, string>>;
+
+/**
+ * Everything the engine needs to know about a specific game.
+ *
+ * Definitions only describe game rules. Turn bookkeeping, checksums,
+ * deltas and URL encoding are handled by `GameEngine` so that every game
+ * behaves identically on the wire.
+ *
+ * @example
+ * ```typescript
+ * const engine = new GameEngine(ticTacToeDefinition);
+ * const state = await engine.createGame(crypto.randomUUID(), { id, name: 'Alice' });
+ * const { state: next, delta } = await engine.makeMove(state, move);
+ * ```
+ */
+export interface GameDefinition<TState extends BaseGameState, TMove extends BaseMove> {
+  /** Stable game type identifier, e.g. 'tic-tac-toe' */
+  id: string;
+
+  /** Zod schema used to validate decoded and stored states */
+  stateSchema: z.ZodType<TState>;
+
+  /** Zod schema used to validate decoded moves */
+  moveSchema: z.ZodType<TMove>;
+
+  /**
+   * Creates the state for a brand-new game (turn 0, player 1 to move).
+   * The checksum is filled in by the engine.
+   */
+  createInitialState(gameId: string, creator: GameCreator): TState;
+
+  /**
+   * Checks game-specific rules for a move. Turn order and turn numbering
+   * are already verified by the engine.
+   *
+   * @returns An error message, or null if the move is legal
+   */
+  validateMove(state: TState, move: TMove): string | null;
+
+  /**
+   * Applies the game-specific part of a legal move (board, chain, status).
+   * Must not mutate `state`. The engine updates turn, current player and checksum.
+   */
+  applyMove(state: TState, move: TMove): TState;
+
+  /**
+   * Reports whether the game is still in progress and who won.
+   */
+  getOutcome(state: TState): GameOutcome;
+
+  /**
+   * Checks that a decoded state is consistent with the rules (e.g. the
+   * turn counter matches the board). Run on every full state the engine
+   * decodes, after schema validation.
+   *
+   * @returns List of violations (empty if the state is consistent)
+   */
+  validateState?(state: TState): string[];
+
+  /**
+   * State fields covered by the checksum: the game-critical data (no
+   * timestamps, UI state or the checksum itself). The engine hashes the
+   * canonical JSON of exactly these fields (see calculateStateChecksum),
+   * so a field left out here can be edited without changing the checksum.
+   */
+  checksumFields: readonly (keyof TState & string)[];
+
+  /**
+   * Returns the public key locked to a seat, if any. Games that record
+   * player identities implement this and lockSeat; the engine then requires
+   * every move from a locked seat to be signed with that key.
+   */
+  getSeatKey?(state: TState, seat: PlayerNumber): string | undefined;
+
+  /**
+   * Records the identity that now owns a seat. Must not mutate `state`.
+   * The locked key must be covered by checksumFields so it can't be swapped.
+   */
+  lockSeat?(state: TState, seat: PlayerNumber, identity: SeatIdentity): TState;
+
+  /**
+   * Returns the move log carried in the state, or undefined if the state
+   * doesn't keep one. Games that implement this and setMoveHistory let
+   * receivers replay the log to check the state was reached legally
+   * (see move-history).
+   */
+  getMoveHistory?(state: TState): TMove[] | undefined;
+
+  /**
+   * Replaces the state's move log. Must not mutate `state`.
+   */
+  setMoveHistory?(state: TState, moves: TMove[]): TState;
+
+  /**
+   * Returns the game position a replayed move log must reproduce, e.g. the
+   * board and status. Defaults to the checksumFields; implement it when the
+   * checksum also covers data moves don't produce, like player names.
+   */
+  getPosition?(state: TState): unknown;
+}
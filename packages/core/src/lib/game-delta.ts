@@ -0,0 +1,236 @@
+/**
+ * @fileoverview Generic signed-delta protocol shared by every game
+ */
+
+import { z } from 'zod';
+import { canonicalJson } from './canonical-json';
+import { StateMismatchError, TamperError } from './errors';
+import type { TargetPlayer } from './game-definition';
+import { generateHMAC, verifyHMAC } from './hmac';
+import { verifySignature } from './player-identity';
+import { parseWithSchema } from './safe-decode';
+import { encodeEnvelope, readEnvelope, type PayloadCodecs } from './url-envelope';
+
+/**
+ * A single signed move, sent instead of the full state once both players have the game.
+ */
+export interface GameDelta<TMove> {
+  gameId: string;
+  move: TMove;
+  prevChecksum: string;
+  newChecksum: string;
+  /** Mover's public key, sent with the move that locks their seat */
+  publicKey?: string;
+  /** Mover's ECDSA signature (see player-identity) */
+  signature?: string;
+  hmac: string;
+}
+
+/**
+ * Signs deltas on behalf of the mover, usually a PlayerIdentity.
+ */
+export interface DeltaSigner {
+  sign(data: string): Promise<string>;
+}
+
+/**
+ * Game-specific hooks used by applyDelta.
+ */
+export interface DeltaApplier<TState, TMove> {
+  /**
+   * Checksum of a state, compared against prevChecksum/newChecksum.
+   * Hash-chained games return the checksum stored with the state (see
+   * chainChecksum) so states are never re-hashed.
+   */
+  checksum(state: TState): string | Promise<string>;
+  /**
+   * Validates and applies a move, throwing if it is illegal. Must not mutate `state`.
+   * The whole delta is passed for appliers that check the mover's signature.
+   */
+  apply(state: TState, move: TMove, delta: GameDelta<TMove>): TState | Promise<TState>;
+}
+
+const HEX_256 = /^[0-9a-f]{64}$/;
+const BASE64URL = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Builds a strict schema validating a whole delta for a game's move schema.
+ * Unknown fields are rejected rather than silently carried along.
+ */
+export function createDeltaSchema<TMove>(moveSchema: z.ZodType<TMove>): z.ZodType<GameDelta<TMove>> {
+  return z.strictObject({
+    gameId: z.string().min(1).max(64),
+    move: moveSchema,
+    prevChecksum: z.string().min(1).max(128),
+    newChecksum: z.string().min(1).max(128),
+    publicKey: z.string().max(128).regex(BASE64URL).optional(),
+    signature: z.string().max(128).regex(BASE64URL).optional(),
+    hmac: z.string().regex(HEX_256),
+  }) as z.ZodType<GameDelta<TMove>>;
+}
+
+/**
+ * Canonical HMAC and signature input for a delta: the canonical JSON of the
+ * fields below, so HMACs don't depend on how the delta or move object was
+ * built. Absent optional fields are left out.
+ */
+function deltaSigningInput<TMove>(delta: Omit<GameDelta<TMove>, 'hmac'>): string {
+  return canonicalJson({
+    gameId: delta.gameId,
+    move: delta.move,
+    prevChecksum: delta.prevChecksum,
+    newChecksum: delta.newChecksum,
+    publicKey: delta.publicKey,
+    signature: delta.signature,
+  });
+}
+
+/**
+ * Creates a delta signed with the game secret and, when a signer is given,
+ * the mover's identity key.
+ *
+ * @param signer - Mover's identity; the signature covers everything but the HMAC
+ * @param publicKey - Mover's public key, included only while their seat is unlocked
+ */
+export async function createDelta<TMove>(
+  gameId: string,
+  move: TMove,
+  prevChecksum: string,
+  newChecksum: string,
+  secret: string,
+  signer?: DeltaSigner,
+  publicKey?: string
+): Promise<GameDelta<TMove>> {
+  const delta: Omit<GameDelta<TMove>, 'hmac'> = {
+    gameId,
+    move,
+    prevChecksum,
+    newChecksum,
+  };
+
+  if (publicKey !== undefined) {
+    delta.publicKey = publicKey;
+  }
+  if (signer) {
+    delta.signature = await signer.sign(deltaSigningInput(delta));
+  }
+
+  const hmac = await generateHMAC(secret, deltaSigningInput(delta));
+
+  return { ...delta, hmac };
+}
+
+/**
+ * Checks that a delta was signed by the holder of `publicKey`.
+ */
+export async function verifyDeltaSignature<TMove>(delta: GameDelta<TMove>, publicKey: string): Promise<boolean> {
+  const { hmac: _hmac, signature, ...unsigned } = delta;
+  if (signature === undefined) {
+    return false;
+  }
+  return verifySignature(publicKey, deltaSigningInput(unsigned), signature);
+}
+
+/**
+ * Checks a delta's HMAC against the game secret in constant time.
+ */
+export async function verifyDeltaHMAC<TMove>(delta: GameDelta<TMove>, secret: string): Promise<boolean> {
+  return verifyHMAC(secret, deltaSigningInput(delta), delta.hmac);
+}
+
+/**
+ * Encodes delta into URL hash fragment with embedded target player.
+ * The target is hidden inside the compressed payload.
+ *
+ * @param delta - The delta to encode
+ * @param target - Which player this URL is intended for
+ * @param gameType - GameDefinition id of the game
+ * @param codecs - The game's binary codecs, for a compact link (see binary-codec)
+ * @returns Hash fragment like "#d=2.<gameType>.<compressed-payload>"
+ */
+export function encodeDelta<TMove>(
+  delta: GameDelta<TMove>,
+  target: TargetPlayer,
+  gameType: string,
+  codecs?: PayloadCodecs
+): string {
+  return encodeEnvelope('delta', gameType, { delta, target }, codecs);
+}
+
+/**
+ * Decodes delta from URL hash fragment, extracting the embedded target player.
+ * Links from every earlier protocol version are understood (see url-envelope).
+ *
+ * @param hashFragment - Hash like "#d=2.<gameType>.<compressed-payload>"
+ * @param gameType - GameDefinition id the link must belong to
+ * @param moveSchema - Optional move schema; when given the whole delta is validated
+ * @param codecs - The game's binary codecs, to read compact links
+ * @returns Object with delta and target (extracted from payload)
+ * @throws {PayloadDecodeError} If the link exceeds the decode limits or the
+ *   delta doesn't match the schema
+ */
+export function decodeDelta<TMove>(
+  hashFragment: string,
+  gameType: string,
+  moveSchema?: z.ZodType<TMove>,
+  codecs?: PayloadCodecs
+): { delta: GameDelta<TMove>; target: TargetPlayer } {
+  const { delta, target } = readEnvelope(hashFragment, 'delta', gameType, codecs);
+
+  return {
+    delta: moveSchema ? parseWithSchema(createDeltaSchema(moveSchema), delta, 'delta') : (delta as GameDelta<TMove>),
+    target,
+  };
+}
+
+/**
+ * Verifies and applies a delta to the current state.
+ *
+ * Every game runs the same checks in the same order:
+ * 1. HMAC (tamper detection)
+ * 2. Current state matches prevChecksum
+ * 3. Move is applied by the game (which rejects illegal moves)
+ * 4. Resulting state matches newChecksum
+ *
+ * @throws {TamperError} If the HMAC doesn't match
+ * @throws {StateMismatchError} If either checksum doesn't match
+ * @throws {Error} Whatever `applier.apply` throws for an illegal move
+ */
+export async function applyDelta<TState, TMove>(
+  currentState: TState,
+  delta: GameDelta<TMove>,
+  secret: string,
+  applier: DeltaApplier<TState, TMove>
+): Promise<TState> {
+  // 1. Verify HMAC (tamper detection)
+  if (!(await verifyDeltaHMAC(delta, secret))) {
+    throw new TamperError('URL has been tampered with - HMAC mismatch', 'delta-hmac');
+  }
+
+  // 2. Verify current state matches expected previous state
+  const currentChecksum = await applier.checksum(currentState);
+  if (currentChecksum !== delta.prevChecksum) {
+    throw new StateMismatchError(
+      'Board state mismatch - current state does not match expected previous state',
+      'prevChecksum',
+      delta.prevChecksum,
+      currentChecksum
+    );
+  }
+
+  // 3. Apply move
+  const newState = await applier.apply(currentState, delta.move, delta);
+
+  // 4. Verify result matches expected new state
+  const newChecksum = await applier.checksum(newState);
+  if (newChecksum !== delta.newChecksum) {
+    throw new StateMismatchError(
+      'Move application failed - checksum mismatch',
+      'newChecksum',
+      delta.newChecksum,
+      newChecksum
+    );
+  }
+
+  return newState;
+}
@@ -0,0 +1,701 @@
+/**
+ * @fileoverview Generic engine that drives turns, checksums, deltas and URL
+ * encoding for any game implementing GameDefinition
+ */
+
+import { createPayloadCodecs } from './binary-codec';
+import { calculateStateChecksum, chainChecksum } from './checksum';
+import {
+  IllegalMoveError,
+  KeyUnavailableError,
+  MoveConflictError,
+  StaleMoveError,
+  StateMismatchError,
+  TamperError,
+} from './errors';
+import type {
+  BaseGameState,
+  BaseMove,
+  GameCreator,
+  GameDefinition,
+  SeatIdentity,
+  SeatKeys,
+  TargetPlayer,
+} from './game-definition';
+import {
+  applyDelta,
+  createDelta,
+  decodeDelta,
+  encodeDelta,
+  verifyDeltaHMAC,
+  verifyDeltaSignature,
+  type GameDelta,
+} from './game-delta';
+import {
+  GameSecretStorage,
+  type FullStateEncodeOptions,
+  type PassphraseOptions,
+  type PassphraseProvider,
+} from './game-secret';
+import { decodeFullState, encodeFullState } from './full-state-mac';
+import { applyTurn, assertValidState, replayMoves, validateTurn, verifyMoveHistory } from './move-history';
+import { MoveLedger, describeLedgerVerdict, type MoveConflict } from './move-ledger';
+import { decryptLink, encryptHashFragment } from './payload-encryption';
+import { derivePlayerId, type PlayerIdentity } from './player-identity';
+import type { StorageAdapter } from './storage-adapter';
+import type { MoveSignature, PayloadCodecs } from './url-envelope';
+
+export interface GameEngineOptions extends PassphraseOptions {
+  /** Backend for the default secrets and ledger (defaults to localStorage) */
+  storage?: StorageAdapter;
+  /** Where per-game secrets are kept (defaults to the storage option) */
+  secrets?: GameSecretStorage;
+  /** This browser's identity, used to sign moves in games that lock seats */
+  identity?: PlayerIdentity;
+  /** Turns this device has accepted, used to refuse older links (defaults to the storage option) */
+  ledger?: MoveLedger;
+  /**
+   * Keep a move log in new games' state so receivers can replay it (needs
+   * get/setMoveHistory). Games that lock seats need it to accept full states
+   * that are ahead of this device.
+   */
+  recordHistory?: boolean;
+  /**
+   * Write compact binary links derived from the game's schemas (see
+   * binary-codec). Both players' engines must use it; it also lets the
+   * engine read such links.
+   */
+  compactLinks?: boolean;
+}
+
+/**
+ * Outcome of receiving a delta: either it was applied, or the opponent had
+ * already signed a different move from the same position.
+ */
+export type DeltaReceipt<TState, TMove> =
+  | { status: 'applied'; state: TState }
+  | { status: 'conflict'; conflict: MoveConflict<TMove> };
+
+/**
+ * Drives a game described by a GameDefinition.
+ *
+ * The engine owns everything that is identical across games: turn order,
+ * turn numbering, state checksums, HMAC-signed deltas and URL encoding.
+ * Games only provide their rules through the definition.
+ *
+ * Each game is signed with its own random secret, created with the game and
+ * handed to Player 2 in the invite link. Passphrase-protected games derive
+ * the secret from a passphrase instead, asking Player 2 for it through the
+ * `passphrase` hook when their invite arrives.
+ *
+ * For games whose definition implements getSeatKey/lockSeat, moves are also
+ * signed with the mover's identity key. A seat is locked to the first key
+ * that signs a move for it, and every later move from that seat must carry
+ * a valid signature by the same key. Unsigned moves are only accepted while
+ * neither seat is locked, which is how two players without identities play:
+ * once either player has one, the other seat can only be taken by a signed
+ * move, so nobody holding the game secret can keep it unsigned.
+ *
+ * Every failure is thrown as a CorrespondenceGameError subclass with a
+ * stable `code` (see errors), so apps never need to match on messages.
+ *
+ * Links can be encrypted with the game secret so that only the opponent's
+ * device can read them. Run every incoming link through decryptLink() (or
+ * decodeFullState(), which does it for you) before decoding.
+ *
+ * Every state the engine creates or accepts is recorded in a MoveLedger, so
+ * reopening an older link (a rollback to a turn where someone was winning)
+ * is refused with an "older move" error instead of rewinding the game. If the
+ * opponent signs two different moves from the same position, receiveDelta()
+ * reports a conflict and keeps both deltas as evidence.
+ *
+ * With `recordHistory`, new games keep a log of every move in their state.
+ * Received full states that carry a log are replayed through the rules and
+ * refused if the replay doesn't reproduce them.
+ *
+ * A full state is only MAC'd with the game secret, which both players hold,
+ * so it is also held to the seat locks of the last state this device
+ * accepted: locked keys can't change, and moves made since must be signed
+ * like deltas. Full-state links carry the identity signatures for this, and
+ * games that lock seats need `recordHistory` so the moves can be checked.
+ *
+ * With `compactLinks`, links are packed with a binary layout derived from
+ * the definition's schemas instead of JSON, which roughly halves their length.
+ *
+ * @example
+ * ```typescript
+ * const engine = new GameEngine(ticTacToeDefinition);
+ *
+ * // Player 1 creates the game, moves and sends the invite
+ * let state = await engine.createGame(crypto.randomUUID(), { id: myId, name: 'Alice' });
+ * ({ state } = await engine.makeMove(state, { player: 1, cellIndex: 4, mark: 'X', turn: 1 }));
+ * const invite = await engine.encodeFullState(state, { seat: 2 }, { includeSecret: true });
+ *
+ * // Player 2 opens the invite (storing the secret) and replies with a delta
+ * ({ state } = await engine.decodeFullState(invite));
+ * const { delta } = await engine.makeMove(state, { player: 2, cellIndex: 0, mark: 'O', turn: 2 });
+ * const hash = engine.encodeDelta(delta, { seat: 1 });
+ *
+ * // Player 1 applies the delta to their copy
+ * const { delta: received } = engine.decodeDelta(hash);
+ * state = await engine.applyDelta(state, received);
+ * ```
+ */
+export class GameEngine<TState extends BaseGameState, TMove extends BaseMove> {
+  private readonly secrets: GameSecretStorage;
+  private readonly passphrase: PassphraseProvider | undefined;
+  private readonly identity: PlayerIdentity | undefined;
+  private readonly ledger: MoveLedger;
+  private readonly recordHistory: boolean;
+  private readonly codecs: PayloadCodecs | undefined;
+
+  constructor(
+    readonly definition: GameDefinition<TState, TMove>,
+    options: GameEngineOptions = {}
+  ) {
+    this.secrets = options.secrets ?? new GameSecretStorage(options.storage);
+    this.passphrase = options.passphrase;
+    this.identity = options.identity;
+    this.ledger = options.ledger ?? new MoveLedger(options.storage);
+    this.recordHistory = options.recordHistory ?? false;
+    this.codecs = options.compactLinks
+      ? createPayloadCodecs(definition.stateSchema, definition.moveSchema)
+      : undefined;
+  }
+
+  /**
+   * Creates a new game with its initial checksum and secret.
+   *
+   * @param gameId - Unique game identifier
+   * @param creator - Player 1's persistent ID and name
+   * @param options - Set passphrase to derive the secret from it instead of generating one
+   */
+  async createGame(
+    gameId: string,
+    creator: GameCreator,
+    options: { passphrase?: string } = {}
+  ): Promise<TState> {
+    if (options.passphrase !== undefined) {
+      await this.secrets.setPassphrase(gameId, options.passphrase);
+    } else {
+      this.secrets.getOrCreateSecret(gameId);
+    }
+
+    let state = this.definition.createInitialState(gameId, creator);
+    if (this.recordHistory && this.definition.setMoveHistory) {
+      state = this.definition.setMoveHistory(state, []);
+    }
+    if (this.identity && this.definition.lockSeat) {
+      state = this.definition.lockSeat(state, 1, this.ownIdentity(this.identity));
+    }
+    const created = { ...state, checksum: await this.calculateChecksum(state) };
+    this.record(created);
+    return created;
+  }
+
+  /**
+   * Calculates the SHA-256 checksum of the game-critical part of a state.
+   * New games start with this checksum; every move then extends it as a
+   * hash chain (see chainChecksum), so later checksums can't be recomputed
+   * from a state alone.
+   *
+   * @returns SHA-256 checksum as 64-character hex string
+   */
+  async calculateChecksum(state: TState): Promise<string> {
+    return calculateStateChecksum(state, this.definition.checksumFields);
+  }
+
+  /**
+   * Checks turn order, turn numbering and game-specific rules.
+   *
+   * @returns An error message, or null if the move is legal
+   */
+  validateMove(state: TState, move: TMove): string | null {
+    return validateTurn(this.definition, state, move);
+  }
+
+  /**
+   * Replays the state's move log, if it keeps one, through the game rules.
+   *
+   * @returns An error message, or null if the log reproduces the state or there is no log
+   */
+  verifyMoveHistory(state: TState): string | null {
+    return verifyMoveHistory(this.definition, state);
+  }
+
+  /**
+   * Applies a local move and produces the signed delta to send to the opponent.
+   * In games that lock seats, the move is signed with this browser's identity
+   * and its first move locks the seat to it.
+   *
+   * @throws {IllegalMoveError} If the move is illegal
+   * @throws {KeyUnavailableError} If no secret is stored for the game, the
+   *   seat is locked to a key this browser doesn't hold, or the other seat is
+   *   locked and this browser has no identity
+   */
+  async makeMove(state: TState, move: TMove): Promise<{ state: TState; delta: GameDelta<TMove> }> {
+    const normalizedMove = this.definition.moveSchema.parse(move);
+
+    let signer: PlayerIdentity | undefined;
+    let claim: SeatIdentity | undefined;
+    if (this.definition.getSeatKey) {
+      const lockedKey = this.definition.getSeatKey(state, normalizedMove.player);
+      if (lockedKey !== undefined && lockedKey !== this.identity?.publicKey) {
+        throw new KeyUnavailableError(
+          `This browser does not hold the identity key for seat ${normalizedMove.player}`,
+          'no-identity-key'
+        );
+      }
+      const otherKey = this.definition.getSeatKey(state, normalizedMove.player === 1 ? 2 : 1);
+      if (!this.identity && otherKey !== undefined) {
+        throw new KeyUnavailableError(
+          `Seat ${normalizedMove.player} must be claimed with an identity key - the other player has one`,
+          'no-identity-key'
+        );
+      }
+      signer = this.identity;
+      if (this.identity && lockedKey === undefined) {
+        claim = this.ownIdentity(this.identity);
+      }
+    }
+
+    const next = await this.advance(state, normalizedMove, claim);
+    const delta = await createDelta(
+      state.gameId,
+      normalizedMove,
+      state.checksum,
+      next.checksum,
+      this.secrets.requireSecret(state.gameId),
+      signer,
+      claim?.publicKey
+    );
+
+    this.record(next, delta);
+    return { state: next, delta };
+  }
+
+  /**
+   * Verifies and applies a delta received from the opponent.
+   *
+   * @throws {MoveConflictError} If the delta conflicts with a move already accepted for
+   *   the same turn (use receiveDelta() to get the evidence), or for any
+   *   reason receiveDelta() throws
+   */
+  async applyDelta(state: TState, delta: GameDelta<TMove>): Promise<TState> {
+    const receipt = await this.receiveDelta(state, delta);
+    if (receipt.status === 'conflict') {
+      throw new MoveConflictError(
+        `Conflicting moves for turn ${receipt.conflict.turn} - the opponent already sent a different move from this position`,
+        receipt.conflict
+      );
+    }
+    return receipt.state;
+  }
+
+  /**
+   * Verifies and applies a delta received from the opponent, reporting
+   * equivocation instead of applying it.
+   *
+   * A delta for the same player and turn as one already received from the
+   * opponent, made from the same position but producing a different state,
+   * is not applied: if both are signed by the seat's key and the new move is
+   * legal from that position, both deltas are stored (see getMoveConflicts())
+   * and returned as a conflict so the app can decide which move stands and
+   * show the proof to both players. Anything short of that proves nothing and
+   * is refused like any other older or diverging move.
+   *
+   * @throws {CorrespondenceGameError} If the delta is an older move than this device has
+   *   already seen, was tampered with, does not follow from the current
+   *   state, is not signed by the seat's locked key, is illegal, or produces
+   *   a different state than claimed
+   */
+  async receiveDelta(state: TState, delta: GameDelta<TMove>): Promise<DeltaReceipt<TState, TMove>> {
+    if (delta.gameId !== state.gameId) {
+      throw new StateMismatchError('Delta belongs to a different game', 'gameId', state.gameId, delta.gameId);
+    }
+
+    const rival = this.ledger.findConflictingDelta(delta);
+    const accepted =
+      rival && rival.move.player === delta.move.player && rival.move.turn === delta.move.turn ? rival : null;
+    if (!accepted) {
+      this.assertNotStale(delta.gameId, delta.move.turn, delta.newChecksum);
+    }
+
+    const secret = await this.secrets.unlockSecret(
+      state.gameId,
+      this.passphrase,
+      (candidate) => verifyDeltaHMAC(delta, candidate)
+    );
+
+    if (accepted) {
+      // Only authentic moves count as evidence; a forged one is just tampering
+      if (!(await verifyDeltaHMAC(delta, secret))) {
+        throw new TamperError('URL has been tampered with - HMAC mismatch', 'delta-hmac');
+      }
+      if (await this.verifyConflict(state, accepted, delta)) {
+        const conflict: MoveConflict<TMove> = {
+          gameId: delta.gameId,
+          turn: delta.move.turn,
+          prevChecksum: delta.prevChecksum,
+          accepted,
+          conflicting: delta,
+          detectedAt: Date.now(),
+        };
+        this.ledger.recordConflict(conflict);
+        return { status: 'conflict', conflict };
+      }
+      this.assertNotStale(delta.gameId, delta.move.turn, delta.newChecksum);
+    }
+
+    // prevChecksum is compared with this device's own chain; the new checksum
+    // is recomputed from it, never taken from the delta
+    const next = await applyDelta(state, delta, secret, {
+      checksum: (s) => s.checksum,
+      apply: async (s, move, received) => {
+        const claim = await this.verifyMover(this.seatKeys(s), move, received);
+        const checksum = await chainChecksum(s.checksum, move, claim?.publicKey);
+        if (checksum !== received.newChecksum) {
+          throw new StateMismatchError(
+            'Move application failed - checksum mismatch',
+            'newChecksum',
+            received.newChecksum,
+            checksum
+          );
+        }
+        return this.advance(s, move, claim);
+      },
+    });
+    this.record(next, delta, true);
+    return { status: 'applied', state: next };
+  }
+
+  /**
+   * Conflicting moves recorded for a game, oldest first.
+   */
+  getMoveConflicts(gameId: string): MoveConflict<TMove>[] {
+    return this.ledger.getConflicts<TMove>(gameId);
+  }
+
+  /**
+   * Encodes full game state into a URL hash fragment for the given player,
+   * signed with the game secret (see full-state-mac).
+   *
+   * @param options - Set includeSecret for the invite link only; set encrypt
+   *   to hide the payload from anyone without the game secret
+   * @returns Hash fragment like "#s=2.<gameType>.<compressed-payload>"
+   * @throws {CorrespondenceGameError} If no secret is stored, or includeSecret is set for a
+   *   passphrase-protected game or together with encrypt
+   */
+  async encodeFullState(
+    state: TState,
+    target: TargetPlayer,
+    options: FullStateEncodeOptions = {}
+  ): Promise<string> {
+    return encodeFullState(
+      this.definition.id,
+      state,
+      target,
+      this.secrets,
+      options,
+      this.codecs,
+      this.fullStateSignatures(state, target)
+    );
+  }
+
+  /**
+   * Decodes, validates and authenticates full game state from a URL hash
+   * fragment (see full-state-mac). Encrypted links are decrypted first, and
+   * the passphrase is asked for if no secret is stored yet.
+   *
+   * @throws {CorrespondenceGameError} If the link can't be read, is for another game, fails
+   *   validation, carries a different secret than the one stored, is
+   *   unsigned for a game with an established key, its MAC doesn't match,
+   *   it breaks the game's rules, its move log doesn't reproduce it, it holds an older state than this
+   *   device has already seen, or it breaks the seat locks (see verifySeatLocks)
+   */
+  async decodeFullState(hashFragment: string): Promise<{ state: TState; target: TargetPlayer }> {
+    const { state, target, signatures } = await decodeFullState(
+      hashFragment,
+      this.definition.id,
+      this.definition.stateSchema,
+      this.secrets,
+      this.passphrase,
+      this.codecs
+    );
+
+    assertValidState(this.definition, state);
+    this.assertNotStale(state.gameId, state.currentTurn, state.checksum);
+    await this.verifySeatLocks(state, signatures);
+    this.record(state);
+    return { state, target };
+  }
+
+  /**
+   * Encrypts a link with the game secret so only the opponent's device can read it.
+   *
+   * @returns Hash fragment like "#d=2.<gameType>.e.<gameId>.<ciphertext>"
+   * @throws {KeyUnavailableError} If no secret is stored for the game
+   */
+  async encryptLink(hashFragment: string, gameId: string): Promise<string> {
+    return encryptHashFragment(hashFragment, gameId, this.secrets.requireSecret(gameId));
+  }
+
+  /**
+   * Decrypts an encrypted link, asking for the passphrase if this device has
+   * no secret for the game yet. Plain links are returned unchanged.
+   *
+   * @throws {CorrespondenceGameError} If this device has no key for the game, or the link was
+   *   not encrypted with it
+   */
+  async decryptLink(hashFragment: string): Promise<string> {
+    return decryptLink(hashFragment, this.secrets, this.passphrase);
+  }
+
+  /**
+   * Encodes a delta into a URL hash fragment for the given player.
+   *
+   * @returns Hash fragment like "#d=2.<gameType>.<compressed-payload>"
+   */
+  encodeDelta(delta: GameDelta<TMove>, target: TargetPlayer): string {
+    return encodeDelta(delta, target, this.definition.id, this.codecs);
+  }
+
+  /**
+   * Decodes and validates a delta from a URL hash fragment.
+   * Encrypted links must be passed through decryptLink() first.
+   *
+   * @throws {DecodeError} If the link can't be read, is encrypted, is for another
+   *   game, or fails validation
+   * @throws {LegacyFormatError} If the link's protocol version is no longer supported
+   */
+  decodeDelta(hashFragment: string): { delta: GameDelta<TMove>; target: TargetPlayer } {
+    return decodeDelta(hashFragment, this.definition.id, this.definition.moveSchema, this.codecs);
+  }
+
+  /**
+   * Checks a received move's signature against the key locked to the mover's
+   * seat, or against the key it announces if the seat is still open. An open
+   * seat may only be taken unsigned if the other seat is open too.
+   *
+   * @returns The identity to lock to the seat, if the move claims it
+   */
+  private async verifyMover(
+    seatKeys: SeatKeys,
+    move: TMove,
+    delta: GameDelta<TMove>
+  ): Promise<SeatIdentity | undefined> {
+    if (!this.definition.getSeatKey) {
+      return undefined;
+    }
+
+    const lockedKey = seatKeys[move.player];
+    if (lockedKey !== undefined) {
+      if (delta.publicKey !== undefined && delta.publicKey !== lockedKey) {
+        throw new TamperError(`Seat ${move.player} is already claimed by another player`, 'seat-claimed');
+      }
+      if (!(await verifyDeltaSignature(delta, lockedKey))) {
+        throw new TamperError(`Move was not signed by the player in seat ${move.player}`, 'move-signature');
+      }
+      return undefined;
+    }
+
+    // Unclaimed seat: unsigned moves are only accepted while neither player has an identity
+    if (delta.publicKey === undefined) {
+      if (seatKeys[move.player === 1 ? 2 : 1] !== undefined) {
+        throw new TamperError(
+          `Seat ${move.player} must be claimed with a signed move - the other player has an identity`,
+          'unsigned-move'
+        );
+      }
+      return undefined;
+    }
+    if (!(await verifyDeltaSignature(delta, delta.publicKey))) {
+      throw new TamperError('Move signature does not match its public key', 'move-signature');
+    }
+    return { playerId: await derivePlayerId(delta.publicKey), publicKey: delta.publicKey };
+  }
+
+  /**
+   * Checks that a delta contradicting one already received from the opponent
+   * proves equivocation: both are signed by the key locked to the mover's
+   * seat, and the new move is legal from the position both were made from
+   * (replayed from the state's move log) and produces the checksum it claims.
+   *
+   * @returns False if the deltas can't prove anything: the seat isn't locked,
+   *   the accepted delta isn't signed by it, or there is no move log to replay
+   * @throws {TamperError} If the new delta isn't signed by the seat's key
+   * @throws {IllegalMoveError} If the new move is illegal from that position
+   * @throws {StateMismatchError} If it doesn't produce the checksum it claims
+   */
+  private async verifyConflict(state: TState, accepted: GameDelta<TMove>, delta: GameDelta<TMove>): Promise<boolean> {
+    const { player, turn } = delta.move;
+    const seatKey = this.definition.getSeatKey?.(state, player);
+    const moves = this.definition.getMoveHistory?.(state);
+    if (seatKey === undefined || !(await verifyDeltaSignature(accepted, seatKey)) || !moves || moves.length < turn - 1) {
+      return false;
+    }
+    await this.verifyMover({ [player]: seatKey }, delta.move, delta);
+
+    const position = replayMoves(this.definition, state.gameId, moves.slice(0, turn - 1));
+    const error = validateTurn(this.definition, position, delta.move);
+    if (error) {
+      throw new IllegalMoveError(`Illegal move: ${error}`, error);
+    }
+
+    const checksum = await chainChecksum(delta.prevChecksum, delta.move, delta.publicKey);
+    if (checksum !== delta.newChecksum) {
+      throw new StateMismatchError('Move application failed - checksum mismatch', 'newChecksum', delta.newChecksum, checksum);
+    }
+    return true;
+  }
+
+  /**
+   * Holds a full state to the seat locks of the last state this device
+   * accepted for the game. Locked keys can't change, and every move since
+   * must pass verifyMover, using the signatures the link carries and the
+   * hash chain from the accepted checksum to rebuild the deltas they sign.
+   * The first state of a game this device sees is taken on trust, like the
+   * seat locks in an invite.
+   *
+   * @throws {TamperError} If a seat's key changed or no signed move claimed
+   *   it, a move isn't signed by its seat, or there is no move log to check
+   * @throws {StateMismatchError} If the moves don't lead from the accepted state to this one
+   */
+  private async verifySeatLocks(state: TState, signatures: MoveSignature[]): Promise<void> {
+    const latest = this.ledger.getLatest(state.gameId);
+    if (!this.definition.getSeatKey || !latest) {
+      return;
+    }
+
+    const seatKeys = this.ledger.getSeatKeys(state.gameId);
+    const claimed = this.seatKeys(state);
+    for (const seat of [1, 2] as const) {
+      if (seatKeys[seat] !== undefined && claimed[seat] !== seatKeys[seat]) {
+        throw new TamperError(`Seat ${seat} is already claimed by another player`, 'seat-claimed');
+      }
+    }
+
+    if (state.currentTurn > latest.turn && Object.keys(claimed).length > 0) {
+      const moves = this.definition.getMoveHistory?.(state);
+      if (!moves) {
+        throw new TamperError(
+          `Full state has no move log to show the moves since turn ${latest.turn} were signed`,
+          'move-signature'
+        );
+      }
+
+      let checksum = latest.checksum;
+      for (const move of moves.slice(latest.turn)) {
+        const signed = signatures.find((s) => s.turn === move.turn);
+        const delta: GameDelta<TMove> = {
+          gameId: state.gameId,
+          move,
+          prevChecksum: checksum,
+          newChecksum: await chainChecksum(checksum, move, signed?.publicKey),
+          hmac: '',
+        };
+        if (signed?.publicKey !== undefined) delta.publicKey = signed.publicKey;
+        if (signed) delta.signature = signed.signature;
+
+        const claim = await this.verifyMover(seatKeys, move, delta);
+        if (claim) seatKeys[move.player] = claim.publicKey;
+        checksum = delta.newChecksum;
+      }
+
+      if (checksum !== state.checksum) {
+        throw new StateMismatchError(
+          'Full state does not follow from the last state accepted on this device',
+          'newChecksum',
+          state.checksum,
+          checksum
+        );
+      }
+    }
+
+    for (const seat of [1, 2] as const) {
+      if (claimed[seat] !== seatKeys[seat]) {
+        throw new TamperError(`Seat ${seat} is locked to a key no signed move claimed`, 'seat-claimed');
+      }
+    }
+  }
+
+  /**
+   * Identity signatures of the moves made since the recipient's last move,
+   * taken from the deltas in the ledger. The recipient has accepted every
+   * move up to their own, so these are the ones verifySeatLocks needs.
+   */
+  private fullStateSignatures(state: TState, target: TargetPlayer): MoveSignature[] {
+    const moves = this.definition.getSeatKey ? this.definition.getMoveHistory?.(state) : undefined;
+    if (!moves) {
+      return [];
+    }
+
+    let since = 0;
+    moves.forEach((move, i) => {
+      if (move.player === target.seat) since = i + 1;
+    });
+    const deltas = new Map(this.ledger.getEntries(state.gameId).map((entry) => [entry.turn, entry.delta]));
+
+    return moves.slice(since).flatMap(({ turn }): MoveSignature[] => {
+      const delta = deltas.get(turn);
+      if (delta?.signature === undefined) return [];
+      return [
+        delta.publicKey === undefined
+          ? { turn, signature: delta.signature }
+          : { turn, publicKey: delta.publicKey, signature: delta.signature },
+      ];
+    });
+  }
+
+  /**
+   * Refuses states older than (or diverging from) the latest one this device accepted.
+   */
+  private assertNotStale(gameId: string, turn: number, checksum: string): void {
+    const verdict = this.ledger.check(gameId, turn, checksum);
+    const message = describeLedgerVerdict(verdict);
+    if (message) {
+      throw new StaleMoveError(message, verdict);
+    }
+  }
+
+  /**
+   * @param received - True if the delta came from the opponent
+   */
+  private record(state: TState, delta?: GameDelta<TMove>, received = false): void {
+    const seatKeys = this.seatKeys(state);
+    this.ledger.record(state.gameId, state.currentTurn, state.checksum, delta, {
+      ...(received && { received }),
+      ...(Object.keys(seatKeys).length > 0 && { seatKeys }),
+    });
+  }
+
+  private seatKeys(state: TState): SeatKeys {
+    const seatKeys: SeatKeys = {};
+    for (const seat of [1, 2] as const) {
+      const key = this.definition.getSeatKey?.(state, seat);
+      if (key !== undefined) seatKeys[seat] = key;
+    }
+    return seatKeys;
+  }
+
+  private ownIdentity(identity: PlayerIdentity): SeatIdentity {
+    return { playerId: identity.playerId, publicKey: identity.publicKey };
+  }
+
+  /**
+   * Validates a move and produces the next state with turn bookkeeping and
+   * the next checksum in the chain, locking the mover's seat if the move claims it.
+   */
+  private async advance(state: TState, move: TMove, claim?: SeatIdentity): Promise<TState> {
+    const error = this.validateMove(state, move);
+    if (error) {
+      throw new IllegalMoveError(`Illegal move: ${error}`, error);
+    }
+
+    const claimed = claim && this.definition.lockSeat
+      ? this.definition.lockSeat(state, move.player, claim)
+      : state;
+    const next = applyTurn(this.definition, claimed, move);
+    return { ...next, checksum: await chainChecksum(state.checksum, move, claim?.publicKey) };
+  }
+}
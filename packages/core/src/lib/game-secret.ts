@@ -0,0 +1,258 @@
+/**
+ * @fileoverview Per-game random shared secrets used to sign moves
+ *
+ * Player 1 generates a secret when creating a game and delivers it to
+ * Player 2 inside the invite link only. Both browsers persist it per gameId
+ * and use it for every subsequent HMAC, so nothing in the shipped bundle is
+ * enough to forge a move.
+ *
+ * Passphrase-protected games never put the secret in a link. Both players
+ * type a passphrase agreed out-of-band and derive the same secret from it,
+ * so a leaked invite link alone can't be used to play the game.
+ */
+
+import { z } from 'zod';
+import { InvalidInputError, KeyUnavailableError } from './errors';
+import { isVersionedRecord, legacyRecord, loadRecord, writeRecord } from './record-migrations';
+import { LocalStorageAdapter, type StorageAdapter } from './storage-adapter';
+
+const STORAGE_PREFIX = 'correspondence-games:game-secret:';
+const SOURCE_PREFIX = 'correspondence-games:game-secret-source:';
+const GAME_SECRET_RECORD = 'game-secret';
+const SECRET_BYTES = 32;
+const PBKDF2_ITERATIONS = 600_000;
+
+/**
+ * Asks the player for a game's passphrase, e.g. by showing a prompt.
+ * Resolves to null if the player cancels.
+ */
+export type PassphraseProvider = (gameId: string) => Promise<string | null>;
+
+export interface PassphraseOptions {
+  /** Called when a link arrives for a game this browser holds no secret for */
+  passphrase?: PassphraseProvider;
+}
+
+export interface SecretStorageOptions {
+  /** Where per-game secrets are kept (defaults to localStorage) */
+  secrets?: GameSecretStorage;
+}
+
+/**
+ * Generates a high-entropy game secret (256 bits, hex encoded).
+ */
+export function generateGameSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(SECRET_BYTES));
+  return Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Derives a game secret from a passphrase with PBKDF2-SHA256, salted with the
+ * gameId so the same passphrase gives a different secret in every game.
+ *
+ * @returns 256-bit secret, hex encoded like generateGameSecret()
+ */
+export async function deriveGameSecret(passphrase: string, gameId: string): Promise<string> {
+  if (!passphrase) {
+    throw new InvalidInputError('Passphrase cannot be empty');
+  }
+
+  const encoder = new TextEncoder();
+  const keyMaterial = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveBits']
+  );
+
+  const bits = await crypto.subtle.deriveBits(
+    {
+      name: 'PBKDF2',
+      hash: 'SHA-256',
+      salt: encoder.encode(`correspondence-games:${gameId}`),
+      iterations: PBKDF2_ITERATIONS,
+    },
+    keyMaterial,
+    SECRET_BYTES * 8
+  );
+
+  return Array.from(new Uint8Array(bits))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Returns true if the value looks like a secret produced by generateGameSecret().
+ */
+export function isValidGameSecret(value: unknown): value is string {
+  return typeof value === 'string' && /^[0-9a-f]{64}$/.test(value);
+}
+
+/**
+ * Options for encoding a full-state link.
+ */
+export interface FullStateEncodeOptions {
+  /** Embed the game secret - only for the invite link that hands the game to Player 2 */
+  includeSecret?: boolean;
+  /** Encrypt the payload with the game secret (see payload-encryption) */
+  encrypt?: boolean;
+}
+
+/**
+ * Persists game secrets in localStorage (or another storage adapter), keyed by gameId.
+ */
+export class GameSecretStorage {
+  constructor(private readonly storage: StorageAdapter = new LocalStorageAdapter()) {}
+
+  /**
+   * Retrieves the stored secret for a game.
+   *
+   * @returns The secret, or null if this browser has none for the game
+   */
+  getSecret(gameId: string): string | null {
+    const key = `${STORAGE_PREFIX}${gameId}`;
+    const stored = this.storage.getItem(key);
+    if (stored !== null && !isVersionedRecord(stored)) {
+      // Secrets were stored as plain hex strings before records were versioned
+      this.storage.setItem(key, legacyRecord(stored));
+    }
+    return loadRecord(this.storage, key, GAME_SECRET_RECORD, z.string().min(1));
+  }
+
+  /**
+   * Retrieves the stored secret for a game, failing if there is none.
+   *
+   * @throws {KeyUnavailableError} If no secret is stored for the game
+   */
+  requireSecret(gameId: string): string {
+    const secret = this.getSecret(gameId);
+    if (!secret) {
+      throw new KeyUnavailableError('No secret stored for this game - open the invite link first', 'no-secret');
+    }
+    return secret;
+  }
+
+  /**
+   * Retrieves the stored secret for a game, generating one if this browser
+   * created the game and has none yet.
+   */
+  getOrCreateSecret(gameId: string): string {
+    let secret = this.getSecret(gameId);
+    if (!secret) {
+      secret = generateGameSecret();
+      this.saveSecret(gameId, secret);
+    }
+    return secret;
+  }
+
+  /**
+   * Stores the secret for a game.
+   *
+   * @param options - Set fromPassphrase if the secret was derived from a passphrase
+   */
+  saveSecret(gameId: string, secret: string, options: { fromPassphrase?: boolean } = {}): void {
+    if (!isValidGameSecret(secret)) {
+      throw new InvalidInputError('Invalid game secret');
+    }
+    this.storage.setItem(`${STORAGE_PREFIX}${gameId}`, writeRecord(GAME_SECRET_RECORD, secret));
+
+    if (options.fromPassphrase) {
+      this.storage.setItem(`${SOURCE_PREFIX}${gameId}`, 'passphrase');
+    } else {
+      this.storage.removeItem(`${SOURCE_PREFIX}${gameId}`);
+    }
+  }
+
+  /**
+   * Derives and stores the secret for a passphrase-protected game.
+   */
+  async setPassphrase(gameId: string, passphrase: string): Promise<void> {
+    const secret = await deriveGameSecret(passphrase, gameId);
+    this.saveSecret(gameId, secret, { fromPassphrase: true });
+  }
+
+  /**
+   * Returns true if the game's secret was derived from a passphrase, meaning
+   * it must never be sent in a link.
+   */
+  isPassphraseProtected(gameId: string): boolean {
+    return this.storage.getItem(`${SOURCE_PREFIX}${gameId}`) === 'passphrase';
+  }
+
+  /**
+   * Resolves the secret for a game, asking for the passphrase if this browser
+   * has none stored. A secret derived from a passphrase is only stored once
+   * `verify` confirms it (e.g. by checking the incoming link's MAC), so a
+   * mistyped passphrase is never remembered.
+   *
+   * @param gameId - Game the incoming link belongs to
+   * @param passphrase - Hook asking the player for the passphrase
+   * @param verify - Checks a derived secret against the incoming link
+   * @throws {KeyUnavailableError} If no secret is available or the passphrase is wrong
+   */
+  async unlockSecret(
+    gameId: string,
+    passphrase: PassphraseProvider | undefined,
+    verify: (secret: string) => Promise<boolean>
+  ): Promise<string> {
+    const stored = this.getSecret(gameId);
+    if (stored) {
+      return stored;
+    }
+    if (!passphrase) {
+      return this.requireSecret(gameId);
+    }
+
+    const entered = await passphrase(gameId);
+    if (!entered) {
+      throw new KeyUnavailableError('A passphrase is required to open this game', 'passphrase-required');
+    }
+
+    const secret = await deriveGameSecret(entered, gameId);
+    if (!(await verify(secret))) {
+      throw new KeyUnavailableError('Passphrase does not match this game', 'wrong-passphrase');
+    }
+
+    this.saveSecret(gameId, secret, { fromPassphrase: true });
+    return secret;
+  }
+
+  /**
+   * Stores a secret received in an invite link. A game's secret never changes,
+   * so a link carrying a different secret than the stored one is rejected.
+   *
+   * @throws {KeyUnavailableError} If a different secret is already stored for the game
+   */
+  acceptSecret(gameId: string, secret: string): void {
+    const existing = this.getSecret(gameId);
+    if (existing === null) {
+      this.saveSecret(gameId, secret);
+    } else if (existing !== secret) {
+      throw new KeyUnavailableError(
+        'Invite link carries a different secret than the one stored for this game',
+        'secret-conflict'
+      );
+    }
+  }
+
+  /**
+   * Every game this browser holds a secret for.
+   */
+  listGameIds(): string[] {
+    return this.storage
+      .keys()
+      .filter((key) => key.startsWith(STORAGE_PREFIX))
+      .map((key) => key.slice(STORAGE_PREFIX.length));
+  }
+
+  /**
+   * Removes the secret for a game.
+   */
+  removeSecret(gameId: string): void {
+    this.storage.removeItem(`${STORAGE_PREFIX}${gameId}`);
+    this.storage.removeItem(`${SOURCE_PREFIX}${gameId}`);
+  }
+}
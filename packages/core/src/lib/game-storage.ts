@@ -2,28 +2,51 @@
  * @fileoverview Game state storage for localStorage with automatic cleanup
  */
 
+import { z } from 'zod';
 import type { EmojiGameState } from './emoji-game-schema';
 import { EmojiGameStateSchema } from './emoji-game-schema';
+import { StorageQuotaError } from './errors';
+import { MoveLedger, type LedgerVerdict } from './move-ledger';
+import { loadRecord, readRecord, setAsideRecord, writeRecord } from './record-migrations';
+import { LocalStorageAdapter, type StorageAdapter } from './storage-adapter';
 
 const STORAGE_PREFIX = 'correspondence-games:game:';
 const MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+const GAME_RECORD = 'emoji-game';
 
-interface StoredGameState extends EmojiGameState {
-  timestamp: number;
-}
+const StoredGameStateSchema = EmojiGameStateSchema.extend({
+  timestamp: z.number(),
+});
+
+type StoredGameState = z.infer<typeof StoredGameStateSchema>;
 
 /**
- * Manages game state persistence in localStorage with validation and cleanup.
+ * Manages game state persistence in localStorage (or another storage
+ * adapter) with validation and cleanup.
  */
 export class GameStorage {
+  constructor(
+    private readonly storage: StorageAdapter = new LocalStorageAdapter(),
+    private readonly ledger: MoveLedger = new MoveLedger(storage)
+  ) {}
+
   /**
    * Saves game state to localStorage with timestamp for cleanup.
    * Automatically runs cleanup if quota is exceeded.
    *
+   * States older than the latest turn saved for the game (e.g. from an old
+   * link being reopened) are not saved, so they can't rewind the game.
+   *
    * @param state - The game state to store
-   * @throws {Error} If localStorage quota is exceeded even after cleanup
+   * @returns The ledger verdict; nothing was saved if its status is 'stale'
+   * @throws {StorageQuotaError} If localStorage quota is exceeded even after cleanup
    */
-  saveGameState(state: EmojiGameState): void {
+  saveGameState(state: EmojiGameState): LedgerVerdict {
+    const verdict = this.ledger.check(state.gameId, state.currentTurn, state.checksum);
+    if (verdict.status === 'stale') {
+      return verdict;
+    }
+
     const key = `${STORAGE_PREFIX}${state.gameId}`;
     const stored: StoredGameState = {
       ...state,
@@ -31,81 +54,100 @@ export class GameStorage {
     };
 
     try {
-      localStorage.setItem(key, JSON.stringify(stored));
+      this.storage.setItem(key, writeRecord(GAME_RECORD, stored));
     } catch (error) {
       if (error instanceof DOMException && error.name === 'QuotaExceededError') {
         console.warn('localStorage quota exceeded, cleaning up old games');
         this.cleanupOldGames();
         // Try again after cleanup
         try {
-          localStorage.setItem(key, JSON.stringify(stored));
+          this.storage.setItem(key, writeRecord(GAME_RECORD, stored));
         } catch (retryError) {
           console.error('Failed to save game state even after cleanup:', retryError);
-          throw new Error('Cannot save game state: localStorage quota exceeded');
+          throw new StorageQuotaError('Cannot save game state: localStorage quota exceeded');
         }
       } else {
         throw error;
       }
     }
+
+    this.ledger.record(state.gameId, state.currentTurn, state.checksum);
+    return verdict;
   }
 
   /**
    * Retrieves game state from localStorage by gameId.
-   * Validates retrieved data with Zod schema.
+   * Validates retrieved data with Zod schema, after upgrading records saved
+   * in an older format through the registered record migrations.
    *
    * @param gameId - The UUID of the game to retrieve
-   * @returns The game state if found and valid, null otherwise
+   * @returns The game state if found and valid, null otherwise (corrupted
+   * data is set aside, see record-migrations)
    */
   getGameState(gameId: string): EmojiGameState | null {
-    const key = `${STORAGE_PREFIX}${gameId}`;
-    const item = localStorage.getItem(key);
+    const stored = loadRecord(this.storage, `${STORAGE_PREFIX}${gameId}`, GAME_RECORD, StoredGameStateSchema);
+    if (!stored) return null;
 
-    if (!item) return null;
+    const { timestamp, ...state } = stored;
+    return state;
+  }
 
-    try {
-      const stored: StoredGameState = JSON.parse(item);
-      const { timestamp, ...state } = stored;
+  /**
+   * Lists every valid stored game with the time it was last saved.
+   * Corrupted entries are skipped (cleanupOldGames removes them).
+   */
+  listGames(): { state: EmojiGameState; updatedAt: number }[] {
+    const games: { state: EmojiGameState; updatedAt: number }[] = [];
 
-      // Validate with Zod
-      return EmojiGameStateSchema.parse(state);
-    } catch (error) {
-      console.error('Failed to parse stored game state:', error);
-      // Clean up corrupted data
-      localStorage.removeItem(key);
-      return null;
+    for (const key of this.storage.keys()) {
+      if (!key.startsWith(STORAGE_PREFIX)) continue;
+
+      const item = this.storage.getItem(key);
+      if (!item) continue;
+
+      // Corrupted data is left for cleanupOldGames
+      const result = readRecord(GAME_RECORD, StoredGameStateSchema, item);
+      if (result.ok) {
+        const { timestamp, ...state } = result.value;
+        games.push({ state, updatedAt: timestamp });
+      }
     }
+    return games;
   }
 
   /**
-   * Removes game states older than 30 days and corrupted data from localStorage.
+   * Removes game states older than 30 days from localStorage and sets
+   * corrupted data aside. Games saved by a newer version are kept.
    * Should be called periodically or when quota is exceeded.
    */
   cleanupOldGames(): void {
     const now = Date.now();
     const keysToRemove: string[] = [];
+    const keysToSetAside: string[] = [];
 
-    // Iterate through all localStorage keys
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (!key || !key.startsWith(STORAGE_PREFIX)) continue;
+    // Iterate through all stored keys
+    for (const key of this.storage.keys()) {
+      if (!key.startsWith(STORAGE_PREFIX)) continue;
 
-      const item = localStorage.getItem(key);
+      const item = this.storage.getItem(key);
       if (!item) continue;
 
-      try {
-        const stored: StoredGameState = JSON.parse(item);
-        if (now - stored.timestamp > MAX_AGE_MS) {
+      const result = readRecord(GAME_RECORD, StoredGameStateSchema, item);
+      if (result.ok) {
+        if (now - result.value.timestamp > MAX_AGE_MS) {
           keysToRemove.push(key);
         }
-      } catch (error) {
-        // Corrupted data - mark for removal
-        keysToRemove.push(key);
+      } else if (result.reason === 'invalid') {
+        keysToSetAside.push(key);
       }
     }
 
     // Remove old games
     for (const key of keysToRemove) {
-      localStorage.removeItem(key);
+      this.storage.removeItem(key);
+    }
+    for (const key of keysToSetAside) {
+      setAsideRecord(this.storage, key);
     }
   }
 }
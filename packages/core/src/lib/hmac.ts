@@ -0,0 +1,75 @@
+/**
+ * @fileoverview HMAC-SHA256 signing and constant-time verification keyed by a game secret
+ */
+
+// Imported keys by secret; a page rarely holds more than a few games' secrets
+const MAX_CACHED_KEYS = 16;
+const keyCache = new Map<string, Promise<CryptoKey>>();
+
+/**
+ * Returns the HMAC key for a secret, importing it only the first time.
+ * The key is non-extractable, and the least recently used one is dropped
+ * once MAX_CACHED_KEYS are cached.
+ */
+function getHmacKey(secret: string): Promise<CryptoKey> {
+  let key = keyCache.get(secret);
+  if (key) {
+    keyCache.delete(secret);
+  } else {
+    key = crypto.subtle.importKey(
+      'raw',
+      new TextEncoder().encode(secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    );
+    // A failed import must not stay cached
+    key.catch(() => keyCache.delete(secret));
+  }
+
+  keyCache.set(secret, key);
+  const oldest = keyCache.keys().next().value;
+  if (keyCache.size > MAX_CACHED_KEYS && oldest !== undefined) {
+    keyCache.delete(oldest);
+  }
+  return key;
+}
+
+/**
+ * Generates a hex HMAC-SHA256 of `data` keyed by the game secret.
+ */
+export async function generateHMAC(secret: string, data: string): Promise<string> {
+  const signature = await crypto.subtle.sign(
+    'HMAC',
+    await getHmacKey(secret),
+    new TextEncoder().encode(data)
+  );
+
+  return Array.from(new Uint8Array(signature))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Compares two strings in time that depends only on their length, so an
+ * attacker can't learn how many leading characters of a MAC were correct.
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+
+  let difference = 0;
+  for (let i = 0; i < a.length; i++) {
+    difference |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return difference === 0;
+}
+
+/**
+ * Checks a hex HMAC against `data` using constant-time comparison.
+ */
+export async function verifyHMAC(secret: string, data: string, hmac: string): Promise<boolean> {
+  const expectedHmac = await generateHMAC(secret, data);
+  return timingSafeEqual(hmac, expectedHmac);
+}
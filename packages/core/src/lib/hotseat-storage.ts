@@ -2,19 +2,56 @@
  * @fileoverview Hot-seat mode storage for managing player names and game state
  */
 
+import { z } from 'zod';
 import type { EmojiGameState } from './emoji-game-schema';
 import { EmojiGameStateSchema } from './emoji-game-schema';
-
-const PLAYER1_NAME_KEY = 'correspondence-games:player1-name';
-const PLAYER2_NAME_KEY = 'correspondence-games:player2-name';
+import { InvalidInputError } from './errors';
+import {
+  isVersionedRecord,
+  legacyRecord,
+  loadRecord,
+  registerRecordMigration,
+  writeRecord,
+} from './record-migrations';
+import { LocalStorageAdapter, type StorageAdapter } from './storage-adapter';
+
+export const PLAYER1_NAME_KEY = 'correspondence-games:player1-name';
+export const PLAYER2_NAME_KEY = 'correspondence-games:player2-name';
 const HOTSEAT_GAME_KEY = 'correspondence-games:hotseat-game';
-const MY_PLAYER_ID_KEY = 'correspondence-games:my-player-id';
-const MY_NAME_KEY = 'correspondence-games:my-name';
+export const MY_PLAYER_ID_KEY = 'correspondence-games:my-player-id';
+export const MY_NAME_KEY = 'correspondence-games:my-name';
+const PREVIOUS_PLAYER_IDS_KEY = 'correspondence-games:previous-player-ids';
+const HOTSEAT_GAME_RECORD = 'hotseat-game';
+const PREVIOUS_PLAYER_IDS_RECORD = 'previous-player-ids';
+/** Record type "my name" is stored as (see record-migrations) */
+export const MY_NAME_RECORD = 'my-name';
+
+/**
+ * Where "my name" could be before it was a versioned record: stored as plain
+ * text, or only as one of the hot-seat player names.
+ */
+interface LegacyNames {
+  myName: string | null;
+  player1Name: string | null;
+  player2Name: string | null;
+}
+
+registerRecordMigration(MY_NAME_RECORD, {
+  version: 1,
+  description: 'take the name from the hot-seat player names if none was stored',
+  migrate: (data) => {
+    const { myName, player1Name, player2Name } = data as LegacyNames;
+    return myName || player1Name || player2Name;
+  },
+});
 
 /**
- * Manages hot-seat game storage with separate player names and game state.
+ * Manages hot-seat game storage with separate player names and game state,
+ * in localStorage or another storage adapter.
  */
 export class HotSeatStorage {
+  constructor(private readonly storage: StorageAdapter = new LocalStorageAdapter()) {}
+
   /**
    * Sanitizes a string to prevent XSS attacks by encoding HTML entities.
    */
@@ -32,7 +69,7 @@ export class HotSeatStorage {
    * Retrieves Player 1's name from localStorage.
    */
   getPlayer1Name(): string | null {
-    return localStorage.getItem(PLAYER1_NAME_KEY);
+    return this.storage.getItem(PLAYER1_NAME_KEY);
   }
 
   /**
@@ -40,17 +77,17 @@ export class HotSeatStorage {
    */
   setPlayer1Name(name: string): void {
     if (!name || name.trim().length === 0) {
-      throw new Error('Player 1 name cannot be empty');
+      throw new InvalidInputError('Player 1 name cannot be empty');
     }
     const sanitized = this.sanitize(name);
-    localStorage.setItem(PLAYER1_NAME_KEY, sanitized);
+    this.storage.setItem(PLAYER1_NAME_KEY, sanitized);
   }
 
   /**
    * Retrieves Player 2's name from localStorage.
    */
   getPlayer2Name(): string | null {
-    return localStorage.getItem(PLAYER2_NAME_KEY);
+    return this.storage.getItem(PLAYER2_NAME_KEY);
   }
 
   /**
@@ -58,90 +95,104 @@ export class HotSeatStorage {
    */
   setPlayer2Name(name: string): void {
     if (!name || name.trim().length === 0) {
-      throw new Error('Player 2 name cannot be empty');
+      throw new InvalidInputError('Player 2 name cannot be empty');
     }
     const sanitized = this.sanitize(name);
-    localStorage.setItem(PLAYER2_NAME_KEY, sanitized);
+    this.storage.setItem(PLAYER2_NAME_KEY, sanitized);
   }
 
   /**
    * Saves hot-seat game state to localStorage.
    */
   saveHotSeatGame(state: EmojiGameState): void {
-    localStorage.setItem(HOTSEAT_GAME_KEY, JSON.stringify(state));
+    this.storage.setItem(HOTSEAT_GAME_KEY, writeRecord(HOTSEAT_GAME_RECORD, state));
   }
 
   /**
-   * Loads hot-seat game state from localStorage with Zod validation.
+   * Loads hot-seat game state from localStorage with Zod validation,
+   * upgrading older records through the registered record migrations.
+   * An unreadable game is set aside (see record-migrations).
    */
   loadHotSeatGame(): EmojiGameState | null {
-    const item = localStorage.getItem(HOTSEAT_GAME_KEY);
-    if (!item) return null;
-
-    try {
-      const parsed = JSON.parse(item);
-      return EmojiGameStateSchema.parse(parsed);
-    } catch (error) {
-      console.error('Failed to parse hot-seat game:', error);
-      localStorage.removeItem(HOTSEAT_GAME_KEY);
-      return null;
-    }
+    return loadRecord(this.storage, HOTSEAT_GAME_KEY, HOTSEAT_GAME_RECORD, EmojiGameStateSchema);
   }
 
   /**
    * Clears hot-seat game from localStorage.
    */
   clearHotSeatGame(): void {
-    localStorage.removeItem(HOTSEAT_GAME_KEY);
+    this.storage.removeItem(HOTSEAT_GAME_KEY);
   }
 
   /**
    * Retrieves the persistent player ID for this browser.
    * If no ID exists, generates and stores a new one.
+   * Once PlayerIdentity.load() has run this is the ID derived from the
+   * browser's identity key rather than a random UUID.
    */
   getMyPlayerId(): string {
-    let id = localStorage.getItem(MY_PLAYER_ID_KEY);
+    let id = this.storage.getItem(MY_PLAYER_ID_KEY);
     if (!id) {
       id = crypto.randomUUID();
-      localStorage.setItem(MY_PLAYER_ID_KEY, id);
+      this.storage.setItem(MY_PLAYER_ID_KEY, id);
     }
     return id;
   }
 
   /**
    * Stores the persistent player ID (rarely needed - usually auto-generated).
+   * A different ID stored before is kept as a previous ID, because stored
+   * games still name this player by it.
    */
   setMyPlayerId(id: string): void {
     if (!id || id.trim().length === 0) {
-      throw new Error('Player ID cannot be empty');
+      throw new InvalidInputError('Player ID cannot be empty');
+    }
+
+    const current = this.storage.getItem(MY_PLAYER_ID_KEY);
+    if (current && current !== id) {
+      const previous = this.getPreviousPlayerIds().filter((previousId) => previousId !== id);
+      this.storage.setItem(
+        PREVIOUS_PLAYER_IDS_KEY,
+        writeRecord(PREVIOUS_PLAYER_IDS_RECORD, [...new Set([current, ...previous])])
+      );
     }
-    localStorage.setItem(MY_PLAYER_ID_KEY, id);
+    this.storage.setItem(MY_PLAYER_ID_KEY, id);
+  }
+
+  /**
+   * IDs this browser's player had before the current one, most recent first
+   * (e.g. the random UUID used before PlayerIdentity.load() derived one).
+   */
+  getPreviousPlayerIds(): string[] {
+    return loadRecord(this.storage, PREVIOUS_PLAYER_IDS_KEY, PREVIOUS_PLAYER_IDS_RECORD, z.array(z.string())) ?? [];
+  }
+
+  /**
+   * Whether a player ID is this browser's player, now or before.
+   */
+  isMyPlayerId(id: string): boolean {
+    return id === this.getMyPlayerId() || this.getPreviousPlayerIds().includes(id);
   }
 
   /**
    * Retrieves "my name" - used in URL mode regardless of player role.
-   * Falls back to player1Name or player2Name for migration.
+   * A name stored before versioning (or only set as player1Name or
+   * player2Name) is upgraded by the 'my-name' record migration.
    */
   getMyName(): string | null {
-    // Check new format first
-    const myName = localStorage.getItem(MY_NAME_KEY);
-    if (myName) return myName;
-
-    // Migration: check old format
-    const player1Name = this.getPlayer1Name();
-    const player2Name = this.getPlayer2Name();
-
-    // Use whichever is set
-    if (player1Name) {
-      this.setMyName(player1Name);
-      return player1Name;
-    }
-    if (player2Name) {
-      this.setMyName(player2Name);
-      return player2Name;
+    const stored = this.storage.getItem(MY_NAME_KEY);
+    if (stored === null || !isVersionedRecord(stored)) {
+      const legacy: LegacyNames = {
+        myName: stored,
+        player1Name: this.getPlayer1Name(),
+        player2Name: this.getPlayer2Name(),
+      };
+      if (!legacy.myName && !legacy.player1Name && !legacy.player2Name) return null;
+      this.storage.setItem(MY_NAME_KEY, legacyRecord(legacy));
     }
 
-    return null;
+    return loadRecord(this.storage, MY_NAME_KEY, MY_NAME_RECORD, z.string().min(1));
   }
 
   /**
@@ -149,9 +200,9 @@ export class HotSeatStorage {
    */
   setMyName(name: string): void {
     if (!name || name.trim().length === 0) {
-      throw new Error('Name cannot be empty');
+      throw new InvalidInputError('Name cannot be empty');
     }
     const sanitized = this.sanitize(name);
-    localStorage.setItem(MY_NAME_KEY, sanitized);
+    this.storage.setItem(MY_NAME_KEY, writeRecord(MY_NAME_RECORD, sanitized));
   }
 }
@@ -0,0 +1,238 @@
+/**
+ * @fileoverview Cross-game inbox: every stored game and whose turn it is
+ *
+ * Each game type keeps its games under its own storage layout. Inbox sources
+ * read one layout each and describe every game the same way, so apps can
+ * render a dashboard of all games without knowing any storage keys.
+ */
+
+import { emojiGameDefinition } from './emoji-game-definition';
+import type { EmojiGameState } from './emoji-game-schema';
+import type { GameOutcome, PlayerNumber } from './game-definition';
+import { GameStorage } from './game-storage';
+import { HotSeatStorage } from './hotseat-storage';
+import { ticTacToeDefinition } from './tic-tac-toe-definition';
+import { TicTacToeStorage } from './tic-tac-toe-storage';
+
+export type InboxFilter = 'all' | 'my-turn' | 'waiting' | 'finished';
+
+/**
+ * One game as shown in the inbox.
+ */
+export interface InboxEntry {
+  gameId: string;
+  /** GameDefinition id, e.g. 'tic-tac-toe' */
+  gameType: string;
+  /** 'hotseat' games are played by both players on this device */
+  mode: 'url' | 'hotseat';
+  /** Null until the opponent has joined, or if the game doesn't say who is who */
+  opponentName: string | null;
+  /** Null if the game doesn't record which seat is this player's */
+  mySeat: PlayerNumber | null;
+  /** Null once the game is finished */
+  whoseTurn: 'me' | 'opponent' | 'unknown' | null;
+  currentTurn: number;
+  status: GameOutcome['status'];
+  winner: PlayerNumber | null;
+  /** When the game was last saved (ms since epoch), if the storage records it */
+  lastActivity: number | null;
+}
+
+/**
+ * Who this device's player is, as needed to tell their seat.
+ */
+export interface InboxViewer {
+  playerId: string;
+  /** IDs the player had before playerId, which older games may still name */
+  previousPlayerIds?: readonly string[];
+  name: string | null;
+}
+
+function isViewer(viewer: InboxViewer, playerId: string): boolean {
+  return playerId === viewer.playerId || (viewer.previousPlayerIds?.includes(playerId) ?? false);
+}
+
+/**
+ * Lists the games of one storage layout as inbox entries.
+ */
+export interface InboxSource {
+  listEntries(viewer: InboxViewer): InboxEntry[];
+}
+
+const FILTER_ORDER: readonly Exclude<InboxFilter, 'all'>[] = ['my-turn', 'waiting', 'finished'];
+
+function whoseTurn(
+  outcome: GameOutcome,
+  currentPlayer: PlayerNumber,
+  mySeat: PlayerNumber | null
+): InboxEntry['whoseTurn'] {
+  if (outcome.status === 'finished') return null;
+  if (mySeat === null) return 'unknown';
+  return currentPlayer === mySeat ? 'me' : 'opponent';
+}
+
+/**
+ * The filter group an entry belongs to (never 'all').
+ */
+export function getInboxGroup(entry: InboxEntry): Exclude<InboxFilter, 'all'> {
+  if (entry.status === 'finished') return 'finished';
+  return entry.whoseTurn === 'me' ? 'my-turn' : 'waiting';
+}
+
+/**
+ * Tic-tac-toe games in TicTacToeStorage. The seat is found from the player
+ * IDs recorded in the state.
+ */
+export function ticTacToeInboxSource(storage: TicTacToeStorage = new TicTacToeStorage()): InboxSource {
+  return {
+    listEntries(viewer) {
+      const entries: InboxEntry[] = [];
+      for (const summary of storage.listGames()) {
+        const state = storage.loadGameState(summary.gameId);
+        if (!state) continue;
+
+        const mySeat: PlayerNumber | null =
+          isViewer(viewer, state.player1.id) ? 1 : isViewer(viewer, state.player2.id) ? 2 : null;
+        const opponent = mySeat === null ? null : mySeat === 1 ? state.player2 : state.player1;
+        const outcome = ticTacToeDefinition.getOutcome(state);
+        entries.push({
+          gameId: state.gameId,
+          gameType: ticTacToeDefinition.id,
+          mode: 'url',
+          opponentName: opponent?.name || null,
+          mySeat,
+          whoseTurn: whoseTurn(outcome, state.currentPlayer, mySeat),
+          currentTurn: state.currentTurn,
+          status: outcome.status,
+          winner: outcome.winner,
+          lastActivity: summary.updatedAt,
+        });
+      }
+      return entries;
+    },
+  };
+}
+
+/**
+ * Emoji-chain games don't record player IDs, so the seat is found from this
+ * player's name, and left unknown if neither or both names match.
+ */
+function emojiSeat(state: EmojiGameState, name: string | null): PlayerNumber | null {
+  if (!name) return null;
+  const isPlayer1 = state.player1Name === name;
+  const isPlayer2 = state.player2Name === name;
+  if (isPlayer1 === isPlayer2) return null;
+  return isPlayer1 ? 1 : 2;
+}
+
+/**
+ * Emoji-chain games in GameStorage.
+ */
+export function emojiChainInboxSource(storage: GameStorage = new GameStorage()): InboxSource {
+  return {
+    listEntries(viewer) {
+      return storage.listGames().map(({ state, updatedAt }) => {
+        const mySeat = emojiSeat(state, viewer.name);
+        const outcome = emojiGameDefinition.getOutcome(state);
+        const opponentName = mySeat === null ? null : mySeat === 1 ? state.player2Name : state.player1Name;
+        return {
+          gameId: state.gameId,
+          gameType: emojiGameDefinition.id,
+          mode: 'url',
+          opponentName: opponentName || null,
+          mySeat,
+          whoseTurn: whoseTurn(outcome, state.currentPlayer, mySeat),
+          currentTurn: state.currentTurn,
+          status: outcome.status,
+          winner: outcome.winner,
+          lastActivity: updatedAt,
+        };
+      });
+    },
+  };
+}
+
+/**
+ * The hot-seat game in HotSeatStorage, which is always this device's turn.
+ */
+export function hotSeatInboxSource(storage: HotSeatStorage = new HotSeatStorage()): InboxSource {
+  return {
+    listEntries() {
+      const state = storage.loadHotSeatGame();
+      if (!state) return [];
+
+      const outcome = emojiGameDefinition.getOutcome(state);
+      return [
+        {
+          gameId: state.gameId,
+          gameType: emojiGameDefinition.id,
+          mode: 'hotseat',
+          opponentName: null,
+          mySeat: null,
+          whoseTurn: outcome.status === 'finished' ? null : 'me',
+          currentTurn: state.currentTurn,
+          status: outcome.status,
+          winner: outcome.winner,
+          lastActivity: null,
+        },
+      ];
+    },
+  };
+}
+
+/**
+ * Lists every stored game across game types.
+ *
+ * Games where it is this player's turn come first, then games waiting on the
+ * opponent, then finished games; each group is sorted by last activity, most
+ * recent first.
+ *
+ * @example
+ * ```typescript
+ * const inbox = new GameInbox();
+ * for (const game of inbox.list('my-turn')) {
+ *   render(`${game.gameType} vs ${game.opponentName ?? 'waiting for opponent'} - turn ${game.currentTurn}`);
+ * }
+ * ```
+ */
+export class GameInbox {
+  constructor(
+    private readonly sources: readonly InboxSource[] = [
+      ticTacToeInboxSource(),
+      emojiChainInboxSource(),
+      hotSeatInboxSource(),
+    ],
+    private readonly players: HotSeatStorage = new HotSeatStorage()
+  ) {}
+
+  /**
+   * Lists games, optionally only those in one group.
+   */
+  list(filter: InboxFilter = 'all'): InboxEntry[] {
+    const viewer: InboxViewer = {
+      playerId: this.players.getMyPlayerId(),
+      previousPlayerIds: this.players.getPreviousPlayerIds(),
+      name: this.players.getMyName(),
+    };
+    return this.sources
+      .flatMap((source) => source.listEntries(viewer))
+      .filter((entry) => filter === 'all' || getInboxGroup(entry) === filter)
+      .sort(
+        (a, b) =>
+          FILTER_ORDER.indexOf(getInboxGroup(a)) - FILTER_ORDER.indexOf(getInboxGroup(b)) ||
+          (b.lastActivity ?? 0) - (a.lastActivity ?? 0)
+      );
+  }
+
+  /**
+   * Number of games in each group, e.g. for tab badges.
+   */
+  counts(): Record<InboxFilter, number> {
+    const counts: Record<InboxFilter, number> = { all: 0, 'my-turn': 0, waiting: 0, finished: 0 };
+    for (const entry of this.list()) {
+      counts.all++;
+      counts[getInboxGroup(entry)]++;
+    }
+    return counts;
+  }
+}
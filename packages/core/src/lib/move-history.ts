@@ -0,0 +1,136 @@
+/**
+ * @fileoverview Turn rules shared by GameEngine, and replay verification of move logs
+ *
+ * A state on its own only shows the current board or chain, so a receiver
+ * can't tell whether it was reached by legal moves. Games that keep a move
+ * log in their state (see GameDefinition.getMoveHistory) can be checked by
+ * replaying the log from a fresh game through the rules and comparing the
+ * result with the state received.
+ */
+
+import { canonicalJson } from './canonical-json';
+import { pickChecksumFields } from './checksum';
+import { InvalidStateError } from './errors';
+import type { BaseGameState, BaseMove, GameCreator, GameDefinition } from './game-definition';
+
+// Players are not part of the replayed position, so any creator will do
+const REPLAY_CREATOR: GameCreator = { id: '', name: 'replay' };
+
+/**
+ * Checks turn order, turn numbering and game-specific rules.
+ *
+ * @returns An error message, or null if the move is legal
+ */
+export function validateTurn<TState extends BaseGameState, TMove extends BaseMove>(
+  definition: GameDefinition<TState, TMove>,
+  state: TState,
+  move: TMove
+): string | null {
+  if (definition.getOutcome(state).status !== 'playing') {
+    return 'Game is already over';
+  }
+  if (move.player !== state.currentPlayer) {
+    return `It is not player ${move.player}'s turn`;
+  }
+  if (move.turn !== state.currentTurn + 1) {
+    return `Expected a move for turn ${state.currentTurn + 1} but got turn ${move.turn}`;
+  }
+  return definition.validateMove(state, move);
+}
+
+/**
+ * Applies a legal move with turn bookkeeping, appending it to the state's
+ * move log if the state keeps one. The checksum is left to the caller.
+ */
+export function applyTurn<TState extends BaseGameState, TMove extends BaseMove>(
+  definition: GameDefinition<TState, TMove>,
+  state: TState,
+  move: TMove
+): TState {
+  const applied: TState = {
+    ...definition.applyMove(state, move),
+    currentTurn: move.turn,
+    currentPlayer: move.player === 1 ? 2 : 1,
+  };
+
+  const history = definition.getMoveHistory?.(state);
+  if (history === undefined || !definition.setMoveHistory) {
+    return applied;
+  }
+  return definition.setMoveHistory(applied, [...history, move]);
+}
+
+/**
+ * Replays moves from a new game without checking them, e.g. to recover the
+ * position an accepted move log had reached at an earlier turn.
+ */
+export function replayMoves<TState extends BaseGameState, TMove extends BaseMove>(
+  definition: GameDefinition<TState, TMove>,
+  gameId: string,
+  moves: TMove[]
+): TState {
+  return moves.reduce(
+    (state, move) => applyTurn(definition, state, move),
+    definition.createInitialState(gameId, REPLAY_CREATOR)
+  );
+}
+
+/**
+ * Replays a state's move log from a new game and checks that it reproduces
+ * the state's turn, current player and position (see GameDefinition.getPosition).
+ *
+ * @returns An error message, or null if the log matches or the state has none
+ */
+export function verifyMoveHistory<TState extends BaseGameState, TMove extends BaseMove>(
+  definition: GameDefinition<TState, TMove>,
+  state: TState
+): string | null {
+  const moves = definition.getMoveHistory?.(state);
+  if (moves === undefined) {
+    return null;
+  }
+  if (moves.length !== state.currentTurn) {
+    return `Move history has ${moves.length} moves but the game is at turn ${state.currentTurn}`;
+  }
+
+  let replayed = definition.createInitialState(state.gameId, REPLAY_CREATOR);
+  for (const move of moves) {
+    const error = validateTurn(definition, replayed, move);
+    if (error) {
+      return `Move history contains an illegal move at turn ${move.turn}: ${error}`;
+    }
+    replayed = applyTurn(definition, replayed, move);
+  }
+
+  if (replayed.currentPlayer !== state.currentPlayer) {
+    return `Move history says player ${replayed.currentPlayer} is to move, not player ${state.currentPlayer}`;
+  }
+
+  const position = (s: TState): string =>
+    canonicalJson(definition.getPosition ? definition.getPosition(s) : pickChecksumFields(s, definition.checksumFields));
+  if (position(replayed) !== position(state)) {
+    return 'Move history does not reproduce the position in this state';
+  }
+  return null;
+}
+
+/**
+ * Checks a received state the way GameEngine does: against the game's rules
+ * (see GameDefinition.validateState), then by replaying its move log.
+ *
+ * @throws {InvalidStateError} If the state breaks the rules or its move log
+ *   doesn't reproduce it
+ */
+export function assertValidState<TState extends BaseGameState, TMove extends BaseMove>(
+  definition: GameDefinition<TState, TMove>,
+  state: TState
+): void {
+  const violations = definition.validateState?.(state) ?? [];
+  if (violations.length > 0) {
+    throw new InvalidStateError(`Invalid game state: ${violations.join('; ')}`, violations);
+  }
+  const historyError = verifyMoveHistory(definition, state);
+  if (historyError) {
+    throw new InvalidStateError(historyError, [historyError]);
+  }
+}
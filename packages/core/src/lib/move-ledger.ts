@@ -0,0 +1,251 @@
+/**
+ * @fileoverview Per-game ledger of accepted turns, used to spot replayed and rolled-back links
+ *
+ * A full-state link replaces the local copy of a game, so reopening an old
+ * `#s=` link (say, from a turn where you were winning) would silently rewind
+ * the game. The ledger remembers the turn number and checksum of every state
+ * this device has accepted, so older, duplicated or diverging links can be
+ * reported instead of applied.
+ *
+ * States reached through a delta also keep the signed delta. If the opponent
+ * later signs a different move from the same position (equivocation), both
+ * deltas are kept as evidence (see MoveConflict). In games that lock seats,
+ * entries also keep the seat keys, so a later full state can't swap them.
+ */
+
+import { z } from 'zod';
+import type { SeatKeys } from './game-definition';
+import { createDeltaSchema, type GameDelta } from './game-delta';
+import { loadRecord, writeRecord } from './record-migrations';
+import { LocalStorageAdapter, type StorageAdapter } from './storage-adapter';
+
+const STORAGE_PREFIX = 'correspondence-games:move-ledger:';
+const CONFLICTS_PREFIX = 'correspondence-games:move-conflicts:';
+const LEDGER_RECORD = 'move-ledger';
+const CONFLICTS_RECORD = 'move-conflicts';
+
+const StoredDeltaSchema = createDeltaSchema(z.unknown());
+
+const LedgerSchema = z.array(
+  z.object({
+    turn: z.number().int().min(0),
+    checksum: z.string(),
+    delta: StoredDeltaSchema.optional(),
+    received: z.boolean().optional(),
+    seatKeys: z.object({ 1: z.string().optional(), 2: z.string().optional() }).optional(),
+  })
+);
+
+const ConflictsSchema = z.array(
+  z.object({
+    gameId: z.string(),
+    turn: z.number().int().min(0),
+    prevChecksum: z.string(),
+    accepted: StoredDeltaSchema,
+    conflicting: StoredDeltaSchema,
+    detectedAt: z.number(),
+  })
+);
+
+/**
+ * A state this device has accepted.
+ */
+export interface LedgerEntry {
+  turn: number;
+  checksum: string;
+  /** The delta that produced this state, if it came from one */
+  delta?: GameDelta<unknown>;
+  /** True if the delta was received from the opponent rather than made on this device */
+  received?: boolean;
+  /** Keys locked to the seats in this state, in games that lock seats */
+  seatKeys?: SeatKeys;
+}
+
+/**
+ * Two different, validly signed moves for the same turn from the same position.
+ * Both deltas are kept so either player can be shown the proof.
+ */
+export interface MoveConflict<TMove> {
+  gameId: string;
+  turn: number;
+  /** The position both moves were made from */
+  prevChecksum: string;
+  /** The move this device accepted first */
+  accepted: GameDelta<TMove>;
+  /** The different move that arrived later */
+  conflicting: GameDelta<TMove>;
+  /** When the conflict was detected (ms since epoch) */
+  detectedAt: number;
+}
+
+/**
+ * How an incoming state relates to what this device has already accepted.
+ *
+ * - `new`: a later turn than any seen so far (or the first state seen)
+ * - `duplicate`: the latest accepted state again, e.g. the same link reopened
+ * - `stale`: an older turn than the latest accepted one
+ * - `diverged`: the latest turn number, but a different state than the one accepted
+ */
+export type LedgerVerdict =
+  | { status: 'new' }
+  | { status: 'duplicate'; turn: number }
+  | { status: 'stale'; turn: number; latestTurn: number }
+  | { status: 'diverged'; turn: number };
+
+/**
+ * Message to show the player for a verdict that should stop a link from being applied.
+ *
+ * @returns The message, or null for verdicts that are safe to apply
+ */
+export function describeLedgerVerdict(verdict: LedgerVerdict): string | null {
+  switch (verdict.status) {
+    case 'stale':
+      return `This is an older move (turn ${verdict.turn}) - this game is already at turn ${verdict.latestTurn}`;
+    case 'diverged':
+      return `This link shows a different turn ${verdict.turn} than the one already played on this device`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Records accepted turns per game in localStorage (or another storage adapter).
+ *
+ * @example
+ * ```typescript
+ * const ledger = new MoveLedger();
+ * const verdict = ledger.check(state.gameId, state.currentTurn, state.checksum);
+ * if (verdict.status === 'stale') {
+ *   showBanner(describeLedgerVerdict(verdict));
+ * } else {
+ *   ledger.record(state.gameId, state.currentTurn, state.checksum);
+ * }
+ * ```
+ */
+export class MoveLedger {
+  constructor(private readonly storage: StorageAdapter = new LocalStorageAdapter()) {}
+
+  /**
+   * Classifies a state against the turns already accepted for its game.
+   *
+   * @param gameId - Game the state belongs to
+   * @param turn - The state's currentTurn
+   * @param checksum - The state's checksum
+   */
+  check(gameId: string, turn: number, checksum: string): LedgerVerdict {
+    const latest = this.getLatest(gameId);
+    if (!latest || turn > latest.turn) {
+      return { status: 'new' };
+    }
+    if (turn < latest.turn) {
+      return { status: 'stale', turn, latestTurn: latest.turn };
+    }
+    return checksum === latest.checksum ? { status: 'duplicate', turn } : { status: 'diverged', turn };
+  }
+
+  /**
+   * Records an accepted state. States that are not newer than the latest
+   * recorded one are ignored, so the ledger only ever moves forward.
+   *
+   * @param delta - The signed delta that produced the state, kept as evidence
+   * @param details - Whether the delta came from the opponent, and the keys
+   *   locked to the seats in the state (in games that lock seats)
+   */
+  record<TMove>(
+    gameId: string,
+    turn: number,
+    checksum: string,
+    delta?: GameDelta<TMove>,
+    details: Pick<LedgerEntry, 'received' | 'seatKeys'> = {}
+  ): void {
+    const entries = this.getEntries(gameId);
+    const latest = entries[entries.length - 1];
+    if (latest && turn <= latest.turn) {
+      return;
+    }
+
+    const entry: LedgerEntry = { turn, checksum, ...details };
+    if (delta) entry.delta = delta;
+    entries.push(entry);
+    this.storage.setItem(`${STORAGE_PREFIX}${gameId}`, writeRecord(LEDGER_RECORD, entries));
+  }
+
+  /**
+   * Finds a delta received from the opponent that was made from the same
+   * position as `delta` but produced a different state. Deltas made on this
+   * device are never matched: only the opponent can contradict themselves.
+   *
+   * @returns The accepted delta, or null if `delta` doesn't conflict with any
+   */
+  findConflictingDelta<TMove>(delta: GameDelta<TMove>): GameDelta<TMove> | null {
+    const accepted = this.getEntries(delta.gameId).find(
+      (entry) => entry.received && entry.delta?.prevChecksum === delta.prevChecksum
+    )?.delta;
+
+    if (!accepted || accepted.newChecksum === delta.newChecksum) {
+      return null;
+    }
+    return accepted as GameDelta<TMove>;
+  }
+
+  /**
+   * Stores a conflict as evidence. A conflicting delta that is already on
+   * record is not stored twice.
+   */
+  recordConflict<TMove>(conflict: MoveConflict<TMove>): void {
+    const conflicts = this.getConflicts<TMove>(conflict.gameId);
+    if (conflicts.some((c) => c.conflicting.hmac === conflict.conflicting.hmac)) {
+      return;
+    }
+
+    conflicts.push(conflict);
+    this.storage.setItem(`${CONFLICTS_PREFIX}${conflict.gameId}`, writeRecord(CONFLICTS_RECORD, conflicts));
+  }
+
+  /**
+   * Every conflict recorded for a game, oldest first.
+   */
+  getConflicts<TMove>(gameId: string): MoveConflict<TMove>[] {
+    const conflicts = loadRecord(this.storage, `${CONFLICTS_PREFIX}${gameId}`, CONFLICTS_RECORD, ConflictsSchema);
+    return (conflicts ?? []) as MoveConflict<TMove>[];
+  }
+
+  /**
+   * Every accepted state for a game, oldest first. An unreadable ledger is
+   * set aside (see record-migrations) and the game starts a new one.
+   */
+  getEntries(gameId: string): LedgerEntry[] {
+    const entries = loadRecord(this.storage, `${STORAGE_PREFIX}${gameId}`, LEDGER_RECORD, LedgerSchema);
+    return (entries ?? []) as LedgerEntry[];
+  }
+
+  /**
+   * The most recently accepted state for a game, or null if none.
+   */
+  getLatest(gameId: string): LedgerEntry | null {
+    const entries = this.getEntries(gameId);
+    return entries[entries.length - 1] ?? null;
+  }
+
+  /**
+   * Keys locked to the seats as of the latest state that recorded them, or
+   * none if no state did. Seat locks never change, so later states can only
+   * add to them.
+   */
+  getSeatKeys(gameId: string): SeatKeys {
+    const entries = this.getEntries(gameId);
+    for (let i = entries.length - 1; i >= 0; i--) {
+      const seatKeys = entries[i]?.seatKeys;
+      if (seatKeys) return { ...seatKeys };
+    }
+    return {};
+  }
+
+  /**
+   * Forgets a game's ledger and conflict evidence (e.g. when the game is deleted).
+   */
+  clear(gameId: string): void {
+    this.storage.removeItem(`${STORAGE_PREFIX}${gameId}`);
+    this.storage.removeItem(`${CONFLICTS_PREFIX}${gameId}`);
+  }
+}
@@ -0,0 +1,232 @@
+/**
+ * @fileoverview Splits links that are too long for one URL into numbered parts
+ *
+ * Wire format of each part: `#p=<transferId>.<index>.<total>.<checksum>.<chunk>`
+ * - transferId: first 16 hex digits of the SHA-256 of the whole link, which
+ *   also verifies the reassembled link
+ * - index/total: 1-based part number and part count
+ * - checksum: first 8 hex digits of the SHA-256 of the part header and chunk,
+ *   so a misread QR frame or truncated link is caught before reassembly
+ * - chunk: the next slice of the original hash fragment (without `#`)
+ *
+ * Parts can be sent as separate links or shown one after another as a
+ * cycling QR sequence (cycleParts). PartReassembler accepts them in any order
+ * and reports which are still missing.
+ */
+
+import { sha256Hex } from './checksum';
+import { DecodeError, InvalidInputError } from './errors';
+import { assertLinkLength } from './safe-decode';
+
+/** Most parts one link may be split into */
+export const MAX_PARTS = 64;
+
+/** Default time each part is shown for by cycleParts, in milliseconds */
+export const DEFAULT_CYCLE_INTERVAL_MS = 800;
+
+const PART_PREFIX = '#p=';
+const PART_PATTERN = /^#p=([a-f0-9]{16})\.(\d{1,3})\.(\d{1,3})\.([a-f0-9]{8})\.(.+)$/s;
+
+interface LinkPart {
+  transferId: string;
+  index: number;
+  total: number;
+  checksum: string;
+  chunk: string;
+}
+
+/**
+ * Progress of a reassembly after adding a part.
+ */
+export type ReassemblyProgress =
+  | { status: 'incomplete'; transferId: string; total: number; received: number; missing: number[] }
+  | { status: 'complete'; transferId: string; total: number; hashFragment: string };
+
+/**
+ * Returns true if a hash fragment is one part of a split link.
+ */
+export function isLinkPart(hashFragment: string): boolean {
+  return hashFragment.startsWith(PART_PREFIX);
+}
+
+function partHeader(transferId: string, index: number, total: number): string {
+  return `${transferId}.${index}.${total}`;
+}
+
+async function partChecksum(transferId: string, index: number, total: number, chunk: string): Promise<string> {
+  return (await sha256Hex(`${partHeader(transferId, index, total)}.${chunk}`)).slice(0, 8);
+}
+
+/**
+ * Splits a hash fragment into parts no longer than maxPartLength characters.
+ * Fragments that already fit are still returned as a single part.
+ *
+ * @param hashFragment - Link to split, e.g. "#s=2.tic-tac-toe.<compressed-payload>"
+ * @param maxPartLength - Longest part to produce, including its header
+ * @throws {InvalidInputError} If maxPartLength leaves no room for the payload,
+ *   or the link would need more than MAX_PARTS parts
+ */
+export async function splitLink(hashFragment: string, maxPartLength: number): Promise<string[]> {
+  const body = hashFragment.startsWith('#') ? hashFragment.slice(1) : hashFragment;
+  const transferId = (await sha256Hex(`#${body}`)).slice(0, 16);
+
+  // Header length grows with the number of digits in the part count
+  let total = 1;
+  let chunkLength = 0;
+  for (;;) {
+    const headerLength = `${PART_PREFIX}${partHeader(transferId, total, total)}.${'0'.repeat(8)}.`.length;
+    chunkLength = maxPartLength - headerLength;
+    if (chunkLength < 1) {
+      throw new InvalidInputError(`Parts of ${maxPartLength} characters leave no room for the link`);
+    }
+    const needed = Math.max(1, Math.ceil(body.length / chunkLength));
+    if (needed <= total) {
+      break;
+    }
+    total = needed;
+  }
+  if (total > MAX_PARTS) {
+    throw new InvalidInputError(`Link would need ${total} parts - the limit is ${MAX_PARTS}`);
+  }
+
+  const parts: string[] = [];
+  for (let index = 1; index <= total; index++) {
+    const chunk = body.slice((index - 1) * chunkLength, index * chunkLength);
+    const checksum = await partChecksum(transferId, index, total, chunk);
+    parts.push(`${PART_PREFIX}${partHeader(transferId, index, total)}.${checksum}.${chunk}`);
+  }
+  return parts;
+}
+
+/**
+ * Parses and checks one part.
+ *
+ * @throws {DecodeError} With reason 'malformed' or 'corrupt-part'
+ */
+async function readPart(hashFragment: string): Promise<LinkPart> {
+  assertLinkLength(hashFragment);
+  const match = PART_PATTERN.exec(hashFragment);
+  if (!match) {
+    throw new DecodeError('This is not part of a split link', 'malformed');
+  }
+
+  const [, transferId = '', index = '', total = '', checksum = '', chunk = ''] = match;
+  const part = { transferId, index: Number(index), total: Number(total), checksum, chunk };
+  if (part.total < 1 || part.total > MAX_PARTS || part.index < 1 || part.index > part.total) {
+    throw new DecodeError(`Part ${index} of ${total} is out of range`, 'malformed');
+  }
+  if ((await partChecksum(transferId, part.index, part.total, chunk)) !== checksum) {
+    throw new DecodeError(`Part ${index} of ${total} is damaged - scan or open it again`, 'corrupt-part');
+  }
+  return part;
+}
+
+/**
+ * Collects the parts of one split link, in any order, and rebuilds the link
+ * once all have arrived. Parts received twice are ignored.
+ *
+ * @example
+ * ```typescript
+ * const reassembler = new PartReassembler();
+ * const progress = await reassembler.add(scannedText);
+ * if (progress.status === 'complete') {
+ *   const { state } = await engine.decodeFullState(progress.hashFragment);
+ * }
+ * ```
+ */
+export class PartReassembler {
+  private transferId: string | null = null;
+  private total = 0;
+  private readonly chunks = new Map<number, string>();
+
+  /**
+   * Adds a part.
+   *
+   * @throws {DecodeError} With reason 'malformed' if it isn't a part,
+   *   'corrupt-part' if its checksum doesn't match, 'other-transfer' if it
+   *   belongs to a different link than the parts before it, or
+   *   'corrupt-part' if the rebuilt link doesn't match its transferId
+   */
+  async add(hashFragment: string): Promise<ReassemblyProgress> {
+    const part = await readPart(hashFragment);
+    if (this.transferId === null) {
+      this.transferId = part.transferId;
+      this.total = part.total;
+    } else if (part.transferId !== this.transferId || part.total !== this.total) {
+      throw new DecodeError('This part belongs to a different link', 'other-transfer');
+    }
+    this.chunks.set(part.index, part.chunk);
+
+    const missing = this.missing();
+    if (missing.length > 0) {
+      return {
+        status: 'incomplete',
+        transferId: this.transferId,
+        total: this.total,
+        received: this.chunks.size,
+        missing,
+      };
+    }
+
+    const chunks: string[] = [];
+    for (let index = 1; index <= this.total; index++) {
+      chunks.push(this.chunks.get(index) ?? '');
+    }
+    const rebuilt = `#${chunks.join('')}`;
+    assertLinkLength(rebuilt);
+    if ((await sha256Hex(rebuilt)).slice(0, 16) !== this.transferId) {
+      throw new DecodeError('The parts do not rebuild the original link', 'corrupt-part');
+    }
+    return { status: 'complete', transferId: this.transferId, total: this.total, hashFragment: rebuilt };
+  }
+
+  /**
+   * Part numbers (1-based) not received yet. Empty until the first part arrives.
+   */
+  missing(): number[] {
+    const missing: number[] = [];
+    for (let index = 1; index <= this.total; index++) {
+      if (!this.chunks.has(index)) {
+        missing.push(index);
+      }
+    }
+    return missing;
+  }
+
+  /**
+   * Forgets every part, e.g. to start scanning a different link.
+   */
+  reset(): void {
+    this.transferId = null;
+    this.total = 0;
+    this.chunks.clear();
+  }
+}
+
+/**
+ * Shows parts one after another, looping until stopped - for animated QR codes.
+ *
+ * @param show - Called with each part and its 0-based position, the first immediately
+ * @returns Function that stops the cycle
+ */
+export function cycleParts(
+  parts: readonly string[],
+  show: (part: string, position: number) => void,
+  intervalMs = DEFAULT_CYCLE_INTERVAL_MS
+): () => void {
+  const first = parts[0];
+  if (first === undefined) {
+    return () => {};
+  }
+
+  let position = 0;
+  show(first, 0);
+  if (parts.length === 1) {
+    return () => {};
+  }
+  const timer = setInterval(() => {
+    position = (position + 1) % parts.length;
+    show(parts[position] ?? first, position);
+  }, intervalMs);
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,101 @@
+/**
+ * @fileoverview Storage adapters that keep entries as files, for Node
+ *
+ * Kept apart from storage-adapter so browser bundles never import `node:fs`.
+ * Each entry is one file named after the URI-encoded key; files are written
+ * to a temporary name and renamed, so a crash never leaves half an entry.
+ */
+
+import { mkdirSync, readFileSync, readdirSync, renameSync, rmSync, writeFileSync } from 'node:fs';
+import { mkdir, readFile, readdir, rename, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { AsyncStorageAdapter, StorageAdapter } from './storage-adapter';
+
+const VALUE_EXTENSION = '.value';
+const TEMP_EXTENSION = '.tmp';
+
+function fileName(key: string): string {
+  return `${encodeURIComponent(key)}${VALUE_EXTENSION}`;
+}
+
+function keysFromFiles(files: string[]): string[] {
+  return files
+    .filter((file) => file.endsWith(VALUE_EXTENSION))
+    .map((file) => decodeURIComponent(file.slice(0, -VALUE_EXTENSION.length)));
+}
+
+function isMissing(error: unknown): boolean {
+  return (error as NodeJS.ErrnoException | null)?.code === 'ENOENT';
+}
+
+/**
+ * Stores entries as files in a directory, synchronously.
+ */
+export class FileStorageAdapter implements StorageAdapter {
+  constructor(private readonly directory: string) {}
+
+  getItem(key: string): string | null {
+    try {
+      return readFileSync(join(this.directory, fileName(key)), 'utf8');
+    } catch (error) {
+      if (isMissing(error)) return null;
+      throw error;
+    }
+  }
+
+  setItem(key: string, value: string): void {
+    const path = join(this.directory, fileName(key));
+    mkdirSync(this.directory, { recursive: true });
+    writeFileSync(path + TEMP_EXTENSION, value, 'utf8');
+    renameSync(path + TEMP_EXTENSION, path);
+  }
+
+  removeItem(key: string): void {
+    rmSync(join(this.directory, fileName(key)), { force: true });
+  }
+
+  keys(): string[] {
+    try {
+      return keysFromFiles(readdirSync(this.directory));
+    } catch (error) {
+      if (isMissing(error)) return [];
+      throw error;
+    }
+  }
+}
+
+/**
+ * Stores entries as files in a directory, asynchronously.
+ */
+export class AsyncFileStorageAdapter implements AsyncStorageAdapter {
+  constructor(private readonly directory: string) {}
+
+  async getItem(key: string): Promise<string | null> {
+    try {
+      return await readFile(join(this.directory, fileName(key)), 'utf8');
+    } catch (error) {
+      if (isMissing(error)) return null;
+      throw error;
+    }
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    const path = join(this.directory, fileName(key));
+    await mkdir(this.directory, { recursive: true });
+    await writeFile(path + TEMP_EXTENSION, value, 'utf8');
+    await rename(path + TEMP_EXTENSION, path);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await rm(join(this.directory, fileName(key)), { force: true });
+  }
+
+  async keys(): Promise<string[]> {
+    try {
+      return keysFromFiles(await readdir(this.directory));
+    } catch (error) {
+      if (isMissing(error)) return [];
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,152 @@
+/**
+ * @fileoverview End-to-end encryption of URL payloads with the game secret
+ *
+ * Plain links are only compressed, so anything that previews a link can read
+ * player names, IDs and boards. An encrypted link keeps the envelope header
+ * (kind, version, game type) readable for routing and replaces the payload:
+ *
+ *   `#d=2.tic-tac-toe.<compressed>` → `#d=2.tic-tac-toe.e.<gameId>.<ciphertext>`
+ *
+ * The ciphertext is AES-256-GCM under a key derived (HKDF-SHA256) from the
+ * game secret, so only a device holding the secret can read it. The gameId
+ * stays visible so the recipient knows which secret to use; the whole header
+ * is authenticated as additional data so it can't be swapped.
+ */
+
+import { fromBase64Url, toBase64Url } from './base64url';
+import { InvalidInputError, KeyUnavailableError, TamperError } from './errors';
+import type { GameSecretStorage, PassphraseProvider } from './game-secret';
+import { assertLinkLength } from './safe-decode';
+import { ENCRYPTED_PAYLOAD_MARKER } from './url-envelope';
+
+const IV_BYTES = 12;
+const KEY_INFO = 'correspondence-games:url-payload-encryption';
+
+// The payload is a compressed segment, or `b.<base64url>` for compact links
+const PLAIN_PATTERN = /^#([sd])=(\d+)\.([a-z0-9-]+)\.((?:b\.)?[^.]+)$/s;
+const ENCRYPTED_PATTERN = /^#([sd])=(\d+)\.([a-z0-9-]+)\.e\.([A-Za-z0-9-]+)\.([A-Za-z0-9_-]+)$/;
+
+/**
+ * Derives the AES-GCM key for a game from its secret.
+ */
+async function deriveEncryptionKey(secret: string, gameId: string): Promise<CryptoKey> {
+  const encoder = new TextEncoder();
+  const keyMaterial = await crypto.subtle.importKey('raw', encoder.encode(secret), 'HKDF', false, ['deriveKey']);
+
+  return crypto.subtle.deriveKey(
+    { name: 'HKDF', hash: 'SHA-256', salt: encoder.encode(gameId), info: encoder.encode(KEY_INFO) },
+    keyMaterial,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+function additionalData(kind: string, version: string, gameType: string, gameId: string): Uint8Array<ArrayBuffer> {
+  return new TextEncoder().encode(`${kind}=${version}.${gameType}.${ENCRYPTED_PAYLOAD_MARKER}.${gameId}`);
+}
+
+/**
+ * Returns the gameId an encrypted link was made for, or null if the link is not encrypted.
+ */
+export function getEncryptedGameId(hashFragment: string): string | null {
+  return ENCRYPTED_PATTERN.exec(hashFragment)?.[4] ?? null;
+}
+
+/**
+ * Encrypts the payload of a versioned link for the given game.
+ *
+ * @param hashFragment - Plain link like "#d=2.tic-tac-toe.<compressed-payload>"
+ * @param gameId - Game whose secret encrypts the link
+ * @param secret - The game secret
+ * @returns Hash fragment like "#d=2.tic-tac-toe.e.<gameId>.<ciphertext>"
+ * @throws {InvalidInputError} If the link is not a plain versioned link
+ */
+export async function encryptHashFragment(hashFragment: string, gameId: string, secret: string): Promise<string> {
+  const match = PLAIN_PATTERN.exec(hashFragment);
+  if (!match) {
+    throw new InvalidInputError('Only plain versioned links can be encrypted');
+  }
+  const [, kind = '', version = '', gameType = '', compressed = ''] = match;
+
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv, additionalData: additionalData(kind, version, gameType, gameId) },
+    await deriveEncryptionKey(secret, gameId),
+    new TextEncoder().encode(compressed)
+  );
+
+  const sealed = new Uint8Array(IV_BYTES + ciphertext.byteLength);
+  sealed.set(iv);
+  sealed.set(new Uint8Array(ciphertext), IV_BYTES);
+
+  return `#${kind}=${version}.${gameType}.${ENCRYPTED_PAYLOAD_MARKER}.${gameId}.${toBase64Url(sealed)}`;
+}
+
+/**
+ * Decrypts an encrypted link back into the plain link it was made from.
+ *
+ * @param hashFragment - Encrypted link like "#d=2.tic-tac-toe.e.<gameId>.<ciphertext>"
+ * @param secret - Secret of the game the link names
+ * @returns The plain link, ready for the usual decoders
+ * @throws {PayloadDecodeError} If the link is longer than MAX_LINK_LENGTH
+ * @throws {InvalidInputError} If the link is not encrypted
+ * @throws {TamperError} If the link was not encrypted with this secret
+ */
+export async function decryptHashFragment(hashFragment: string, secret: string): Promise<string> {
+  assertLinkLength(hashFragment);
+  const match = ENCRYPTED_PATTERN.exec(hashFragment);
+  if (!match) {
+    throw new InvalidInputError('Link is not encrypted');
+  }
+  const [, kind = '', version = '', gameType = '', gameId = '', sealedPart = ''] = match;
+
+  const sealed = fromBase64Url(sealedPart);
+  let compressed: string;
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      {
+        name: 'AES-GCM',
+        iv: sealed.slice(0, IV_BYTES),
+        additionalData: additionalData(kind, version, gameType, gameId),
+      },
+      await deriveEncryptionKey(secret, gameId),
+      sealed.slice(IV_BYTES)
+    );
+    compressed = new TextDecoder().decode(plaintext);
+  } catch {
+    throw new TamperError('Failed to decrypt link - it was not encrypted with this game\'s key', 'ciphertext');
+  }
+
+  return `#${kind}=${version}.${gameType}.${compressed}`;
+}
+
+/**
+ * Decrypts an incoming link with the stored game secret, asking for the
+ * passphrase if this device has none yet. Plain links are returned unchanged.
+ *
+ * @throws {KeyUnavailableError} If this device has no key for the game
+ * @throws {TamperError} If the link was not encrypted with the game's key
+ */
+export async function decryptLink(
+  hashFragment: string,
+  secrets: GameSecretStorage,
+  passphrase?: PassphraseProvider
+): Promise<string> {
+  const gameId = getEncryptedGameId(hashFragment);
+  if (gameId === null) {
+    return hashFragment;
+  }
+
+  if (!secrets.getSecret(gameId) && !passphrase) {
+    throw new KeyUnavailableError(
+      'This link is encrypted for a game this device has no key for - open the invite link here first',
+      'no-link-key'
+    );
+  }
+
+  const secret = await secrets.unlockSecret(gameId, passphrase, (candidate) =>
+    decryptHashFragment(hashFragment, candidate).then(() => true, () => false)
+  );
+  return decryptHashFragment(hashFragment, secret);
+}
@@ -0,0 +1,237 @@
+/**
+ * @fileoverview Per-browser ECDSA P-256 identity keys used to prove which player made a move
+ *
+ * Each browser holds a non-extractable private key. The player ID is derived
+ * from the public key's fingerprint, so it can't be claimed by copying it out
+ * of a URL: only the browser holding the private key can sign moves for it.
+ *
+ * Apps that offer backups (see backup) can opt in to an exportable key, so
+ * the identity can move to another device with exportIdentityKeys() and
+ * importIdentityKeys().
+ */
+
+import { fromBase64Url, toBase64Url } from './base64url';
+import { InvalidInputError } from './errors';
+import { HotSeatStorage } from './hotseat-storage';
+import type { StorageAdapter } from './storage-adapter';
+
+const SIGNING_ALGORITHM: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+const KEY_ALGORITHM: EcKeyImportParams = { name: 'ECDSA', namedCurve: 'P-256' };
+
+const DB_NAME = 'correspondence-games';
+const DB_STORE = 'identity';
+const DB_KEY = 'player-key-pair';
+const KEY_CHECK_DATA = 'correspondence-games:identity-key-check';
+
+/**
+ * Persists the browser's identity key pair.
+ */
+export interface IdentityKeyStore {
+  load(): Promise<CryptoKeyPair | null>;
+  save(keyPair: CryptoKeyPair): Promise<void>;
+}
+
+/**
+ * Keeps the key pair in IndexedDB, which (unlike localStorage) can hold
+ * non-extractable CryptoKey objects.
+ */
+export class IndexedDBIdentityKeyStore implements IdentityKeyStore {
+  async load(): Promise<CryptoKeyPair | null> {
+    const db = await this.open();
+    try {
+      const keyPair = await this.request<CryptoKeyPair | undefined>(
+        db.transaction(DB_STORE, 'readonly').objectStore(DB_STORE).get(DB_KEY)
+      );
+      return keyPair ?? null;
+    } finally {
+      db.close();
+    }
+  }
+
+  async save(keyPair: CryptoKeyPair): Promise<void> {
+    const db = await this.open();
+    try {
+      await this.request(db.transaction(DB_STORE, 'readwrite').objectStore(DB_STORE).put(keyPair, DB_KEY));
+    } finally {
+      db.close();
+    }
+  }
+
+  private open(): Promise<IDBDatabase> {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(DB_STORE);
+    };
+    return this.request(request);
+  }
+
+  private request<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+/**
+ * Keeps the key pair in memory only (tests, or browsers without IndexedDB).
+ */
+export class InMemoryIdentityKeyStore implements IdentityKeyStore {
+  private keyPair: CryptoKeyPair | null = null;
+
+  async load(): Promise<CryptoKeyPair | null> {
+    return this.keyPair;
+  }
+
+  async save(keyPair: CryptoKeyPair): Promise<void> {
+    this.keyPair = keyPair;
+  }
+}
+
+/**
+ * An identity key pair taken out of its key store, e.g. for a backup.
+ */
+export interface ExportedIdentityKeys {
+  /** Raw P-256 public key, base64url encoded */
+  publicKey: string;
+  privateKey: JsonWebKey;
+}
+
+/**
+ * Derives a player ID from a public key: the first 128 bits of its SHA-256
+ * fingerprint, shaped as a UUID (version 8) so it fits wherever IDs did before.
+ *
+ * @param publicKey - Raw P-256 public key, base64url encoded
+ */
+export async function derivePlayerId(publicKey: string): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', fromBase64Url(publicKey)));
+  const bytes = digest.slice(0, 16);
+  bytes[6] = ((bytes[6] ?? 0) & 0x0f) | 0x80;
+  bytes[8] = ((bytes[8] ?? 0) & 0x3f) | 0x80;
+
+  const hex = Array.from(bytes)
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * Verifies an ECDSA signature made by PlayerIdentity.sign().
+ *
+ * @param publicKey - Raw P-256 public key, base64url encoded
+ * @returns False if the signature doesn't match or either value is malformed
+ */
+export async function verifySignature(publicKey: string, data: string, signature: string): Promise<boolean> {
+  try {
+    const key = await crypto.subtle.importKey('raw', fromBase64Url(publicKey), KEY_ALGORITHM, false, ['verify']);
+    return await crypto.subtle.verify(
+      SIGNING_ALGORITHM,
+      key,
+      fromBase64Url(signature),
+      new TextEncoder().encode(data)
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Exports the stored identity key pair.
+ *
+ * @returns The keys, or null if there is no identity yet or its private key
+ * was created non-exportable
+ */
+export async function exportIdentityKeys(store: IdentityKeyStore): Promise<ExportedIdentityKeys | null> {
+  const keyPair = await store.load();
+  if (!keyPair || !keyPair.privateKey.extractable) {
+    return null;
+  }
+
+  return {
+    publicKey: toBase64Url(new Uint8Array(await crypto.subtle.exportKey('raw', keyPair.publicKey))),
+    privateKey: await crypto.subtle.exportKey('jwk', keyPair.privateKey),
+  };
+}
+
+/**
+ * Stores an exported identity key pair, replacing the store's key pair.
+ * The imported private key stays exportable.
+ *
+ * @throws {InvalidInputError} If the keys are malformed or don't belong together
+ */
+export async function importIdentityKeys(keys: ExportedIdentityKeys, store: IdentityKeyStore): Promise<void> {
+  let keyPair: CryptoKeyPair;
+  try {
+    keyPair = {
+      publicKey: await crypto.subtle.importKey('raw', fromBase64Url(keys.publicKey), KEY_ALGORITHM, true, ['verify']),
+      privateKey: await crypto.subtle.importKey('jwk', keys.privateKey, KEY_ALGORITHM, true, ['sign']),
+    };
+  } catch {
+    throw new InvalidInputError('Identity keys are malformed');
+  }
+
+  const probe = new TextEncoder().encode(KEY_CHECK_DATA);
+  const signature = await crypto.subtle.sign(SIGNING_ALGORITHM, keyPair.privateKey, probe);
+  if (!(await crypto.subtle.verify(SIGNING_ALGORITHM, keyPair.publicKey, signature, probe))) {
+    throw new InvalidInputError('Identity public and private keys do not belong together');
+  }
+
+  await store.save(keyPair);
+}
+
+/**
+ * This browser's player identity.
+ *
+ * @example
+ * ```typescript
+ * const identity = await PlayerIdentity.load();
+ * const engine = new GameEngine(ticTacToeDefinition, { identity });
+ * const state = await engine.createGame(gameId, { id: identity.playerId, name: 'Alice' });
+ * ```
+ */
+export class PlayerIdentity {
+  private constructor(
+    private readonly privateKey: CryptoKey,
+    /** Raw P-256 public key, base64url encoded */
+    readonly publicKey: string,
+    /** ID derived from the public key fingerprint */
+    readonly playerId: string
+  ) {}
+
+  /**
+   * Loads this browser's identity, generating a key pair on first use.
+   * The derived player ID is also stored as HotSeatStorage's player ID; the
+   * ID it replaces stays recognised (see HotSeatStorage.isMyPlayerId), so
+   * games stored under it are still this player's.
+   *
+   * @param options - Set exportable to let a newly generated key be backed
+   * up; it has no effect on a key pair that already exists. storage is where
+   * the player ID is kept (defaults to localStorage).
+   */
+  static async load(
+    store: IdentityKeyStore = new IndexedDBIdentityKeyStore(),
+    options: { exportable?: boolean; storage?: StorageAdapter } = {}
+  ): Promise<PlayerIdentity> {
+    let keyPair = await store.load();
+    if (!keyPair) {
+      keyPair = await crypto.subtle.generateKey(KEY_ALGORITHM, options.exportable ?? false, ['sign', 'verify']);
+      await store.save(keyPair);
+    }
+
+    const publicKey = toBase64Url(new Uint8Array(await crypto.subtle.exportKey('raw', keyPair.publicKey)));
+    const playerId = await derivePlayerId(publicKey);
+    new HotSeatStorage(options.storage).setMyPlayerId(playerId);
+
+    return new PlayerIdentity(keyPair.privateKey, publicKey, playerId);
+  }
+
+  /**
+   * Signs data with the private key.
+   *
+   * @returns ECDSA P-256 signature, base64url encoded
+   */
+  async sign(data: string): Promise<string> {
+    const signature = await crypto.subtle.sign(SIGNING_ALGORITHM, this.privateKey, new TextEncoder().encode(data));
+    return toBase64Url(new Uint8Array(signature));
+  }
+}
@@ -3,14 +3,19 @@
  * @module correspondence-games-core/player-storage
  */
 
-const STORAGE_KEY = 'correspondence-games:player-name';
+import { InvalidInputError } from './errors';
+import { LocalStorageAdapter, type StorageAdapter } from './storage-adapter';
+
+/** Key the player name is stored under */
+export const PLAYER_NAME_KEY = 'correspondence-games:player-name';
 
 /**
  * Manages player name storage in localStorage with validation and XSS protection.
  *
  * Provides secure storage and retrieval of player names with automatic
  * HTML entity encoding to prevent XSS attacks. Player names are validated
- * to ensure they are not empty or whitespace-only.
+ * to ensure they are not empty or whitespace-only. Names are kept in
+ * localStorage unless another storage adapter is given.
  *
  * @example
  * ```typescript
@@ -29,6 +34,8 @@ const STORAGE_KEY = 'correspondence-games:player-name';
  * ```
  */
 export class PlayerStorage {
+  constructor(private readonly storage: StorageAdapter = new LocalStorageAdapter()) {}
+
   /**
    * Retrieves the stored player name from localStorage.
    *
@@ -44,7 +51,7 @@ export class PlayerStorage {
    * ```
    */
   getPlayerName(): string | null {
-    return localStorage.getItem(STORAGE_KEY);
+    return this.storage.getItem(PLAYER_NAME_KEY);
   }
 
   /**
@@ -70,13 +77,13 @@ export class PlayerStorage {
    */
   setPlayerName(name: string): void {
     if (!name || name.trim().length === 0) {
-      throw new Error('Player name cannot be empty');
+      throw new InvalidInputError('Player name cannot be empty');
     }
     console.log('🔴 PlayerStorage.setPlayerName() called with:', name);
     console.trace('Call stack:');
     const sanitized = this.sanitize(name);
-    localStorage.setItem(STORAGE_KEY, sanitized);
-    console.log('🔴 Set localStorage key:', STORAGE_KEY, 'to:', sanitized);
+    this.storage.setItem(PLAYER_NAME_KEY, sanitized);
+    console.log('🔴 Set localStorage key:', PLAYER_NAME_KEY, 'to:', sanitized);
   }
 
   /**
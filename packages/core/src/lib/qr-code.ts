@@ -0,0 +1,487 @@
+/**
+ * @fileoverview Dependency-free QR code encoder (ISO/IEC 18004) for share links
+ *
+ * Text is encoded as UTF-8 in byte mode, which covers every link the
+ * framework produces. The smallest version (1-40) that fits the text at the
+ * requested error-correction level is used, and the mask with the lowest
+ * penalty score is picked. Rendering lives in qr-render.
+ */
+
+import { InvalidInputError } from './errors';
+
+export type QrErrorCorrection = 'L' | 'M' | 'Q' | 'H';
+
+/**
+ * An encoded QR symbol. `modules[y][x]` is true for dark modules.
+ */
+export interface QrCode {
+  version: number;
+  size: number;
+  errorCorrection: QrErrorCorrection;
+  modules: boolean[][];
+}
+
+export interface QrEncodeOptions {
+  /**
+   * Share of the symbol that can be damaged and still scan: L ~7%, M ~15%
+   * (default), Q ~25%, H ~30%. Higher levels make larger symbols.
+   */
+  errorCorrection?: QrErrorCorrection;
+  /** Smallest version to use, e.g. to keep a sequence of parts the same size */
+  minVersion?: number;
+}
+
+const MIN_VERSION = 1;
+const MAX_VERSION = 40;
+
+const ECL_INDEX: Record<QrErrorCorrection, number> = { L: 0, M: 1, Q: 2, H: 3 };
+const ECL_FORMAT_BITS: Record<QrErrorCorrection, number> = { L: 1, M: 0, Q: 3, H: 2 };
+
+// Indexed by [error-correction level][version]; index 0 is unused
+const ECC_CODEWORDS_PER_BLOCK: readonly (readonly number[])[] = [
+  [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+];
+
+const ERROR_CORRECTION_BLOCKS: readonly (readonly number[])[] = [
+  [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+];
+
+const BYTE_MODE_INDICATOR = 0b0100;
+
+function tableValue(table: readonly (readonly number[])[], ecl: QrErrorCorrection, version: number): number {
+  return table[ECL_INDEX[ecl]]?.[version] ?? -1;
+}
+
+function getBit(value: number, index: number): boolean {
+  return ((value >>> index) & 1) !== 0;
+}
+
+/**
+ * Modules available for data and error correction once function patterns are placed.
+ */
+function rawDataModules(version: number): number {
+  let result = (16 * version + 128) * version + 64;
+  if (version >= 2) {
+    const alignmentCount = Math.floor(version / 7) + 2;
+    result -= (25 * alignmentCount - 10) * alignmentCount - 55;
+    if (version >= 7) {
+      result -= 36;
+    }
+  }
+  return result;
+}
+
+function dataCodewords(version: number, ecl: QrErrorCorrection): number {
+  return (
+    Math.floor(rawDataModules(version) / 8) -
+    tableValue(ECC_CODEWORDS_PER_BLOCK, ecl, version) * tableValue(ERROR_CORRECTION_BLOCKS, ecl, version)
+  );
+}
+
+function characterCountBits(version: number): number {
+  return version <= 9 ? 8 : 16;
+}
+
+/**
+ * Longest text, in UTF-8 bytes, a version holds at an error-correction level.
+ */
+export function qrByteCapacity(version: number, errorCorrection: QrErrorCorrection = 'M'): number {
+  return Math.floor((dataCodewords(version, errorCorrection) * 8 - 4 - characterCountBits(version)) / 8);
+}
+
+// Reed-Solomon arithmetic over GF(2^8) with the QR polynomial x^8 + x^4 + x^3 + x^2 + 1
+
+function gfMultiply(x: number, y: number): number {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result: number[] = new Array<number>(degree - 1).fill(0);
+  result.push(1);
+  let root = 1;
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = gfMultiply(result[j] ?? 0, root) ^ (result[j + 1] ?? 0);
+    }
+    root = gfMultiply(root, 0x02);
+  }
+  return result;
+}
+
+function reedSolomonRemainder(data: readonly number[], divisor: readonly number[]): number[] {
+  const result: number[] = divisor.map(() => 0);
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() ?? 0);
+    result.push(0);
+    divisor.forEach((coefficient, i) => {
+      result[i] = (result[i] ?? 0) ^ gfMultiply(coefficient, factor);
+    });
+  }
+  return result;
+}
+
+/**
+ * Splits data codewords into blocks, appends each block's error correction
+ * and interleaves the result.
+ */
+function addErrorCorrection(data: readonly number[], version: number, ecl: QrErrorCorrection): number[] {
+  const blockCount = tableValue(ERROR_CORRECTION_BLOCKS, ecl, version);
+  const eccLength = tableValue(ECC_CODEWORDS_PER_BLOCK, ecl, version);
+  const rawCodewords = Math.floor(rawDataModules(version) / 8);
+  const shortBlockCount = blockCount - (rawCodewords % blockCount);
+  const shortBlockLength = Math.floor(rawCodewords / blockCount);
+  const divisor = reedSolomonDivisor(eccLength);
+
+  const blocks: number[][] = [];
+  let offset = 0;
+  for (let i = 0; i < blockCount; i++) {
+    const length = shortBlockLength - eccLength + (i < shortBlockCount ? 0 : 1);
+    const block = data.slice(offset, offset + length);
+    offset += length;
+    const ecc = reedSolomonRemainder(block, divisor);
+    if (i < shortBlockCount) {
+      block.push(0);
+    }
+    blocks.push(block.concat(ecc));
+  }
+
+  const result: number[] = [];
+  for (let i = 0; i < shortBlockLength + 1; i++) {
+    blocks.forEach((block, j) => {
+      // Short blocks have a padding byte where long blocks have their last data byte
+      if (i !== shortBlockLength - eccLength || j >= shortBlockCount) {
+        result.push(block[i] ?? 0);
+      }
+    });
+  }
+  return result;
+}
+
+function alignmentPositions(version: number): number[] {
+  if (version === 1) {
+    return [];
+  }
+  const count = Math.floor(version / 7) + 2;
+  const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2;
+  const result = [6];
+  for (let position = version * 4 + 10; result.length < count; position -= step) {
+    result.splice(1, 0, position);
+  }
+  return result;
+}
+
+const MASKS: readonly ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+/**
+ * Module grid under construction, tracking which modules belong to function
+ * patterns so data and masks skip them.
+ */
+class QrGrid {
+  readonly size: number;
+  readonly modules: boolean[][];
+  private readonly reserved: boolean[][];
+
+  constructor(
+    readonly version: number,
+    private readonly ecl: QrErrorCorrection
+  ) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.reserved = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false));
+    this.drawFunctionPatterns();
+  }
+
+  private setFunction(x: number, y: number, dark: boolean): void {
+    const row = this.modules[y];
+    const reservedRow = this.reserved[y];
+    if (row && reservedRow) {
+      row[x] = dark;
+      reservedRow[x] = true;
+    }
+  }
+
+  private drawFunctionPatterns(): void {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+
+    this.drawFinder(3, 3);
+    this.drawFinder(this.size - 4, 3);
+    this.drawFinder(3, this.size - 4);
+
+    const positions = alignmentPositions(this.version);
+    const last = positions.length - 1;
+    positions.forEach((x, i) => {
+      positions.forEach((y, j) => {
+        // Skip the three corners occupied by finder patterns
+        if (!((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0))) {
+          this.drawAlignment(x, y);
+        }
+      });
+    });
+
+    this.drawFormatBits(0); // Reserves the area; rewritten once the mask is chosen
+    this.drawVersion();
+  }
+
+  private drawFinder(x: number, y: number): void {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        const xx = x + dx;
+        const yy = y + dy;
+        if (xx >= 0 && xx < this.size && yy >= 0 && yy < this.size) {
+          this.setFunction(xx, yy, distance !== 2 && distance !== 4);
+        }
+      }
+    }
+  }
+
+  private drawAlignment(x: number, y: number): void {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        this.setFunction(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    }
+  }
+
+  drawFormatBits(mask: number): void {
+    const data = (ECL_FORMAT_BITS[this.ecl] << 3) | mask;
+    let remainder = data;
+    for (let i = 0; i < 10; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+    }
+    const bits = ((data << 10) | remainder) ^ 0x5412;
+
+    // Copy next to the top-left finder
+    for (let i = 0; i <= 5; i++) {
+      this.setFunction(8, i, getBit(bits, i));
+    }
+    this.setFunction(8, 7, getBit(bits, 6));
+    this.setFunction(8, 8, getBit(bits, 7));
+    this.setFunction(7, 8, getBit(bits, 8));
+    for (let i = 9; i < 15; i++) {
+      this.setFunction(14 - i, 8, getBit(bits, i));
+    }
+
+    // Copy split between the other two finders
+    for (let i = 0; i < 8; i++) {
+      this.setFunction(this.size - 1 - i, 8, getBit(bits, i));
+    }
+    for (let i = 8; i < 15; i++) {
+      this.setFunction(8, this.size - 15 + i, getBit(bits, i));
+    }
+    this.setFunction(8, this.size - 8, true);
+  }
+
+  private drawVersion(): void {
+    if (this.version < 7) {
+      return;
+    }
+    let remainder = this.version;
+    for (let i = 0; i < 12; i++) {
+      remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+    }
+    const bits = (this.version << 12) | remainder;
+
+    for (let i = 0; i < 18; i++) {
+      const dark = getBit(bits, i);
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunction(a, b, dark);
+      this.setFunction(b, a, dark);
+    }
+  }
+
+  /**
+   * Places codewords in the zigzag order, two columns at a time from the bottom right.
+   */
+  drawCodewords(codewords: readonly number[]): void {
+    let bit = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) {
+        right = 5; // Skip the vertical timing pattern
+      }
+      for (let vertical = 0; vertical < this.size; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          const upward = ((right + 1) & 2) === 0;
+          const y = upward ? this.size - 1 - vertical : vertical;
+          const row = this.modules[y];
+          if (row && !this.reserved[y]?.[x] && bit < codewords.length * 8) {
+            row[x] = getBit(codewords[bit >>> 3] ?? 0, 7 - (bit & 7));
+            bit++;
+          }
+        }
+      }
+    }
+  }
+
+  /**
+   * XORs a mask over the data modules. Applying the same mask twice undoes it.
+   */
+  applyMask(mask: number): void {
+    const invert = MASKS[mask];
+    this.modules.forEach((row, y) => {
+      row.forEach((dark, x) => {
+        if (invert && !this.reserved[y]?.[x] && invert(x, y)) {
+          row[x] = !dark;
+        }
+      });
+    });
+  }
+
+  /**
+   * Penalty score of the current grid; lower scans more reliably.
+   */
+  penalty(): number {
+    let score = 0;
+    const columns = this.modules.map((_, x) => this.modules.map((row) => row[x] ?? false));
+
+    for (const line of [...this.modules, ...columns]) {
+      score += runPenalty(line) + finderLikePenalty(line);
+    }
+
+    for (let y = 0; y < this.size - 1; y++) {
+      for (let x = 0; x < this.size - 1; x++) {
+        const color = this.modules[y]?.[x];
+        if (
+          color === this.modules[y]?.[x + 1] &&
+          color === this.modules[y + 1]?.[x] &&
+          color === this.modules[y + 1]?.[x + 1]
+        ) {
+          score += 3;
+        }
+      }
+    }
+
+    const dark = this.modules.reduce((count, row) => count + row.filter(Boolean).length, 0);
+    const total = this.size * this.size;
+    score += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10;
+    return score;
+  }
+}
+
+/** Runs of five or more modules of one color */
+function runPenalty(line: readonly boolean[]): number {
+  let score = 0;
+  let runLength = 0;
+  let previous: boolean | undefined;
+  for (const module of line) {
+    runLength = module === previous ? runLength + 1 : 1;
+    previous = module;
+    if (runLength === 5) {
+      score += 3;
+    } else if (runLength > 5) {
+      score += 1;
+    }
+  }
+  return score;
+}
+
+const FINDER_LIKE = [true, false, true, true, true, false, true];
+
+/** 1:1:3:1:1 patterns with four light modules on either side, which look like finders */
+function finderLikePenalty(line: readonly boolean[]): number {
+  let score = 0;
+  const isLight = (i: number) => i < 0 || i >= line.length || !line[i];
+  for (let start = 0; start + FINDER_LIKE.length <= line.length; start++) {
+    if (FINDER_LIKE.every((dark, i) => line[start + i] === dark)) {
+      const lightBefore = [1, 2, 3, 4].every((i) => isLight(start - i));
+      const lightAfter = [0, 1, 2, 3].every((i) => isLight(start + FINDER_LIKE.length + i));
+      if (lightBefore || lightAfter) {
+        score += 40;
+      }
+    }
+  }
+  return score;
+}
+
+/**
+ * Encodes text as a QR code.
+ *
+ * @throws {InvalidInputError} If the text doesn't fit a version 40 symbol at
+ *   the requested level, or minVersion is out of range
+ */
+export function encodeQr(text: string, options: QrEncodeOptions = {}): QrCode {
+  const ecl = options.errorCorrection ?? 'M';
+  const minVersion = options.minVersion ?? MIN_VERSION;
+  if (!Number.isInteger(minVersion) || minVersion < MIN_VERSION || minVersion > MAX_VERSION) {
+    throw new InvalidInputError(`QR version must be between ${MIN_VERSION} and ${MAX_VERSION}`);
+  }
+
+  const bytes = new TextEncoder().encode(text);
+  let version = minVersion;
+  while (qrByteCapacity(version, ecl) < bytes.length) {
+    if (version === MAX_VERSION) {
+      throw new InvalidInputError(
+        `Text is ${bytes.length} bytes long - a QR code at level ${ecl} holds at most ${qrByteCapacity(MAX_VERSION, ecl)}`
+      );
+    }
+    version++;
+  }
+
+  // Mode indicator, character count and data, then terminator and padding
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) {
+      bits.push((value >>> i) & 1);
+    }
+  };
+  append(BYTE_MODE_INDICATOR, 4);
+  append(bytes.length, characterCountBits(version));
+  bytes.forEach((byte) => append(byte, 8));
+
+  const capacityBits = dataCodewords(version, ecl) * 8;
+  append(0, Math.min(4, capacityBits - bits.length));
+  append(0, (8 - (bits.length % 8)) % 8);
+  for (let pad = 0xec; bits.length < capacityBits; pad ^= 0xec ^ 0x11) {
+    append(pad, 8);
+  }
+
+  const data: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    data.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+
+  const grid = new QrGrid(version, ecl);
+  grid.drawCodewords(addErrorCorrection(data, version, ecl));
+
+  let bestMask = 0;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    grid.applyMask(mask);
+    grid.drawFormatBits(mask);
+    const penalty = grid.penalty();
+    if (penalty < bestPenalty) {
+      bestMask = mask;
+      bestPenalty = penalty;
+    }
+    grid.applyMask(mask);
+  }
+  grid.applyMask(bestMask);
+  grid.drawFormatBits(bestMask);
+
+  return { version, size: grid.size, errorCorrection: ecl, modules: grid.modules };
+}
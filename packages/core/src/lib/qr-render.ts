@@ -0,0 +1,121 @@
+/**
+ * @fileoverview Renders QR codes (see qr-code) to SVG markup or a canvas
+ *
+ * Colors follow correspondence-games.css: the SVG uses the `cg-qr-*` classes,
+ * and the canvas reads the `--cg-qr-dark`/`--cg-qr-light` custom properties,
+ * so codes match the light and dark themes. Both themes keep dark modules on
+ * a light background, since many scanners can't read inverted codes.
+ */
+
+import { InvalidInputError } from './errors';
+import { encodeQr, type QrCode, type QrEncodeOptions } from './qr-code';
+
+/** Light modules around the symbol required by the QR specification */
+export const QR_QUIET_ZONE = 4;
+
+const FALLBACK_DARK = '#000000';
+const FALLBACK_LIGHT = '#ffffff';
+
+export interface QrSvgOptions extends QrEncodeOptions {
+  /** Accessible label, e.g. "Link to your next move" */
+  title?: string;
+  /** Quiet zone width in modules (defaults to QR_QUIET_ZONE) */
+  margin?: number;
+}
+
+export interface QrCanvasOptions extends QrEncodeOptions {
+  /** Pixels per module (defaults to 4) */
+  moduleSize?: number;
+  /** Quiet zone width in modules (defaults to QR_QUIET_ZONE) */
+  margin?: number;
+  /** Dark module color (defaults to --cg-qr-dark, then black) */
+  dark?: string;
+  /** Background color (defaults to --cg-qr-light, then white) */
+  light?: string;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Renders text as a QR code in SVG markup that scales to its container.
+ *
+ * @example
+ * ```tsx
+ * <div className="cg-qr" dangerouslySetInnerHTML={{ __html: renderQrSvg(shareUrl) }} />
+ * ```
+ * @throws {InvalidInputError} If the text is too long for a QR code
+ */
+export function renderQrSvg(text: string, options: QrSvgOptions = {}): string {
+  return qrToSvg(encodeQr(text, options), options);
+}
+
+/**
+ * Renders an encoded QR code as SVG markup.
+ */
+export function qrToSvg(qr: QrCode, options: Pick<QrSvgOptions, 'title' | 'margin'> = {}): string {
+  const margin = options.margin ?? QR_QUIET_ZONE;
+  const dimension = qr.size + margin * 2;
+
+  let path = '';
+  qr.modules.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (dark) {
+        path += `M${x + margin} ${y + margin}h1v1h-1z`;
+      }
+    });
+  });
+
+  const label = options.title ? escapeXml(options.title) : undefined;
+  return (
+    `<svg xmlns="http://www.w3.org/2000/svg" class="cg-qr-code" viewBox="0 0 ${dimension} ${dimension}" ` +
+    `shape-rendering="crispEdges"${label ? ` role="img" aria-label="${label}"` : ''}>` +
+    (label ? `<title>${label}</title>` : '') +
+    `<rect class="cg-qr-background" width="${dimension}" height="${dimension}" fill="${FALLBACK_LIGHT}"/>` +
+    `<path class="cg-qr-modules" d="${path}" fill="${FALLBACK_DARK}"/>` +
+    '</svg>'
+  );
+}
+
+function themeColor(element: Element, property: string, fallback: string): string {
+  if (typeof getComputedStyle !== 'function') {
+    return fallback;
+  }
+  return getComputedStyle(element).getPropertyValue(property).trim() || fallback;
+}
+
+/**
+ * Draws text as a QR code onto a canvas, resizing the canvas to fit.
+ *
+ * @throws {InvalidInputError} If the text is too long for a QR code, or the
+ *   canvas has no 2D context
+ */
+export function renderQrCanvas(canvas: HTMLCanvasElement, text: string, options: QrCanvasOptions = {}): void {
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new InvalidInputError('Canvas has no 2D context to draw the QR code on');
+  }
+
+  const qr = encodeQr(text, options);
+  const moduleSize = options.moduleSize ?? 4;
+  const margin = options.margin ?? QR_QUIET_ZONE;
+  const dimension = (qr.size + margin * 2) * moduleSize;
+
+  canvas.width = dimension;
+  canvas.height = dimension;
+  context.fillStyle = options.light ?? themeColor(canvas, '--cg-qr-light', FALLBACK_LIGHT);
+  context.fillRect(0, 0, dimension, dimension);
+  context.fillStyle = options.dark ?? themeColor(canvas, '--cg-qr-dark', FALLBACK_DARK);
+  qr.modules.forEach((row, y) => {
+    row.forEach((dark, x) => {
+      if (dark) {
+        context.fillRect((x + margin) * moduleSize, (y + margin) * moduleSize, moduleSize, moduleSize);
+      }
+    });
+  });
+}
@@ -0,0 +1,189 @@
+/**
+ * @fileoverview Versioned storage records and the migrations that upgrade them
+ *
+ * Stored JSON records are written as `{"schemaVersion": <n>, "data": <record>}`.
+ * Records written before versioning are read as version 0; values that were
+ * stored as plain text rather than JSON are wrapped with legacyRecord()
+ * first. Each record type has an ordered list of registered migrations;
+ * migration N upgrades a version N-1 record to version N. On read, every
+ * migration newer than the record runs in order before the result is
+ * validated, so a schema change ships with a migration instead of wiping
+ * stored games.
+ *
+ * Records that still don't validate are set aside under UNREADABLE_PREFIX
+ * rather than deleted, and records written by a newer build are left alone.
+ */
+
+import type { z } from 'zod';
+import type { StorageAdapter } from './storage-adapter';
+
+/** Prefix of the key a record is moved to when it can't be read */
+export const UNREADABLE_PREFIX = 'correspondence-games:unreadable:';
+
+/**
+ * Upgrades a record of one type by one version.
+ */
+export interface RecordMigration {
+  /** Version this migration produces; it receives version - 1 records */
+  version: number;
+  /** What changed, for logs */
+  description: string;
+  migrate(data: unknown): unknown;
+}
+
+/**
+ * Outcome of reading a record. Failures are values so storage classes can
+ * decide whether to keep, set aside or ignore the record.
+ */
+export type RecordReadResult<T> =
+  | { ok: true; value: T; version: number; migrated: boolean }
+  | { ok: false; reason: 'newer-version'; version: number }
+  | { ok: false; reason: 'invalid'; message: string };
+
+const migrations = new Map<string, RecordMigration[]>();
+
+/**
+ * Registers a migration for a record type. Registering a version again
+ * replaces its migration.
+ */
+export function registerRecordMigration(recordType: string, migration: RecordMigration): void {
+  const list = (migrations.get(recordType) ?? []).filter((m) => m.version !== migration.version);
+  list.push(migration);
+  list.sort((a, b) => a.version - b.version);
+  migrations.set(recordType, list);
+}
+
+/**
+ * Version records of a type are written at: the newest registered migration,
+ * or 1 if the type has none.
+ */
+export function getRecordVersion(recordType: string): number {
+  const list = migrations.get(recordType) ?? [];
+  return Math.max(1, ...list.map((m) => m.version));
+}
+
+/**
+ * Serializes a record at the current version of its type.
+ */
+export function writeRecord(recordType: string, data: unknown): string {
+  return JSON.stringify({ schemaVersion: getRecordVersion(recordType), data });
+}
+
+/**
+ * Wraps data stored before versioning (e.g. a plain string) as a version 0
+ * record, so readRecord()/loadRecord() run it through every migration.
+ */
+export function legacyRecord(data: unknown): string {
+  return JSON.stringify({ schemaVersion: 0, data });
+}
+
+/**
+ * Whether stored text was written by writeRecord(), as opposed to a value
+ * stored before versioning.
+ */
+export function isVersionedRecord(text: string): boolean {
+  try {
+    return unwrap(JSON.parse(text)).version > 0;
+  } catch {
+    return false;
+  }
+}
+
+function unwrap(parsed: unknown): { version: number; data: unknown } {
+  if (typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)) {
+    const keys = Object.keys(parsed);
+    const { schemaVersion, data } = parsed as { schemaVersion?: unknown; data?: unknown };
+    if (keys.length === 2 && 'data' in parsed && Number.isInteger(schemaVersion)) {
+      return { version: schemaVersion as number, data };
+    }
+  }
+  return { version: 0, data: parsed };
+}
+
+/**
+ * Parses a stored record, upgrading it through every newer migration and
+ * validating the result.
+ *
+ * @param text - Raw stored value
+ */
+export function readRecord<T>(recordType: string, schema: z.ZodType<T>, text: string): RecordReadResult<T> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { ok: false, reason: 'invalid', message: 'Stored record is not valid JSON' };
+  }
+
+  const { version, data } = unwrap(parsed);
+  if (version > getRecordVersion(recordType)) {
+    return { ok: false, reason: 'newer-version', version };
+  }
+
+  let upgraded = data;
+  let migrated = false;
+  try {
+    for (const migration of migrations.get(recordType) ?? []) {
+      if (migration.version > version) {
+        upgraded = migration.migrate(upgraded);
+        migrated = true;
+      }
+    }
+  } catch (error) {
+    return { ok: false, reason: 'invalid', message: `Migration failed: ${String(error)}` };
+  }
+
+  const result = schema.safeParse(upgraded);
+  if (!result.success) {
+    return { ok: false, reason: 'invalid', message: result.error.message };
+  }
+  return { ok: true, value: result.data, version, migrated };
+}
+
+/**
+ * Reads the record under a key. Upgraded records are written back at the
+ * current version; unreadable ones are moved under UNREADABLE_PREFIX.
+ *
+ * @returns The record, or null if there is none or it can't be read
+ */
+export function loadRecord<T>(
+  storage: StorageAdapter,
+  key: string,
+  recordType: string,
+  schema: z.ZodType<T>
+): T | null {
+  const item = storage.getItem(key);
+  if (item === null) return null;
+
+  const result = readRecord(recordType, schema, item);
+  if (result.ok) {
+    if (result.migrated || result.version === 0) {
+      storage.setItem(key, writeRecord(recordType, result.value));
+    }
+    return result.value;
+  }
+
+  if (result.reason === 'newer-version') {
+    console.warn(`Stored ${recordType} record was written by a newer version (${result.version}) - leaving it as is`);
+  } else {
+    console.error(`Failed to read stored ${recordType} record, setting it aside:`, result.message);
+    setAsideRecord(storage, key);
+  }
+  return null;
+}
+
+/**
+ * Moves a record that can't be read out of the way, keeping it for recovery.
+ * If the copy can't be written (e.g. storage is full) the record stays where it is.
+ */
+export function setAsideRecord(storage: StorageAdapter, key: string): void {
+  const item = storage.getItem(key);
+  if (item === null) return;
+
+  try {
+    storage.setItem(`${UNREADABLE_PREFIX}${key}`, item);
+  } catch (error) {
+    console.error(`Failed to set aside unreadable record ${key}:`, error);
+    return;
+  }
+  storage.removeItem(key);
+}
@@ -0,0 +1,227 @@
+/**
+ * @fileoverview Defensive decoding of untrusted URL payloads
+ *
+ * Every link is attacker-controlled input. Before anything is decompressed or
+ * parsed, the link length is capped; the decompressed text is capped too
+ * (lz-string can expand a short link into a very large string), JSON nesting
+ * is limited so deeply nested input can't exhaust the stack, and keys that
+ * could pollute prototypes when objects are later spread or merged are
+ * dropped. Every failure is a PayloadDecodeError (see errors) with a
+ * machine-readable reason.
+ */
+
+import type { z } from 'zod';
+import { PayloadDecodeError } from './errors';
+
+/** Longest hash fragment accepted, in characters */
+export const MAX_LINK_LENGTH = 16_384;
+
+/** Longest decompressed payload accepted, in characters */
+export const MAX_PAYLOAD_LENGTH = 65_536;
+
+/** Deepest object/array nesting accepted in a payload */
+export const MAX_JSON_DEPTH = 16;
+
+const FORBIDDEN_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
+
+/**
+ * Rejects links longer than MAX_LINK_LENGTH.
+ *
+ * @throws {PayloadDecodeError} With reason 'too-long'
+ */
+export function assertLinkLength(hashFragment: string): void {
+  if (hashFragment.length > MAX_LINK_LENGTH) {
+    throw new PayloadDecodeError(
+      'too-long',
+      `Link is ${hashFragment.length} characters long - the limit is ${MAX_LINK_LENGTH}`
+    );
+  }
+}
+
+const URI_SAFE_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+-$';
+const URI_SAFE_VALUES = new Map(Array.from(URI_SAFE_ALPHABET, (char, value) => [char, value]));
+
+/**
+ * Decompresses lz-string's URI-safe encoding like
+ * LZString.decompressFromEncodedURIComponent(), but stops as soon as the
+ * output passes maxLength. A link of a few kilobytes can otherwise expand to
+ * hundreds of megabytes (each code can repeat everything decoded so far plus
+ * one character), so checking the length afterwards is too late.
+ *
+ * Malformed input decodes to whatever the library returns for it, including
+ * "" when the input runs out and garbage the library accepts, so links read
+ * the same everywhere.
+ *
+ * @returns The text, or null where the library returns null or throws
+ * @throws {PayloadDecodeError} With reason 'too-large'
+ */
+function decompressBounded(compressed: string, maxLength: number): string | null {
+  const input = compressed.replace(/ /g, '+');
+  let value = URI_SAFE_VALUES.get(input.charAt(0)) ?? 0;
+  let position = 32;
+  let index = 1;
+
+  const readBits = (count: number): number => {
+    let bits = 0;
+    for (let power = 1; power !== 1 << count; power <<= 1) {
+      const bit = value & position;
+      position >>= 1;
+      if (position === 0) {
+        position = 32;
+        value = URI_SAFE_VALUES.get(input.charAt(index++)) ?? 0;
+      }
+      bits |= (bit > 0 ? 1 : 0) * power;
+    }
+    return bits;
+  };
+
+  const dictionary: string[] = ['', '', ''];
+  const result: string[] = [];
+  let length = 0;
+  const append = (text: string) => {
+    length += text.length;
+    if (length > maxLength) {
+      throw new PayloadDecodeError(
+        'too-large',
+        `Link payload expands to more than ${maxLength} characters`
+      );
+    }
+    result.push(text);
+  };
+
+  let enlargeIn = 4;
+  let numBits = 3;
+  const first = readBits(2);
+  if (first === 2) {
+    return '';
+  }
+  // The library has no case for a first token of 3 and carries on with an
+  // undefined character, which it outputs as nothing but concatenates as "undefined"
+  let w = first === 3 ? undefined : String.fromCharCode(readBits(first === 0 ? 8 : 16));
+  dictionary[3] = w ?? '';
+  append(w ?? '');
+
+  for (;;) {
+    if (index > input.length) {
+      return '';
+    }
+
+    let code = readBits(numBits);
+    if (code === 0 || code === 1) {
+      dictionary.push(String.fromCharCode(readBits(code === 0 ? 8 : 16)));
+      code = dictionary.length - 1;
+      enlargeIn--;
+    } else if (code === 2) {
+      return result.join('');
+    }
+
+    if (enlargeIn === 0) {
+      enlargeIn = 1 << numBits;
+      numBits++;
+    }
+
+    const known = dictionary[code];
+    let entry: string;
+    if (known) {
+      entry = known;
+    } else if (code === dictionary.length && w !== undefined) {
+      entry = w + w.charAt(0);
+    } else {
+      // Also where the library throws on the undefined character
+      return null;
+    }
+    append(entry);
+
+    dictionary.push(String(w) + entry.charAt(0));
+    enlargeIn--;
+    w = entry;
+
+    if (enlargeIn === 0) {
+      enlargeIn = 1 << numBits;
+      numBits++;
+    }
+  }
+}
+
+/**
+ * Decompresses an lz-string payload, refusing results over MAX_PAYLOAD_LENGTH.
+ * Decompression stops once the limit is passed, so a small link can't make
+ * the browser build a huge string first.
+ *
+ * @param failureMessage - Message for payloads that don't decompress at all
+ * @throws {PayloadDecodeError} With reason 'too-long', 'decompress-failed' or 'too-large'
+ */
+export function decompressPayload(compressed: string, failureMessage = 'Failed to decompress hash fragment'): string {
+  assertLinkLength(compressed);
+
+  const json = compressed === '' ? null : decompressBounded(compressed, MAX_PAYLOAD_LENGTH);
+  if (!json) {
+    throw new PayloadDecodeError('decompress-failed', failureMessage);
+  }
+  return json;
+}
+
+/**
+ * Measures the deepest object/array nesting of JSON text without parsing it,
+ * so overly deep input is refused before JSON.parse recurses into it.
+ */
+function jsonDepth(json: string): number {
+  let depth = 0;
+  let maxDepth = 0;
+  let inString = false;
+
+  for (let i = 0; i < json.length; i++) {
+    const char = json[i];
+    if (inString) {
+      if (char === '\\') {
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      depth++;
+      maxDepth = Math.max(maxDepth, depth);
+    } else if (char === '}' || char === ']') {
+      depth--;
+    }
+  }
+  return maxDepth;
+}
+
+/**
+ * Parses JSON from a link, refusing deep nesting and dropping `__proto__`,
+ * `constructor` and `prototype` keys.
+ *
+ * @throws {PayloadDecodeError} With reason 'too-deep' or 'invalid-json'
+ */
+export function safeJsonParse(json: string): unknown {
+  const depth = jsonDepth(json);
+  if (depth > MAX_JSON_DEPTH) {
+    throw new PayloadDecodeError('too-deep', `Link payload is nested ${depth} levels deep - the limit is ${MAX_JSON_DEPTH}`);
+  }
+
+  try {
+    return JSON.parse(json, (key, value: unknown) => (FORBIDDEN_KEYS.has(key) ? undefined : value));
+  } catch {
+    throw new PayloadDecodeError('invalid-json', 'Link payload is not valid JSON');
+  }
+}
+
+/**
+ * Validates a decoded payload against a schema.
+ *
+ * @param what - What is being validated, used in the error message (e.g. "delta")
+ * @throws {PayloadDecodeError} With reason 'invalid-schema', listing the failing fields
+ */
+export function parseWithSchema<T>(schema: z.ZodType<T>, value: unknown, what: string): T {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map((issue) => (issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message))
+      .join('; ');
+    throw new PayloadDecodeError('invalid-schema', `Invalid ${what} in URL payload - ${issues}`);
+  }
+  return result.data;
+}
@@ -0,0 +1,186 @@
+/**
+ * @fileoverview Builds complete share URLs within a length budget
+ *
+ * Browsers, chat apps and link shorteners start truncating URLs at around
+ * 2000 characters. ShareUrlBuilder appends the hash fragment to the page URL,
+ * measures the result, and picks the link kind: a delta when the recipient
+ * already holds the previous state, a full state for invites, for recipients
+ * without the game, and every few turns as a checkpoint that resynchronises
+ * both copies.
+ */
+
+import { InvalidInputError, UrlTooLongError } from './errors';
+import type { BaseGameState, BaseMove, TargetPlayer } from './game-definition';
+import type { GameDelta } from './game-delta';
+import type { GameEngine } from './game-engine';
+import { splitLink } from './multipart-link';
+
+/** Default longest share URL, in characters */
+export const DEFAULT_URL_BUDGET = 2000;
+
+/** Default number of turns between full-state checkpoints */
+export const DEFAULT_CHECKPOINT_INTERVAL = 10;
+
+export interface ShareUrlBuilderOptions {
+  /** Page the link opens; any fragment it already has is replaced */
+  baseUrl: string;
+  /** Longest URL to build, in characters (defaults to DEFAULT_URL_BUDGET) */
+  maxLength?: number;
+  /**
+   * Send the full state instead of a delta on every turn divisible by this
+   * (defaults to DEFAULT_CHECKPOINT_INTERVAL, 0 turns checkpoints off)
+   */
+  checkpointInterval?: number;
+  /** Encrypt every link except invites with the game secret */
+  encrypt?: boolean;
+  /**
+   * What to do when no link fits the budget: 'report' returns the shortest
+   * one with `withinBudget: false`, 'split' splits it into parts that each
+   * fit (see multipart-link), 'throw' throws UrlTooLongError (default)
+   */
+  overBudget?: 'report' | 'split' | 'throw';
+}
+
+/**
+ * A state to share, and what the recipient is known to have.
+ */
+export interface ShareRequest<TState, TMove> {
+  state: TState;
+  target: TargetPlayer;
+  /** The delta that produced `state`, if it was just made by a move */
+  delta?: GameDelta<TMove>;
+  /**
+   * Whether the recipient holds the state the delta applies to (defaults to
+   * true). Set false when they may have lost it, e.g. after a reinstall.
+   */
+  recipientHasState?: boolean;
+  /** Build the invite link, which carries the game secret */
+  includeSecret?: boolean;
+}
+
+export type ShareUrlReason = 'invite' | 'no-delta' | 'checkpoint' | 'delta' | 'delta-over-budget';
+
+export interface ShareUrl {
+  url: string;
+  kind: 'full-state' | 'delta';
+  /** Why this kind of link was chosen */
+  reason: ShareUrlReason;
+  length: number;
+  budget: number;
+  withinBudget: boolean;
+  /** With overBudget 'split': URLs of every part, in order (`url` is the first) */
+  parts?: string[];
+}
+
+/**
+ * Builds share URLs for one game type and page.
+ *
+ * @example
+ * ```typescript
+ * const links = new ShareUrlBuilder(engine, { baseUrl: location.href });
+ * const { state, delta } = await engine.makeMove(current, move);
+ * const { url } = await links.build({ state, delta, target: { seat: 2 } });
+ * ```
+ */
+export class ShareUrlBuilder<TState extends BaseGameState, TMove extends BaseMove> {
+  private readonly baseUrl: string;
+  private readonly maxLength: number;
+  private readonly checkpointInterval: number;
+  private readonly encrypt: boolean;
+  private readonly overBudget: 'report' | 'split' | 'throw';
+
+  constructor(
+    private readonly engine: GameEngine<TState, TMove>,
+    options: ShareUrlBuilderOptions
+  ) {
+    this.baseUrl = stripFragment(options.baseUrl);
+    this.maxLength = options.maxLength ?? DEFAULT_URL_BUDGET;
+    this.checkpointInterval = options.checkpointInterval ?? DEFAULT_CHECKPOINT_INTERVAL;
+    this.encrypt = options.encrypt ?? false;
+    this.overBudget = options.overBudget ?? 'throw';
+  }
+
+  /**
+   * Builds the share URL for a state, preferring a delta when the recipient
+   * can apply one and it fits the budget.
+   *
+   * @throws {InvalidInputError} If the delta doesn't produce the state
+   * @throws {UrlTooLongError} If no link fits the budget and overBudget is 'throw'
+   * @throws {InvalidInputError} If overBudget is 'split' and the link can't
+   *   be split within the budget
+   * @throws {KeyUnavailableError} If no secret is stored for the game
+   */
+  async build(request: ShareRequest<TState, TMove>): Promise<ShareUrl> {
+    const { state, delta } = request;
+    if (delta && (delta.gameId !== state.gameId || delta.newChecksum !== state.checksum)) {
+      throw new InvalidInputError('Delta does not produce the state being shared');
+    }
+
+    if (request.includeSecret) {
+      return this.settle(await this.fullState(request, 'invite'));
+    }
+    if (!delta || request.recipientHasState === false) {
+      return this.settle(await this.fullState(request, 'no-delta'));
+    }
+    if (this.checkpointInterval > 0 && state.currentTurn % this.checkpointInterval === 0) {
+      return this.settle(await this.fullState(request, 'checkpoint'));
+    }
+
+    const deltaUrl = await this.delta(request, delta);
+    if (deltaUrl.withinBudget) {
+      return deltaUrl;
+    }
+    const fullStateUrl = await this.fullState(request, 'delta-over-budget');
+    return this.settle(fullStateUrl.length < deltaUrl.length ? fullStateUrl : deltaUrl);
+  }
+
+  private async fullState(request: ShareRequest<TState, TMove>, reason: ShareUrlReason): Promise<ShareUrl> {
+    const includeSecret = request.includeSecret ?? false;
+    const hash = await this.engine.encodeFullState(request.state, request.target, {
+      includeSecret,
+      encrypt: this.encrypt && !includeSecret,
+    });
+    return this.measure(hash, 'full-state', reason);
+  }
+
+  private async delta(request: ShareRequest<TState, TMove>, delta: GameDelta<TMove>): Promise<ShareUrl> {
+    const hash = this.engine.encodeDelta(delta, request.target);
+    return this.measure(this.encrypt ? await this.engine.encryptLink(hash, delta.gameId) : hash, 'delta', 'delta');
+  }
+
+  private measure(hashFragment: string, kind: ShareUrl['kind'], reason: ShareUrlReason): ShareUrl {
+    const url = this.baseUrl + hashFragment;
+    return {
+      url,
+      kind,
+      reason,
+      length: url.length,
+      budget: this.maxLength,
+      withinBudget: url.length <= this.maxLength,
+    };
+  }
+
+  private async settle(shareUrl: ShareUrl): Promise<ShareUrl> {
+    if (shareUrl.withinBudget || this.overBudget === 'report') {
+      return shareUrl;
+    }
+    if (this.overBudget === 'split') {
+      const hashFragment = shareUrl.url.slice(this.baseUrl.length);
+      const parts = (await splitLink(hashFragment, this.maxLength - this.baseUrl.length)).map(
+        (part) => this.baseUrl + part
+      );
+      const first = parts[0] ?? shareUrl.url;
+      return { ...shareUrl, url: first, length: first.length, withinBudget: true, parts };
+    }
+    throw new UrlTooLongError(
+      `Share link is ${shareUrl.length} characters long - the limit is ${shareUrl.budget}`,
+      shareUrl.length,
+      shareUrl.budget
+    );
+  }
+}
+
+function stripFragment(url: string): string {
+  const hashIndex = url.indexOf('#');
+  return hashIndex === -1 ? url : url.slice(0, hashIndex);
+}
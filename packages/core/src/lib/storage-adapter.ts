@@ -0,0 +1,224 @@
+/**
+ * @fileoverview Key-value storage backends behind a common adapter
+ *
+ * Every storage class (GameStorage, TicTacToeStorage, HotSeatStorage,
+ * PlayerStorage, MoveLedger, GameSecretStorage) takes a StorageAdapter and
+ * defaults to localStorage, keeping the same key names on every backend.
+ *
+ * The storage classes are synchronous. Asynchronous backends (IndexedDB, or
+ * the Node filesystem in node-file-storage) are put behind them with
+ * CachedStorageAdapter, which loads every entry up front and writes changes
+ * back in the background.
+ */
+
+/**
+ * Synchronous key-value storage with the localStorage semantics the storage classes rely on.
+ */
+export interface StorageAdapter {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+  /** Every stored key, in no particular order */
+  keys(): string[];
+}
+
+/**
+ * Asynchronous key-value storage, for backends that can't answer synchronously.
+ */
+export interface AsyncStorageAdapter {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  keys(): Promise<string[]>;
+}
+
+/**
+ * Stores entries in the browser's localStorage (about 5MB per site).
+ * The global is looked up on every call, so it can be replaced in tests.
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  getItem(key: string): string | null {
+    return localStorage.getItem(key);
+  }
+
+  setItem(key: string, value: string): void {
+    localStorage.setItem(key, value);
+  }
+
+  removeItem(key: string): void {
+    localStorage.removeItem(key);
+  }
+
+  keys(): string[] {
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key !== null) keys.push(key);
+    }
+    return keys;
+  }
+}
+
+/**
+ * Keeps entries in memory only (tests, Node scripts, or private browsing).
+ */
+export class InMemoryStorageAdapter implements StorageAdapter {
+  private readonly entries = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this.entries.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.entries.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.entries.delete(key);
+  }
+
+  keys(): string[] {
+    return Array.from(this.entries.keys());
+  }
+}
+
+/**
+ * Exposes a synchronous adapter through the asynchronous interface, e.g. to
+ * back a CachedStorageAdapter with memory in tests.
+ */
+export function toAsyncStorageAdapter(adapter: StorageAdapter): AsyncStorageAdapter {
+  return {
+    getItem: async (key) => adapter.getItem(key),
+    setItem: async (key, value) => adapter.setItem(key, value),
+    removeItem: async (key) => adapter.removeItem(key),
+    keys: async () => adapter.keys(),
+  };
+}
+
+const DB_NAME = 'correspondence-games-storage';
+const DB_STORE = 'entries';
+
+/**
+ * Stores entries in IndexedDB, which holds far more than localStorage.
+ */
+export class IndexedDBStorageAdapter implements AsyncStorageAdapter {
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly dbName: string = DB_NAME) {}
+
+  async getItem(key: string): Promise<string | null> {
+    const value = await this.request<unknown>('readonly', (store) => store.get(key));
+    return typeof value === 'string' ? value : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.request('readwrite', (store) => store.put(value, key));
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.request('readwrite', (store) => store.delete(key));
+  }
+
+  async keys(): Promise<string[]> {
+    const keys = await this.request('readonly', (store) => store.getAllKeys());
+    return keys.filter((key): key is string => typeof key === 'string');
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(DB_STORE);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Let a later call retry if opening failed
+      this.db.catch(() => {
+        this.db = null;
+      });
+    }
+    return this.db;
+  }
+
+  private async request<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.open();
+    const request = run(db.transaction(DB_STORE, mode).objectStore(DB_STORE));
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+/**
+ * Synchronous view of an asynchronous backend. Every entry is loaded into
+ * memory by load(); reads are served from memory and writes are applied to
+ * memory at once and sent to the backend in order.
+ *
+ * @example
+ * ```typescript
+ * const storage = await CachedStorageAdapter.load(new IndexedDBStorageAdapter());
+ * const games = new TicTacToeStorage(storage);
+ * ```
+ */
+export class CachedStorageAdapter implements StorageAdapter {
+  private pending: Promise<void> = Promise.resolve();
+  private failure: { error: unknown } | null = null;
+
+  private constructor(
+    private readonly backend: AsyncStorageAdapter,
+    private readonly entries: Map<string, string>
+  ) {}
+
+  /**
+   * Loads every entry of the backend.
+   */
+  static async load(backend: AsyncStorageAdapter): Promise<CachedStorageAdapter> {
+    const entries = new Map<string, string>();
+    for (const key of await backend.keys()) {
+      const value = await backend.getItem(key);
+      if (value !== null) entries.set(key, value);
+    }
+    return new CachedStorageAdapter(backend, entries);
+  }
+
+  getItem(key: string): string | null {
+    return this.entries.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.entries.set(key, value);
+    this.enqueue(() => this.backend.setItem(key, value));
+  }
+
+  removeItem(key: string): void {
+    this.entries.delete(key);
+    this.enqueue(() => this.backend.removeItem(key));
+  }
+
+  keys(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  /**
+   * Waits until every change so far has reached the backend.
+   *
+   * @throws The first backend error since the last flush
+   */
+  async flush(): Promise<void> {
+    await this.pending;
+    const failure = this.failure;
+    this.failure = null;
+    if (failure) {
+      throw failure.error;
+    }
+  }
+
+  private enqueue(write: () => Promise<void>): void {
+    this.pending = this.pending.then(write).catch((error: unknown) => {
+      this.failure = this.failure ?? { error };
+    });
+  }
+}
@@ -1,27 +1,31 @@
-import { calculateChecksum } from './checksum';
+import { calculateStateChecksum } from './checksum';
 import type { TicTacToeGameState } from './tic-tac-toe-schema';
 
+/**
+ * State fields covered by the Tic-Tac-Toe checksum: everything but the
+ * checksum itself and the optional move log (which is verified by replay).
+ */
+export const TIC_TAC_TOE_CHECKSUM_FIELDS = [
+  'gameId',
+  'board',
+  'currentTurn',
+  'currentPlayer',
+  'player1',
+  'player2',
+  'status',
+] as const satisfies readonly (keyof TicTacToeGameState)[];
+
 /**
  * Calculate SHA-256 checksum for Tic-Tac-Toe game state
  *
  * CRITICAL: Must be deterministic - same state = same checksum
  * Only includes game-critical data (no timestamps, UI state, etc.)
+ * Matches GameEngine.calculateChecksum for ticTacToeDefinition: this is the
+ * checksum a new game starts from; moves extend it with chainChecksum.
  *
  * @param state - Tic-Tac-Toe game state
  * @returns SHA-256 checksum as 64-character hex string
  */
 export async function calculateBoardChecksum(state: TicTacToeGameState): Promise<string> {
-  // Create canonical representation (deterministic JSON)
-  const canonical = JSON.stringify({
-    gameId: state.gameId,
-    board: state.board,
-    currentTurn: state.currentTurn,
-    currentPlayer: state.currentPlayer,
-    player1Name: state.player1Name,
-    player2Name: state.player2Name,
-    status: state.status,
-  });
-
-  // Reuse existing checksum implementation
-  return calculateChecksum(canonical);
+  return calculateStateChecksum(state, TIC_TAC_TOE_CHECKSUM_FIELDS);
 }
@@ -0,0 +1,90 @@
+/**
+ * @fileoverview Tic-Tac-Toe ported onto the generic GameDefinition contract
+ */
+
+import type { GameDefinition } from './game-definition';
+import {
+  TicTacToeGameStateSchema,
+  TicTacToeMoveSchema,
+  createNewTicTacToeGame,
+  type Board,
+  type TicTacToeGameState,
+  type TicTacToeMove,
+} from './tic-tac-toe-schema';
+import { TIC_TAC_TOE_CHECKSUM_FIELDS } from './tic-tac-toe-checksum';
+import { calculateGameStatus, validateGameState } from './tic-tac-toe-game-logic';
+
+export const ticTacToeDefinition: GameDefinition<TicTacToeGameState, TicTacToeMove> = {
+  id: 'tic-tac-toe',
+  stateSchema: TicTacToeGameStateSchema,
+  moveSchema: TicTacToeMoveSchema,
+
+  createInitialState(gameId, creator) {
+    return createNewTicTacToeGame(gameId, creator.id, creator.name);
+  },
+
+  validateMove(state, move) {
+    const expectedMark = move.player === 1 ? 'X' : 'O';
+    if (move.mark !== expectedMark) {
+      return `Player ${move.player} must play ${expectedMark}`;
+    }
+    if (state.board[move.cellIndex] !== null) {
+      return `Cell ${move.cellIndex} is already occupied by ${state.board[move.cellIndex]}`;
+    }
+    return null;
+  },
+
+  applyMove(state, move) {
+    const board: Board = [...state.board];
+    board[move.cellIndex] = move.mark;
+    return {
+      ...state,
+      board,
+      status: calculateGameStatus(board),
+    };
+  },
+
+  validateState(state) {
+    return validateGameState(state);
+  },
+
+  getOutcome(state) {
+    switch (state.status) {
+      case 'player1_wins':
+        return { status: 'finished', winner: 1 };
+      case 'player2_wins':
+        return { status: 'finished', winner: 2 };
+      case 'draw':
+        return { status: 'finished', winner: null };
+      default:
+        return { status: 'playing', winner: null };
+    }
+  },
+
+  checksumFields: TIC_TAC_TOE_CHECKSUM_FIELDS,
+
+  getSeatKey(state, seat) {
+    return (seat === 1 ? state.player1 : state.player2).publicKey;
+  },
+
+  lockSeat(state, seat, identity) {
+    const key = seat === 1 ? 'player1' : 'player2';
+    return {
+      ...state,
+      [key]: { ...state[key], id: identity.playerId, publicKey: identity.publicKey },
+    };
+  },
+
+  getMoveHistory(state) {
+    return state.moves;
+  },
+
+  setMoveHistory(state, moves) {
+    return { ...state, moves };
+  },
+
+  // Players are not produced by moves, so only the board and status are replayed
+  getPosition(state) {
+    return { board: state.board, status: state.status };
+  },
+};
@@ -1,43 +1,31 @@
-import LZString from 'lz-string';
-import { calculateChecksum } from './checksum';
-import type { Board } from './tic-tac-toe-schema';
+import { chainChecksum } from './checksum';
+import {
+  applyDelta as applyGameDelta,
+  createDelta as createGameDelta,
+  createDeltaSchema,
+  decodeDelta as decodeGameDelta,
+  encodeDelta as encodeGameDelta,
+  verifyDeltaHMAC,
+  type GameDelta,
+} from './game-delta';
+import { IllegalMoveError, LegacyFormatError } from './errors';
+import { GameSecretStorage, type PassphraseOptions, type SecretStorageOptions } from './game-secret';
+import { ticTacToeDefinition } from './tic-tac-toe-definition';
+import {
+  TicTacToeMoveSchema,
+  type Board,
+  type TicTacToeGameState,
+  type TicTacToeMove,
+} from './tic-tac-toe-schema';
+
+export type TicTacToeDelta = GameDelta<TicTacToeMove>;
+
+export const TicTacToeDeltaSchema = createDeltaSchema(TicTacToeMoveSchema);
 
-const GAME_SECRET = 'tic-tac-toe-game-secret-key'; // TODO: Make this configurable
-
-export interface TicTacToeDelta {
-  gameId: string;
-  move: {
-    player: 1 | 2;
-    cellIndex: number; // 0-8
-    mark: 'X' | 'O';
-    turn: number;
-  };
-  prevChecksum: string;
-  newChecksum: string;
-  hmac: string;
-}
-
-async function generateHMAC(data: string): Promise<string> {
-  const encoder = new TextEncoder();
-
-  const key = await crypto.subtle.importKey(
-    'raw',
-    encoder.encode(GAME_SECRET),
-    { name: 'HMAC', hash: 'SHA-256' },
-    false,
-    ['sign']
-  );
-
-  const signature = await crypto.subtle.sign(
-    'HMAC',
-    key,
-    encoder.encode(data)
-  );
-
-  return Array.from(new Uint8Array(signature))
-    .map((b) => b.toString(16).padStart(2, '0'))
-    .join('');
-}
+/**
+ * A board together with its stored checksum.
+ */
+export type TicTacToeBoardState = Pick<TicTacToeGameState, 'board' | 'checksum'>;
 
 export async function createDelta(
   gameId: string,
@@ -46,26 +34,16 @@ export async function createDelta(
   player: 1 | 2,
   turn: number,
   prevChecksum: string,
-  newChecksum: string
+  newChecksum: string,
+  options: SecretStorageOptions = {}
 ): Promise<TicTacToeDelta> {
-  const delta: Omit<TicTacToeDelta, 'hmac'> = {
+  return createGameDelta(
     gameId,
-    move: { player, cellIndex, mark, turn },
+    { player, cellIndex, mark, turn },
     prevChecksum,
     newChecksum,
-  };
-
-  const hmac = await generateHMAC(JSON.stringify(delta));
-
-  return { ...delta, hmac };
-}
-
-/**
- * Payload structure for delta encoding with embedded target player ID.
- */
-interface DeltaPayload {
-  delta: TicTacToeDelta;
-  targetPlayerId: string;  // WHO this URL is for (by player ID)
+    (options.secrets ?? new GameSecretStorage()).requireSecret(gameId)
+  );
 }
 
 /**
@@ -74,95 +52,61 @@ interface DeltaPayload {
  *
  * @param delta - The delta to encode
  * @param targetPlayerId - Which player this URL is intended for (by player ID)
- * @returns Hash fragment like "#d=<compressed-payload>" (player ID embedded, not visible)
+ * @returns Hash fragment like "#d=2.tic-tac-toe.<compressed-payload>" (player ID embedded, not visible)
  */
 export function encodeDelta(delta: TicTacToeDelta, targetPlayerId: string): string {
-  const payload: DeltaPayload = { delta, targetPlayerId };
-  const json = JSON.stringify(payload);
-  const compressed = LZString.compressToEncodedURIComponent(json);
-  return `#d=${compressed}`;
+  // The recipient is always the opponent of the player who moved
+  const seat = delta.move.player === 1 ? 2 : 1;
+  return encodeGameDelta(delta, { seat, playerId: targetPlayerId }, ticTacToeDefinition.id);
 }
 
 /**
  * Decodes delta from URL hash fragment, extracting embedded target player ID.
  *
- * @param hashFragment - Hash like "#d=<compressed-payload>"
+ * @param hashFragment - Hash like "#d=2.tic-tac-toe.<compressed-payload>"
  * @returns Object with delta and targetPlayerId (extracted from payload)
  */
 export function decodeDelta(hashFragment: string): { delta: TicTacToeDelta; targetPlayerId: string } {
-  const compressed = hashFragment.substring(3); // Remove '#d='
-  const json = LZString.decompressFromEncodedURIComponent(compressed);
+  const { delta, target } = decodeGameDelta(hashFragment, ticTacToeDefinition.id, TicTacToeMoveSchema);
 
-  if (!json) {
-    throw new Error('Failed to decompress delta hash fragment');
+  // Old formats carry no player ID, which can't be recovered without game state
+  if (target.playerId === undefined) {
+    throw new LegacyFormatError('Old URL format not supported - please generate new URL');
   }
 
-  const payload = JSON.parse(json);
-
-  // Handle backward compatibility: old URLs without targetPlayerId
-  if (payload.targetPlayerId === undefined) {
-    // Check for old targetPlayer format (number)
-    if (payload.targetPlayer !== undefined) {
-      // Old format with targetPlayer number - but we need player ID
-      // Can't fully convert without game state, so throw error
-      throw new Error('Old URL format not supported - please generate new URL');
-    }
-
-    // Very old format: payload is the delta itself
-    // Can't determine target player ID without game state
-    throw new Error('Old URL format not supported - please generate new URL');
-  }
-
-  // New format: payload has delta and targetPlayerId
-  if (!payload.targetPlayerId || typeof payload.targetPlayerId !== 'string') {
-    throw new Error('Invalid target player ID in URL payload');
-  }
-
-  return { delta: payload.delta, targetPlayerId: payload.targetPlayerId };
+  return { delta, targetPlayerId: target.playerId };
 }
 
+/**
+ * Verifies and applies a delta to a board. The stored checksum is compared
+ * with the delta and extended by the move (see chainChecksum).
+ *
+ * @returns The new board and its checksum
+ */
 export async function applyDelta(
-  currentBoard: Board,
-  delta: TicTacToeDelta
-): Promise<Board> {
-  // 1. Verify HMAC (tamper detection)
-  const expectedHmac = await generateHMAC(
-    JSON.stringify({
-      gameId: delta.gameId,
-      move: delta.move,
-      prevChecksum: delta.prevChecksum,
-      newChecksum: delta.newChecksum,
-    })
+  current: TicTacToeBoardState,
+  delta: TicTacToeDelta,
+  options: PassphraseOptions & SecretStorageOptions = {}
+): Promise<TicTacToeBoardState> {
+  const secrets = options.secrets ?? new GameSecretStorage();
+  const secret = await secrets.unlockSecret(
+    delta.gameId,
+    options.passphrase,
+    (candidate) => verifyDeltaHMAC(delta, candidate)
   );
 
-  if (delta.hmac !== expectedHmac) {
-    throw new Error('URL has been tampered with - HMAC mismatch');
-  }
-
-  // 2. Verify current state matches expected previous state
-  const currentChecksum = await calculateChecksum(JSON.stringify(currentBoard));
-  if (currentChecksum !== delta.prevChecksum) {
-    throw new Error(
-      'Board state mismatch - current state does not match expected previous state'
-    );
-  }
-
-  // 3. Validate cell is empty
-  if (currentBoard[delta.move.cellIndex] !== null) {
-    throw new Error(
-      `Cell ${delta.move.cellIndex} is already occupied by ${currentBoard[delta.move.cellIndex]}`
-    );
-  }
-
-  // 4. Apply move
-  const newBoard: Board = [...currentBoard];
-  newBoard[delta.move.cellIndex] = delta.move.mark;
-
-  // 5. Verify result matches expected new state
-  const newChecksum = await calculateChecksum(JSON.stringify(newBoard));
-  if (newChecksum !== delta.newChecksum) {
-    throw new Error('Move application failed - checksum mismatch');
-  }
-
-  return newBoard;
+  return applyGameDelta(current, delta, secret, {
+    checksum: (state) => state.checksum,
+    apply: async ({ board, checksum }, move, received) => {
+      // Validate cell is empty
+      if (board[move.cellIndex] !== null) {
+        const reason = `Cell ${move.cellIndex} is already occupied by ${board[move.cellIndex]}`;
+        throw new IllegalMoveError(reason, reason);
+      }
+
+      const newBoard: Board = [...board];
+      newBoard[move.cellIndex] = move.mark;
+      return { board: newBoard, checksum: await chainChecksum(checksum, move, received.publicKey) };
+    },
+  });
 }
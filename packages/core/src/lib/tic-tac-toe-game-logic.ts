@@ -1,4 +1,4 @@
-import type { Board, GameStatus } from './tic-tac-toe-schema';
+import type { Board, GameStatus, TicTacToeGameState } from './tic-tac-toe-schema';
 
 // 8 possible winning lines: 3 rows, 3 columns, 2 diagonals
 const WINNING_LINES = [
@@ -84,3 +84,48 @@ export function calculateGameStatus(board: Board): GameStatus {
 
   return 'playing';
 }
+
+/**
+ * Cross-check a state against the rules: mark counts, turn counter,
+ * player to move and status must all agree with the board.
+ * The schema only checks shapes, so run this on every decoded state.
+ * @param state - Game state to check
+ * @returns List of violations (empty if the state is consistent)
+ */
+export function validateGameState(state: TicTacToeGameState): string[] {
+  const { board } = state;
+  const violations: string[] = [];
+  const xCount = board.filter(cell => cell === 'X').length;
+  const oCount = board.filter(cell => cell === 'O').length;
+  const marks = xCount + oCount;
+
+  // X always moves first, so X has as many marks as O or one more
+  if (xCount !== oCount && xCount !== oCount + 1) {
+    violations.push(`Board has ${xCount} X and ${oCount} O marks`);
+  }
+  if (state.currentTurn !== marks) {
+    violations.push(`currentTurn is ${state.currentTurn} but the board has ${marks} marks`);
+  }
+  const expectedPlayer = marks % 2 === 0 ? 1 : 2;
+  if (state.currentPlayer !== expectedPlayer) {
+    violations.push(`currentPlayer is ${state.currentPlayer} but player ${expectedPlayer} is to move`);
+  }
+
+  // Check each mark on its own, since checkWinner stops at the first line
+  const xWins = checkWinner(board.map(cell => (cell === 'X' ? cell : null)) as Board).winner !== null;
+  const oWins = checkWinner(board.map(cell => (cell === 'O' ? cell : null)) as Board).winner !== null;
+  if (xWins && oWins) {
+    violations.push('Both players have a winning line');
+  } else if (xWins && xCount === oCount) {
+    violations.push('X won, but O moved after the winning move');
+  } else if (oWins && xCount === oCount + 1) {
+    violations.push('O won, but X moved after the winning move');
+  }
+
+  const expectedStatus = calculateGameStatus(board);
+  if (state.status !== expectedStatus) {
+    violations.push(`status is '${state.status}' but the board is '${expectedStatus}'`);
+  }
+
+  return violations;
+}
@@ -27,9 +27,19 @@ export type GameStatus = z.infer<typeof GameStatusSchema>;
 export const PlayerSchema = z.object({
   id: z.string(), // UUID or empty string (for Player 2 before joining)
   name: z.string(),
+  publicKey: z.string().optional(), // Identity key locked to the seat after the player's first signed move
 });
 export type Player = z.infer<typeof PlayerSchema>;
 
+// A single mark placed by one player
+export const TicTacToeMoveSchema = z.object({
+  player: z.union([z.literal(1), z.literal(2)]),
+  cellIndex: z.number().int().min(0).max(8),
+  mark: z.union([z.literal('X'), z.literal('O')]),
+  turn: z.number().int().min(1).max(9),
+});
+export type TicTacToeMove = z.infer<typeof TicTacToeMoveSchema>;
+
 export const TicTacToeGameStateSchema = z.object({
   gameId: z.string().uuid(),
   board: BoardSchema,
@@ -39,6 +49,7 @@ export const TicTacToeGameStateSchema = z.object({
   player2: PlayerSchema, // WHO is playing role 2 (O) - may have empty name until joins
   status: GameStatusSchema,
   checksum: z.string().length(64), // SHA-256 hex
+  moves: z.array(TicTacToeMoveSchema).max(9).optional(), // Optional move log, replayed to verify the board
 });
 export type TicTacToeGameState = z.infer<typeof TicTacToeGameStateSchema>;
 
@@ -1,51 +1,238 @@
-import { TicTacToeGameStateSchema, type TicTacToeGameState } from './tic-tac-toe-schema';
+import { z } from 'zod';
+import { StorageQuotaError } from './errors';
+import { MoveLedger, type LedgerVerdict } from './move-ledger';
+import { loadRecord, readRecord, registerRecordMigration, setAsideRecord, writeRecord } from './record-migrations';
+import { LocalStorageAdapter, type StorageAdapter } from './storage-adapter';
+import {
+  GameStatusSchema,
+  TicTacToeGameStateSchema,
+  type GameStatus,
+  type TicTacToeGameState,
+} from './tic-tac-toe-schema';
 
-const GAME_STATE_KEY = 'correspondence-games:tic-tac-toe-state';
+const GAME_PREFIX = 'correspondence-games:tic-tac-toe:game:';
+const INDEX_KEY = 'correspondence-games:tic-tac-toe:games';
+const CURRENT_GAME_KEY = 'correspondence-games:tic-tac-toe:current-game';
+// Single-game key used before games were stored by id; migrated on first use
+const LEGACY_GAME_STATE_KEY = 'correspondence-games:tic-tac-toe-state';
+const GAME_RECORD = 'tic-tac-toe-game';
+const INDEX_RECORD = 'tic-tac-toe-index';
+
+const GameIndexSchema = z.array(
+  z.object({
+    gameId: z.string(),
+    status: GameStatusSchema,
+    currentTurn: z.number().int().min(0),
+    updatedAt: z.number(),
+  })
+);
+
+// Version 1: players became { id, name } objects instead of name strings
+registerRecordMigration(GAME_RECORD, {
+  version: 1,
+  description: 'player1Name/player2Name strings to player1/player2 objects',
+  migrate(data) {
+    if (typeof data !== 'object' || data === null) return data;
+    const { player1Name, player2Name, ...rest } = data as Record<string, unknown>;
+    return {
+      player1: typeof player1Name === 'string' ? { id: '', name: player1Name } : undefined,
+      player2: typeof player2Name === 'string' ? { id: '', name: player2Name } : undefined,
+      ...rest,
+    };
+  },
+});
+
+/**
+ * Index entry of a stored game, enough to list games without loading them.
+ */
+export interface StoredGameSummary {
+  gameId: string;
+  status: GameStatus;
+  currentTurn: number;
+  /** When the game was last saved (ms since epoch) */
+  updatedAt: number;
+}
+
+export type GameListFilter = 'all' | 'active' | 'finished';
 
 /**
  * Storage manager for Tic-Tac-Toe game state
- * Handles localStorage persistence with Zod validation
+ * Handles localStorage (or storage adapter) persistence with Zod validation
+ *
+ * Every game is stored under its own key, with an index of all games, so
+ * a link from a second opponent never overwrites the first game. The
+ * current game is the one the app last saved or opened; loadGameState() and
+ * clearGameState() without a gameId act on it.
  */
 export class TicTacToeStorage {
+  constructor(
+    private readonly storage: StorageAdapter = new LocalStorageAdapter(),
+    private readonly ledger: MoveLedger = new MoveLedger(storage)
+  ) {}
+
   /**
-   * Save game state to localStorage
+   * Save game state to localStorage and make it the current game.
+   * Other stored games are left untouched.
+   * Older turns than the latest one saved for the game are refused, so
+   * reopening an old link can't rewind the game.
    * @param state - Game state to save
+   * @returns The ledger verdict; nothing was saved if its status is 'stale'
+   * @throws {StorageQuotaError} If localStorage quota is exceeded
    */
-  saveGameState(state: TicTacToeGameState): void {
+  saveGameState(state: TicTacToeGameState): LedgerVerdict {
+    this.migrateLegacyGame();
+    const verdict = this.ledger.check(state.gameId, state.currentTurn, state.checksum);
+    if (verdict.status === 'stale') {
+      return verdict;
+    }
+
     try {
-      localStorage.setItem(GAME_STATE_KEY, JSON.stringify(state));
+      this.storage.setItem(`${GAME_PREFIX}${state.gameId}`, writeRecord(GAME_RECORD, state));
+      this.updateIndex(state);
+      this.storage.setItem(CURRENT_GAME_KEY, state.gameId);
+      this.ledger.record(state.gameId, state.currentTurn, state.checksum);
     } catch (error) {
-      console.error('Failed to save Tic-Tac-Toe game state:', error);
+      if (error instanceof DOMException && error.name === 'QuotaExceededError') {
+        console.error('Failed to save Tic-Tac-Toe game state:', error);
+        throw new StorageQuotaError('Cannot save game state: localStorage quota exceeded');
+      }
+      throw error;
     }
+    return verdict;
   }
 
   /**
-   * Load game state from localStorage
-   * @returns Game state or null if not found/invalid
+   * Load game state from localStorage. Games saved in an older format are
+   * upgraded through the registered record migrations.
+   * @param gameId - Game to load (defaults to the current game)
+   * @returns Game state or null if not found/invalid. Invalid games are set
+   * aside (see record-migrations) and dropped from the index.
    */
-  loadGameState(): TicTacToeGameState | null {
-    try {
-      const item = localStorage.getItem(GAME_STATE_KEY);
-      if (!item) return null;
+  loadGameState(gameId: string | null = this.getCurrentGameId()): TicTacToeGameState | null {
+    this.migrateLegacyGame();
+    if (gameId === null) return null;
 
-      const parsed = JSON.parse(item);
-      return TicTacToeGameStateSchema.parse(parsed);
-    } catch (error) {
-      console.error('Failed to load Tic-Tac-Toe game state:', error);
-      // Clear invalid data
-      this.clearGameState();
-      return null;
+    const key = `${GAME_PREFIX}${gameId}`;
+    if (this.storage.getItem(key) === null) return null;
+
+    const state = loadRecord(this.storage, key, GAME_RECORD, TicTacToeGameStateSchema);
+    if (!state && this.storage.getItem(key) === null) {
+      // Set aside as unreadable
+      this.deleteGame(gameId);
     }
+    return state;
   }
 
   /**
-   * Clear game state from localStorage
+   * Whether a game is stored. Check this before saving a state from a link:
+   * an unknown gameId while another game is active means a new opponent.
    */
-  clearGameState(): void {
+  hasGame(gameId: string): boolean {
+    this.migrateLegacyGame();
+    return this.storage.getItem(`${GAME_PREFIX}${gameId}`) !== null;
+  }
+
+  /**
+   * The game loadGameState() returns by default, or null if there is none.
+   */
+  getCurrentGameId(): string | null {
+    this.migrateLegacyGame();
+    return this.storage.getItem(CURRENT_GAME_KEY);
+  }
+
+  /**
+   * Switches the current game.
+   * @returns False if the game isn't stored
+   */
+  setCurrentGame(gameId: string): boolean {
+    if (!this.hasGame(gameId)) return false;
+    this.storage.setItem(CURRENT_GAME_KEY, gameId);
+    return true;
+  }
+
+  /**
+   * Lists stored games, most recently saved first.
+   * @param filter - 'active' for games still being played, 'finished' for the rest
+   */
+  listGames(filter: GameListFilter = 'all'): StoredGameSummary[] {
+    this.migrateLegacyGame();
+    return this.readIndex()
+      .filter((entry) => filter === 'all' || (entry.status === 'playing') === (filter === 'active'))
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  /**
+   * Delete one game from localStorage. If it was the current game, there
+   * is no current game afterwards.
+   */
+  deleteGame(gameId: string): void {
     try {
-      localStorage.removeItem(GAME_STATE_KEY);
+      this.storage.removeItem(`${GAME_PREFIX}${gameId}`);
+      this.writeIndex(this.readIndex().filter((entry) => entry.gameId !== gameId));
+      if (this.storage.getItem(CURRENT_GAME_KEY) === gameId) {
+        this.storage.removeItem(CURRENT_GAME_KEY);
+      }
     } catch (error) {
-      console.error('Failed to clear Tic-Tac-Toe game state:', error);
+      console.error('Failed to delete Tic-Tac-Toe game state:', error);
     }
   }
+
+  /**
+   * Clear the current game from localStorage
+   */
+  clearGameState(): void {
+    const gameId = this.getCurrentGameId();
+    if (gameId !== null) {
+      this.deleteGame(gameId);
+    }
+  }
+
+  private readIndex(): StoredGameSummary[] {
+    const item = this.storage.getItem(INDEX_KEY);
+    if (!item) return [];
+
+    const result = readRecord(INDEX_RECORD, GameIndexSchema, item);
+    if (!result.ok) {
+      console.error('Failed to read Tic-Tac-Toe game index:', result.reason);
+      return [];
+    }
+    return result.value;
+  }
+
+  private writeIndex(entries: StoredGameSummary[]): void {
+    this.storage.setItem(INDEX_KEY, writeRecord(INDEX_RECORD, entries));
+  }
+
+  private updateIndex(state: TicTacToeGameState): void {
+    const entries = this.readIndex().filter((entry) => entry.gameId !== state.gameId);
+    entries.push({
+      gameId: state.gameId,
+      status: state.status,
+      currentTurn: state.currentTurn,
+      updatedAt: Date.now(),
+    });
+    this.writeIndex(entries);
+  }
+
+  /**
+   * Moves a game saved under the old single-game key into per-game storage.
+   * Invalid data under the old key is set aside rather than dropped.
+   */
+  private migrateLegacyGame(): void {
+    const item = this.storage.getItem(LEGACY_GAME_STATE_KEY);
+    if (item === null) return;
+
+    const result = readRecord(GAME_RECORD, TicTacToeGameStateSchema, item);
+    if (!result.ok) {
+      console.error('Failed to migrate Tic-Tac-Toe game state:', result.reason);
+      setAsideRecord(this.storage, LEGACY_GAME_STATE_KEY);
+      return;
+    }
+
+    const state = result.value;
+    this.storage.removeItem(LEGACY_GAME_STATE_KEY);
+    this.storage.setItem(`${GAME_PREFIX}${state.gameId}`, writeRecord(GAME_RECORD, state));
+    this.updateIndex(state);
+    this.storage.setItem(CURRENT_GAME_KEY, state.gameId);
+  }
 }
@@ -1,67 +1,72 @@
-import LZString from 'lz-string';
+import {
+  decodeFullState as decodeGameFullState,
+  encodeFullState as encodeGameFullState,
+} from './full-state-mac';
+import type { PlayerNumber, TargetPlayer } from './game-definition';
+import {
+  GameSecretStorage,
+  type FullStateEncodeOptions,
+  type PassphraseOptions,
+  type SecretStorageOptions,
+} from './game-secret';
+import { assertValidState } from './move-history';
+import { ticTacToeDefinition } from './tic-tac-toe-definition';
 import { TicTacToeGameStateSchema, type TicTacToeGameState } from './tic-tac-toe-schema';
 
-/**
- * Payload structure for full state encoding with embedded target player ID.
- */
-interface FullStatePayload {
-  state: TicTacToeGameState;
-  targetPlayerId: string;  // WHO this URL is for (by player ID)
-}
-
 /**
  * Encodes full game state into URL hash fragment with embedded target player ID.
- * The player ID is hidden inside the compressed payload.
+ * The player ID is hidden inside the compressed payload, and the whole
+ * payload is signed with the game secret.
  *
  * @param state - The game state to encode
  * @param targetPlayerId - Which player this URL is intended for (by player ID)
- * @returns Hash fragment like "#s=<compressed-payload>" (player ID embedded, not visible)
+ * @param options - Set includeSecret for the invite link only; set encrypt to hide the payload;
+ *   secrets is where the game secret is kept (defaults to localStorage)
+ * @returns Hash fragment like "#s=2.tic-tac-toe.<compressed-payload>" (player ID embedded, not visible)
+ * @throws {KeyUnavailableError} If this browser holds no secret for the game - the
+ * creator makes one with GameSecretStorage.getOrCreateSecret() when starting it
  */
-export function encodeFullState(state: TicTacToeGameState, targetPlayerId: string): string {
-  const payload: FullStatePayload = { state, targetPlayerId };
-  const json = JSON.stringify(payload);
-  const compressed = LZString.compressToEncodedURIComponent(json);
-  return `#s=${compressed}`;
+export async function encodeFullState(
+  state: TicTacToeGameState,
+  targetPlayerId: string,
+  options: FullStateEncodeOptions & SecretStorageOptions = {}
+): Promise<string> {
+  const { secrets = new GameSecretStorage(), ...encodeOptions } = options;
+  const seat: PlayerNumber = state.player1.id === targetPlayerId ? 1 : 2;
+  const target: TargetPlayer = targetPlayerId ? { seat, playerId: targetPlayerId } : { seat };
+  return encodeGameFullState(ticTacToeDefinition.id, state, target, secrets, encodeOptions);
 }
 
 /**
  * Decodes full game state from URL hash fragment, extracting embedded target player ID.
+ * Links from every earlier protocol version are understood (see url-envelope).
+ * A secret carried by an invite link is stored for the game; once a game has
+ * a secret, only links signed with it are accepted (see full-state-mac).
+ * The state must be consistent with the rules (see assertValidState), and
+ * a state carrying a move log must be reproduced by replaying it.
  *
- * @param hashFragment - Hash like "#s=<compressed-payload>"
+ * @param hashFragment - Hash like "#s=2.tic-tac-toe.<compressed-payload>"
+ * @param options - Passphrase hook for passphrase-protected games, and where
+ *   game secrets are kept (defaults to localStorage)
  * @returns Object with state and targetPlayerId (extracted from payload)
  */
-export function decodeFullState(hashFragment: string): { state: TicTacToeGameState; targetPlayerId: string } {
-  const compressed = hashFragment.substring(3); // Remove '#s='
-  const json = LZString.decompressFromEncodedURIComponent(compressed);
-
-  if (!json) {
-    throw new Error('Failed to decompress hash fragment');
-  }
-
-  const payload = JSON.parse(json);
-
-  // Handle backward compatibility: old URLs without targetPlayerId
-  if (payload.targetPlayerId === undefined) {
-    // Check for old targetPlayer format (number)
-    if (payload.targetPlayer !== undefined) {
-      const state = TicTacToeGameStateSchema.parse(payload.state);
-      // Convert old targetPlayer (1|2) to player ID from state
-      const targetPlayerId = payload.targetPlayer === 1 ? state.player1.id : state.player2.id;
-      return { state, targetPlayerId };
-    }
+export async function decodeFullState(
+  hashFragment: string,
+  options: PassphraseOptions & SecretStorageOptions = {}
+): Promise<{ state: TicTacToeGameState; targetPlayerId: string }> {
+  const { state, target } = await decodeGameFullState(
+    hashFragment,
+    ticTacToeDefinition.id,
+    TicTacToeGameStateSchema,
+    options.secrets ?? new GameSecretStorage(),
+    options.passphrase
+  );
 
-    // Very old format: payload is the state itself
-    const state = TicTacToeGameStateSchema.parse(payload);
-    // Infer target player from currentPlayer (best guess for migration)
-    const targetPlayerId = state.currentPlayer === 1 ? state.player1.id : state.player2.id;
-    return { state, targetPlayerId };
-  }
+  assertValidState(ticTacToeDefinition, state);
 
-  // New format: payload has state and targetPlayerId
-  if (!payload.targetPlayerId || typeof payload.targetPlayerId !== 'string') {
-    throw new Error('Invalid target player ID in URL payload');
-  }
+  // Older links only carried the seat - convert it to the player ID from state
+  const targetPlayerId = target.playerId
+    ?? (target.seat === 1 ? state.player1.id : state.player2.id);
 
-  const state = TicTacToeGameStateSchema.parse(payload.state);
-  return { state, targetPlayerId: payload.targetPlayerId };
+  return { state, targetPlayerId };
 }
@@ -1,59 +1,63 @@
-import LZString from 'lz-string';
+import { emojiGameDefinition } from './emoji-game-definition';
 import { EmojiGameStateSchema, type EmojiGameState } from './emoji-game-schema';
-
-/**
- * Payload structure for full state encoding with embedded target player.
- */
-interface FullStatePayload {
-  state: EmojiGameState;
-  targetPlayer: 1 | 2;
-}
+import {
+  decodeFullState as decodeGameFullState,
+  encodeFullState as encodeGameFullState,
+} from './full-state-mac';
+import {
+  GameSecretStorage,
+  type FullStateEncodeOptions,
+  type PassphraseOptions,
+  type SecretStorageOptions,
+} from './game-secret';
+import { assertValidState } from './move-history';
 
 /**
  * Encodes full game state into URL hash fragment with embedded target player indicator.
- * The player number is hidden inside the compressed payload.
+ * The player number is hidden inside the compressed payload, and the whole
+ * payload is signed with the game secret.
  *
  * @param state - The game state to encode
  * @param targetPlayer - Which player this URL is intended for (1 or 2)
- * @returns Hash fragment like "#s=<compressed-payload>" (player embedded, not visible)
+ * @param options - Set includeSecret for the invite link only; set encrypt to hide the payload;
+ *   secrets is where the game secret is kept (defaults to localStorage)
+ * @returns Hash fragment like "#s=2.emoji-chain.<compressed-payload>" (player embedded, not visible)
+ * @throws {KeyUnavailableError} If this browser holds no secret for the game - the
+ * creator makes one with GameSecretStorage.getOrCreateSecret() when starting it
  */
-export function encodeFullState(state: EmojiGameState, targetPlayer: 1 | 2): string {
-  const payload: FullStatePayload = { state, targetPlayer };
-  const json = JSON.stringify(payload);
-  const compressed = LZString.compressToEncodedURIComponent(json);
-  return `#s=${compressed}`;
+export async function encodeFullState(
+  state: EmojiGameState,
+  targetPlayer: 1 | 2,
+  options: FullStateEncodeOptions & SecretStorageOptions = {}
+): Promise<string> {
+  const { secrets = new GameSecretStorage(), ...encodeOptions } = options;
+  return encodeGameFullState(emojiGameDefinition.id, state, { seat: targetPlayer }, secrets, encodeOptions);
 }
 
 /**
  * Decodes full game state from URL hash fragment, extracting embedded target player.
+ * Links from every earlier protocol version are understood (see url-envelope).
+ * A secret carried by an invite link is stored for the game; once a game has
+ * a secret, only links signed with it are accepted (see full-state-mac).
+ * A state carrying a move log must be reproduced by replaying it.
  *
- * @param hashFragment - Hash like "#s=<compressed-payload>"
+ * @param hashFragment - Hash like "#s=2.emoji-chain.<compressed-payload>"
+ * @param options - Passphrase hook for passphrase-protected games, and where
+ *   game secrets are kept (defaults to localStorage)
  * @returns Object with state and targetPlayer (extracted from payload)
  */
-export function decodeFullState(hashFragment: string): { state: EmojiGameState; targetPlayer: 1 | 2 } {
-  const compressed = hashFragment.substring(3); // Remove '#s='
-  const json = LZString.decompressFromEncodedURIComponent(compressed);
-
-  if (!json) {
-    throw new Error('Failed to decompress hash fragment');
-  }
-
-  const payload = JSON.parse(json);
-
-  // Handle backward compatibility: old URLs without targetPlayer
-  if (payload.targetPlayer === undefined) {
-    // Old format: payload is the state itself
-    const state = EmojiGameStateSchema.parse(payload);
-    // Infer target player from currentPlayer (best guess for migration)
-    const targetPlayer = state.currentPlayer;
-    return { state, targetPlayer };
-  }
-
-  // New format: payload has state and targetPlayer
-  if (payload.targetPlayer !== 1 && payload.targetPlayer !== 2) {
-    throw new Error('Invalid target player in URL payload');
-  }
-
-  const state = EmojiGameStateSchema.parse(payload.state);
-  return { state, targetPlayer: payload.targetPlayer };
+export async function decodeFullState(
+  hashFragment: string,
+  options: PassphraseOptions & SecretStorageOptions = {}
+): Promise<{ state: EmojiGameState; targetPlayer: 1 | 2 }> {
+  const { state, target } = await decodeGameFullState(
+    hashFragment,
+    emojiGameDefinition.id,
+    EmojiGameStateSchema,
+    options.secrets ?? new GameSecretStorage(),
+    options.passphrase
+  );
+
+  assertValidState(emojiGameDefinition, state);
+  return { state, targetPlayer: target.seat };
 }
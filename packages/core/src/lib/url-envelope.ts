@@ -0,0 +1,466 @@
+/**
+ * @fileoverview Self-describing URL envelope carrying protocol version, game type and payload kind
+ *
+ * Wire format: `#<kind>=<version>.<gameType>.<compressed-payload>`
+ * - kind: `s` (full state) or `d` (delta)
+ * - version: protocol version the link was made with
+ * - gameType: GameDefinition id, e.g. `tic-tac-toe`
+ *
+ * Links made before versioning (`#s=<compressed-payload>`) are treated as version 1
+ * with no game type. lz-string's URI alphabet never contains `.`, so the two
+ * forms cannot be confused.
+ *
+ * Encrypted links replace the compressed payload with `e.<gameId>.<ciphertext>`
+ * (see payload-encryption) and must be decrypted before they can be read.
+ *
+ * Compact links replace it with `b.<base64url>`, the payload packed by the
+ * game's binary codecs (see binary-codec). Only readers given the same
+ * codecs can read them.
+ *
+ * Payloads are decompressed and parsed through safe-decode, which caps link
+ * and payload size and JSON depth.
+ */
+
+import LZString from 'lz-string';
+import { z } from 'zod';
+import type { BinaryCodec } from './binary-codec';
+import { DecodeError, InvalidInputError, LegacyFormatError, PayloadDecodeError } from './errors';
+import type { PlayerNumber, TargetPlayer } from './game-definition';
+import { isValidGameSecret } from './game-secret';
+import { assertLinkLength, decompressPayload, safeJsonParse } from './safe-decode';
+
+/**
+ * Protocol version written by this build.
+ */
+export const CURRENT_PROTOCOL_VERSION = 2;
+
+export type PayloadKind = 'full-state' | 'delta';
+
+/**
+ * Normalized full-state payload, independent of the version it was decoded from.
+ */
+export interface FullStatePayload {
+  state: unknown;
+  target: TargetPlayer;
+  /** Game secret, only present in the invite link that hands the game to Player 2 */
+  secret?: string;
+  /** HMAC of the payload under the game secret (see full-state-mac) */
+  mac?: string;
+  /** Identity signatures of the latest moves, in games that lock seats */
+  signatures?: MoveSignature[];
+}
+
+/**
+ * A move's identity signature, carried in full-state links so the receiver
+ * can check moves it never got as deltas (see GameEngine.decodeFullState).
+ */
+export interface MoveSignature {
+  /** Turn the signed move produced */
+  turn: number;
+  /** Mover's public key, for the move that locked their seat */
+  publicKey?: string;
+  /** Signature over the delta the move was sent as (see game-delta) */
+  signature: string;
+}
+
+/**
+ * Normalized delta payload, independent of the version it was decoded from.
+ */
+export interface DeltaPayload {
+  delta: unknown;
+  target: TargetPlayer;
+}
+
+export type UrlEnvelope =
+  | { version: number; gameType: string | null; kind: 'full-state'; payload: FullStatePayload }
+  | { version: number; gameType: string | null; kind: 'delta'; payload: DeltaPayload };
+
+/**
+ * Converts the raw JSON payload of one protocol version into the normalized form.
+ * Decoders throw if the payload is invalid for their version.
+ */
+export interface PayloadDecoder {
+  decodeFullState(raw: unknown): FullStatePayload;
+  decodeDelta(raw: unknown): DeltaPayload;
+}
+
+/**
+ * Outcome of reading an envelope. Failures are values rather than exceptions
+ * so apps can pick the right screen without string matching.
+ */
+export type EnvelopeDecodeResult =
+  | { ok: true; envelope: UrlEnvelope }
+  | { ok: false; reason: 'newer-version'; version: number }
+  | { ok: false; reason: 'unsupported-version'; version: number }
+  | { ok: false; reason: 'unknown-game'; gameType: string }
+  | { ok: false; reason: 'encrypted'; gameId: string }
+  | { ok: false; reason: 'rejected'; error: PayloadDecodeError }
+  | { ok: false; reason: 'malformed'; message: string };
+
+/**
+ * Binary codecs for a game's payloads (see createPayloadCodecs).
+ */
+export interface PayloadCodecs {
+  'full-state': BinaryCodec<FullStatePayload>;
+  delta: BinaryCodec<DeltaPayload>;
+}
+
+export interface DecodeEnvelopeOptions {
+  /** Game types this site can play; links for any other game yield 'unknown-game' */
+  gameTypes?: readonly string[];
+  /** Codecs for compact links; without them compact links are 'malformed' */
+  codecs?: PayloadCodecs;
+}
+
+const KIND_PREFIXES: Record<PayloadKind, string> = {
+  'full-state': 's',
+  delta: 'd',
+};
+
+const GAME_TYPE_PATTERN = /^[a-z0-9-]+$/;
+
+/**
+ * Third envelope segment marking an encrypted payload.
+ */
+export const ENCRYPTED_PAYLOAD_MARKER = 'e';
+
+/**
+ * Third envelope segment marking a compact binary payload.
+ */
+export const BINARY_PAYLOAD_MARKER = 'b';
+
+/**
+ * Schema of the target player carried by every versioned payload.
+ */
+export const TargetPlayerSchema = z.object({
+  seat: z.union([z.literal(1), z.literal(2)]),
+  playerId: z.string().min(1).optional(),
+});
+
+export const MoveSignatureSchema = z.strictObject({
+  turn: z.number().int().min(1),
+  publicKey: z.string().max(128).regex(/^[A-Za-z0-9_-]+$/).optional(),
+  signature: z.string().max(128).regex(/^[A-Za-z0-9_-]+$/),
+});
+
+const payloadDecoders = new Map<number, PayloadDecoder>();
+
+/**
+ * Registers the decoder for a protocol version. Registering a version again
+ * replaces its decoder.
+ */
+export function registerPayloadDecoder(version: number, decoder: PayloadDecoder): void {
+  payloadDecoders.set(version, decoder);
+}
+
+/**
+ * Wraps a payload in a versioned envelope.
+ *
+ * @param kind - Whether the payload is a full state or a delta
+ * @param gameType - GameDefinition id of the game
+ * @param payload - Payload to compress
+ * @param codecs - Pack the payload with these codecs instead of JSON + lz-string
+ * @returns Hash fragment like "#s=2.tic-tac-toe.<compressed-payload>", or
+ *   "#s=2.tic-tac-toe.b.<base64url>" with codecs
+ * @throws {InvalidInputError} If the game type is invalid, or the payload
+ *   doesn't fit the codec's schema
+ */
+export function encodeEnvelope(
+  kind: PayloadKind,
+  gameType: string,
+  payload: FullStatePayload | DeltaPayload,
+  codecs?: PayloadCodecs
+): string {
+  if (!GAME_TYPE_PATTERN.test(gameType)) {
+    throw new InvalidInputError(`Invalid game type: ${gameType}`);
+  }
+
+  if (codecs) {
+    const codec = codecs[kind] as BinaryCodec<FullStatePayload | DeltaPayload>;
+    return `#${KIND_PREFIXES[kind]}=${CURRENT_PROTOCOL_VERSION}.${gameType}.${BINARY_PAYLOAD_MARKER}.${codec.encode(payload)}`;
+  }
+
+  const compressed = LZString.compressToEncodedURIComponent(JSON.stringify(payload));
+  return `#${KIND_PREFIXES[kind]}=${CURRENT_PROTOCOL_VERSION}.${gameType}.${compressed}`;
+}
+
+/**
+ * Reads a hash fragment of any supported protocol version.
+ *
+ * @param hashFragment - Hash like "#s=2.tic-tac-toe.<compressed-payload>" or a legacy "#s=<compressed-payload>"
+ * @param options - Game types this site knows about, and codecs for compact links
+ * @returns The normalized envelope, or the reason it can't be read
+ */
+export function decodeEnvelope(
+  hashFragment: string,
+  options: DecodeEnvelopeOptions = {}
+): EnvelopeDecodeResult {
+  try {
+    assertLinkLength(hashFragment);
+  } catch (error) {
+    return { ok: false, reason: 'rejected', error: error as PayloadDecodeError };
+  }
+
+  const match = /^#([sd])=(.*)$/s.exec(hashFragment);
+  if (!match) {
+    return { ok: false, reason: 'malformed', message: 'Unrecognized link format' };
+  }
+
+  const kind: PayloadKind = match[1] === 's' ? 'full-state' : 'delta';
+  const body = match[2] ?? '';
+
+  let version = 1;
+  let gameType: string | null = null;
+  let compressed = body;
+  let encryptedFor: string | null = null;
+  let binary = false;
+
+  const parts = body.split('.');
+  if (parts.length > 1) {
+    const [versionPart = '', gameTypePart = '', ...rest] = parts;
+    const encrypted = rest.length === 3 && rest[0] === ENCRYPTED_PAYLOAD_MARKER;
+    binary = rest.length === 2 && rest[0] === BINARY_PAYLOAD_MARKER;
+    if (
+      !/^\d+$/.test(versionPart) ||
+      !GAME_TYPE_PATTERN.test(gameTypePart) ||
+      (rest.length !== 1 && !encrypted && !binary)
+    ) {
+      return { ok: false, reason: 'malformed', message: 'Malformed link envelope' };
+    }
+    version = Number(versionPart);
+    gameType = gameTypePart;
+    compressed = binary ? rest[1] ?? '' : rest[0] ?? '';
+    encryptedFor = encrypted ? rest[1] ?? '' : null;
+  }
+
+  if (version > CURRENT_PROTOCOL_VERSION) {
+    return { ok: false, reason: 'newer-version', version };
+  }
+
+  const decoder = payloadDecoders.get(version);
+  if (!decoder) {
+    return { ok: false, reason: 'unsupported-version', version };
+  }
+
+  if (gameType !== null && options.gameTypes && !options.gameTypes.includes(gameType)) {
+    return { ok: false, reason: 'unknown-game', gameType };
+  }
+
+  if (encryptedFor !== null) {
+    return { ok: false, reason: 'encrypted', gameId: encryptedFor };
+  }
+
+  if (binary && !options.codecs) {
+    return { ok: false, reason: 'malformed', message: 'This link uses a compact format this page cannot read' };
+  }
+
+  try {
+    let raw: unknown;
+    if (binary && options.codecs) {
+      raw = options.codecs[kind].decode(compressed);
+    } else {
+      const json = decompressPayload(
+        compressed,
+        kind === 'delta' ? 'Failed to decompress delta hash fragment' : 'Failed to decompress hash fragment'
+      );
+      raw = safeJsonParse(json);
+    }
+    const envelope: UrlEnvelope = kind === 'delta'
+      ? { version, gameType, kind, payload: decoder.decodeDelta(raw) }
+      : { version, gameType, kind, payload: decoder.decodeFullState(raw) };
+    return { ok: true, envelope };
+  } catch (error) {
+    if (
+      error instanceof PayloadDecodeError &&
+      error.reason !== 'decompress-failed' &&
+      error.reason !== 'invalid-json' &&
+      error.reason !== 'invalid-binary'
+    ) {
+      return { ok: false, reason: 'rejected', error };
+    }
+    return { ok: false, reason: 'malformed', message: (error as Error).message };
+  }
+}
+
+/**
+ * Reads an envelope that must contain a specific kind of payload for a specific game.
+ * Used by decoders that prefer exceptions over result values.
+ *
+ * @param codecs - The game's codecs, to read compact links
+ * @throws {DecodeError} If the link can't be read, exceeds the decode limits
+ *   (PayloadDecodeError), is for another game, or has the wrong kind
+ * @throws {LegacyFormatError} If the link's protocol version is no longer supported
+ */
+export function readEnvelope(
+  hashFragment: string,
+  kind: 'full-state',
+  gameType: string,
+  codecs?: PayloadCodecs
+): FullStatePayload;
+export function readEnvelope(hashFragment: string, kind: 'delta', gameType: string, codecs?: PayloadCodecs): DeltaPayload;
+export function readEnvelope(
+  hashFragment: string,
+  kind: PayloadKind,
+  gameType: string,
+  codecs?: PayloadCodecs
+): FullStatePayload | DeltaPayload {
+  const result = decodeEnvelope(hashFragment, codecs ? { gameTypes: [gameType], codecs } : { gameTypes: [gameType] });
+
+  if (!result.ok) {
+    switch (result.reason) {
+      case 'newer-version':
+        throw new DecodeError('This link was made by a newer version of the game - please update', 'newer-version');
+      case 'unsupported-version':
+        throw new LegacyFormatError(`Link protocol version ${result.version} is no longer supported`, result.version);
+      case 'unknown-game':
+        throw new DecodeError(`This link is for a different game (${result.gameType})`, 'unknown-game');
+      case 'encrypted':
+        throw new DecodeError('This link is encrypted - decrypt it before reading', 'encrypted');
+      case 'rejected':
+        throw result.error;
+      default:
+        throw new DecodeError(result.message, 'malformed');
+    }
+  }
+
+  if (result.envelope.kind !== kind) {
+    throw new DecodeError(`Expected a ${kind} link but got a ${result.envelope.kind} link`, 'wrong-kind');
+  }
+
+  return result.envelope.payload;
+}
+
+function parseTarget(raw: unknown): TargetPlayer {
+  const parsed = TargetPlayerSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new DecodeError('Invalid target player in URL payload', 'invalid-payload');
+  }
+  const { seat, playerId } = parsed.data;
+  return playerId === undefined ? { seat } : { seat, playerId };
+}
+
+function parseSignatures(raw: unknown): MoveSignature[] {
+  const parsed = z.array(MoveSignatureSchema).safeParse(raw);
+  if (!parsed.success) {
+    throw new DecodeError('Invalid move signatures in URL payload', 'invalid-payload');
+  }
+  return parsed.data.map(({ turn, publicKey, signature }) =>
+    publicKey === undefined ? { turn, signature } : { turn, publicKey, signature }
+  );
+}
+
+function asRecord(raw: unknown): Record<string, unknown> {
+  if (typeof raw !== 'object' || raw === null) {
+    throw new DecodeError('URL payload is not an object', 'invalid-payload');
+  }
+  return raw as Record<string, unknown>;
+}
+
+/**
+ * Reads a nested field, or undefined if any object along the path is missing.
+ */
+function readPath(value: unknown, ...path: string[]): unknown {
+  let current = value;
+  for (const key of path) {
+    if (typeof current !== 'object' || current === null) return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+/**
+ * Version 2: `{ state, target, secret?, mac?, signatures? }` and `{ delta, target }`.
+ */
+const versionTwoDecoder: PayloadDecoder = {
+  decodeFullState(raw) {
+    const payload = asRecord(raw);
+    const result: FullStatePayload = { state: payload.state, target: parseTarget(payload.target) };
+
+    if (payload.secret !== undefined) {
+      if (!isValidGameSecret(payload.secret)) {
+        throw new DecodeError('Invalid game secret in URL payload', 'invalid-payload');
+      }
+      result.secret = payload.secret;
+    }
+    if (payload.mac !== undefined) {
+      if (typeof payload.mac !== 'string' || !/^[0-9a-f]{64}$/.test(payload.mac)) {
+        throw new DecodeError('Invalid MAC in URL payload', 'invalid-payload');
+      }
+      result.mac = payload.mac;
+    }
+    if (payload.signatures !== undefined) {
+      result.signatures = parseSignatures(payload.signatures);
+    }
+    return result;
+  },
+  decodeDelta(raw) {
+    const payload = asRecord(raw);
+    return { delta: payload.delta, target: parseTarget(payload.target) };
+  },
+};
+
+/**
+ * Version 1: unversioned links from before the envelope existed. Covers every
+ * shape the per-game encoders ever produced:
+ * - `{ state, targetPlayer: 1 | 2 }` / `{ delta, targetPlayer: 1 | 2 }`
+ * - `{ state, targetPlayerId }` / `{ delta, targetPlayerId }`
+ * - `{ state, target }` / `{ delta, target }` (unversioned generic encoders)
+ * - the bare state or delta
+ */
+const versionOneDecoder: PayloadDecoder = {
+  decodeFullState(raw) {
+    const payload = asRecord(raw);
+
+    if (payload.target !== undefined) {
+      return versionTwoDecoder.decodeFullState(payload);
+    }
+
+    if (payload.targetPlayerId !== undefined) {
+      if (!payload.targetPlayerId || typeof payload.targetPlayerId !== 'string') {
+        throw new DecodeError('Invalid target player ID in URL payload', 'invalid-payload');
+      }
+      const seat: PlayerNumber = readPath(payload.state, 'player1', 'id') === payload.targetPlayerId ? 1 : 2;
+      return { state: payload.state, target: { seat, playerId: payload.targetPlayerId } };
+    }
+
+    if (payload.targetPlayer !== undefined) {
+      if (payload.targetPlayer !== 1 && payload.targetPlayer !== 2) {
+        throw new DecodeError('Invalid target player in URL payload', 'invalid-payload');
+      }
+      return { state: payload.state, target: { seat: payload.targetPlayer } };
+    }
+
+    // Bare state: infer target from currentPlayer (best guess for migration)
+    return { state: payload, target: { seat: payload.currentPlayer === 2 ? 2 : 1 } };
+  },
+
+  decodeDelta(raw) {
+    const payload = asRecord(raw);
+
+    // Bare delta: the URL is for the opponent of the player who moved
+    if (payload.delta === undefined) {
+      return { delta: payload, target: { seat: readPath(payload, 'move', 'player') === 1 ? 2 : 1 } };
+    }
+
+    if (payload.target !== undefined) {
+      return versionTwoDecoder.decodeDelta(payload);
+    }
+
+    const opponentOfMover: PlayerNumber = readPath(payload.delta, 'move', 'player') === 1 ? 2 : 1;
+
+    if (payload.targetPlayerId !== undefined) {
+      if (!payload.targetPlayerId || typeof payload.targetPlayerId !== 'string') {
+        throw new DecodeError('Invalid target player ID in URL payload', 'invalid-payload');
+      }
+      return { delta: payload.delta, target: { seat: opponentOfMover, playerId: payload.targetPlayerId } };
+    }
+
+    if (payload.targetPlayer !== 1 && payload.targetPlayer !== 2) {
+      throw new DecodeError('Invalid target player in URL payload', 'invalid-payload');
+    }
+    return { delta: payload.delta, target: { seat: payload.targetPlayer } };
+  },
+};
+
+registerPayloadDecoder(1, versionOneDecoder);
+registerPayloadDecoder(CURRENT_PROTOCOL_VERSION, versionTwoDecoder);